@@ -1,8 +1,11 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Wall, Opening, ProjectSettings, ToolMode, CalculationResult, ToolSettings, GroundTruth, ProjectMeta, ProjectData, ProjectLabel, Column, Beam, Slab } from './types';
-import { calculateEstimates } from './utils/estimationEngine';
+import { Wall, Opening, ProjectSettings, ToolMode, CalculationResult, ToolSettings, GroundTruth, ProjectMeta, ProjectData, Level } from './types';
+import { calculateProjectEstimates } from './utils/estimationEngine';
+import { createLevel, levelsFromGraph, getLevelWallHeight, retargetWallHeights } from './utils/levels';
 import { validateGeometry } from './utils/validation';
 import { compileGraphData } from './utils/graphCompiler';
+import { barScheduleToCsv, stockBarLength } from './utils/barSchedule';
+import { planAllCutting, cuttingPlansToCsv } from './utils/cuttingStock';
 import Toolbar from './components/Toolbar';
 import Sidebar from './components/Sidebar';
 import Canvas from './components/Canvas';
@@ -29,18 +32,31 @@ const App: React.FC = () => {
     localStorage.setItem('theme', isDarkMode ? 'dark' : 'light');
   }, [isDarkMode]);
 
-  // Canvas Data
-  const [walls, setWalls] = useState<Wall[]>([]);
-  const [openings, setOpenings] = useState<Opening[]>([]);
-  const [columns, setColumns] = useState<Column[]>([]);
-  const [beams, setBeams] = useState<Beam[]>([]);
-  const [slabs, setSlabs] = useState<Slab[]>([]);
-  const [labels, setLabels] = useState<ProjectLabel[]>([]);
+  // Canvas Data (one set of elements per storey)
+  const [levels, setLevels] = useState<Level[]>(() => [createLevel([])]);
+  const [activeLevelId, setActiveLevelId] = useState<string>(() => levels[0].id);
+  const activeLevelIndex = Math.max(0, levels.findIndex(l => l.id === activeLevelId));
+  const activeLevel = levels[activeLevelIndex];
+  const { walls, openings, columns, beams, slabs, labels } = activeLevel;
+
+  // Setters write into the active level, accepting values or updater functions like useState
+  const levelSetter = <K extends 'walls' | 'openings' | 'columns' | 'beams' | 'slabs' | 'labels'>(key: K): React.Dispatch<React.SetStateAction<Level[K]>> => (action) => {
+    setLevels(prev => prev.map(l => l.id === activeLevel.id ? {
+      ...l,
+      [key]: typeof action === 'function' ? (action as (p: Level[K]) => Level[K])(l[key]) : action
+    } : l));
+  };
+  const setWalls = levelSetter('walls');
+  const setOpenings = levelSetter('openings');
+  const setColumns = levelSetter('columns');
+  const setBeams = levelSetter('beams');
+  const setSlabs = levelSetter('slabs');
+  const setLabels = levelSetter('labels');
 
   // Selection State
   const [selectedId, setSelectedId] = useState<string | null>(null);
 
-  const [history, setHistory] = useState<{ walls: Wall[], openings: Opening[], labels: ProjectLabel[], columns: Column[], beams: Beam[], slabs: Slab[] }[]>([]);
+  const [history, setHistory] = useState<Level[][]>([]);
 
   // Sensor Data
   const [meta, setMeta] = useState<ProjectMeta>({
@@ -66,6 +82,7 @@ const App: React.FC = () => {
     blockThickness: 225,
     mortarThickness: 25,
     floorThickness: 150,
+    blindingThickness: 50,
     wallHeightDefault: 3000,
     wastagePercentage: 0,
 
@@ -88,10 +105,7 @@ const App: React.FC = () => {
 
     floorMixRatio: "1:2:4",
     foundationType: 'strip',
-    foundationWidth: 450,
-    foundationDepth: 900,
-    padLength: 1000,
-    padWidth: 1000
+    foundationDepth: 900
   });
 
   const [toolSettings, setToolSettings] = useState<ToolSettings>({
@@ -130,21 +144,22 @@ const App: React.FC = () => {
   // --- Auto-Save & History ---
   useEffect(() => {
     const lastState = history[history.length - 1];
-    if (!lastState || lastState.walls !== walls || lastState.openings !== openings || lastState.labels !== labels || lastState.columns !== columns || lastState.beams !== beams || lastState.slabs !== slabs) {
+    if (!lastState || lastState !== levels) {
       setMeta(prev => ({ ...prev, lastModified: new Date().toISOString() }));
     }
 
-    if (walls.length > 0) {
+    if (levels.some(l => l.walls.length > 0)) {
+      const ground = levels[0];
       const autoSaveData: ProjectData = {
         meta,
-        graph: { walls, openings, columns, beams, slabs, labels },
+        graph: { walls: ground.walls, openings: ground.openings, columns: ground.columns, beams: ground.beams, slabs: ground.slabs, labels: ground.labels, levels },
         settings,
         toolSettings,
         groundTruth
       };
       localStorage.setItem('construct_ai_autosave', JSON.stringify(autoSaveData));
     }
-  }, [walls, openings, labels, columns, beams, slabs]);
+  }, [levels]);
 
   // Restore AutoSave
   useEffect(() => {
@@ -154,12 +169,9 @@ const App: React.FC = () => {
         const data = JSON.parse(saved) as ProjectData;
         if (confirm("Found an unsaved project from a previous session. Restore it?")) {
           if (data.graph) {
-            setWalls(data.graph.walls);
-            setOpenings(data.graph.openings);
-            setColumns(data.graph.columns || []);
-            setBeams(data.graph.beams || []);
-            setSlabs(data.graph.slabs || []);
-            setLabels(data.graph.labels || []);
+            const restored = levelsFromGraph(data.graph);
+            setLevels(restored);
+            setActiveLevelId(restored[0].id);
           }
           if (data.meta) setMeta(data.meta);
           if (data.settings) setSettings(data.settings);
@@ -172,26 +184,19 @@ const App: React.FC = () => {
   const handleUndo = () => {
     if (history.length > 0) {
       const previous = history[history.length - 1];
-      setWalls(previous.walls);
-      setOpenings(previous.openings);
-      setColumns(previous.columns);
-      setBeams(previous.beams);
-      setSlabs(previous.slabs);
-      setLabels(previous.labels);
+      setLevels(previous);
+      if (!previous.some(l => l.id === activeLevelId)) setActiveLevelId(previous[0].id);
       setHistory(prev => prev.slice(0, -1));
     }
   };
 
   const handleClear = () => {
     if (confirm("Are you sure you want to clear the entire plan?")) {
-      setWalls([]);
-      setOpenings([]);
-      setColumns([]);
-      setBeams([]);
-      setSlabs([]);
-      setLabels([]);
+      const fresh = [createLevel([])];
+      setHistory(prev => [...prev, levels]);
+      setLevels(fresh);
+      setActiveLevelId(fresh[0].id);
       setGroundTruth({ hasFeedback: false });
-      setHistory(prev => [...prev, { walls: [], openings: [], columns: [], beams: [], slabs: [], labels: [] }]);
       setMeta(prev => ({
         ...prev,
         id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2),
@@ -202,10 +207,11 @@ const App: React.FC = () => {
   };
 
   const handleSave = () => {
-    const gnnData = compileGraphData(walls, openings, beams, slabs, labels);
+    const ground = levels[0];
+    const gnnData = compileGraphData(ground.walls, ground.openings, ground.beams, ground.slabs, ground.labels);
     const projectData: ProjectData = {
       meta,
-      graph: { walls, openings, columns, beams, slabs, labels },
+      graph: { walls: ground.walls, openings: ground.openings, columns: ground.columns, beams: ground.beams, slabs: ground.slabs, labels: ground.labels, levels },
       gnnReady: gnnData,
       settings,
       toolSettings,
@@ -236,6 +242,20 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  const handleExportBarSchedule = () => {
+    // Schedule first, then the cutting plan the fabricator works from
+    const csv = `${barScheduleToCsv(results.barSchedule, settings)}\n\n${cuttingPlansToCsv(planAllCutting(results.barSchedule, stockBarLength(settings)))}`;
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `bar_schedule_${meta.id.slice(0, 8)}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   const handleLoad = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -247,22 +267,18 @@ const App: React.FC = () => {
         const json = JSON.parse(content);
 
         if (json.graph && Array.isArray(json.graph.walls)) {
-          setWalls(json.graph.walls);
-          setOpenings(json.graph.openings);
-          setColumns(json.graph.columns || []);
-          setBeams(json.graph.beams || []);
-          setSlabs(json.graph.slabs || []);
-          setLabels(json.graph.labels || []);
+          const loaded = levelsFromGraph(json.graph);
+          setLevels(loaded);
+          setActiveLevelId(loaded[0].id);
           if (json.meta) setMeta(json.meta);
           if (json.settings) setSettings(json.settings);
           if (json.toolSettings) setToolSettings(json.toolSettings);
           if (json.groundTruth) setGroundTruth(json.groundTruth);
         } else if (Array.isArray(json.walls) || Array.isArray(json.data?.walls)) {
           const data = json.data || json;
-          setWalls(data.walls);
-          setOpenings(data.openings || []);
-          setColumns([]);
-          setLabels([]);
+          const loaded = levelsFromGraph({ walls: data.walls, openings: data.openings || [] });
+          setLevels(loaded);
+          setActiveLevelId(loaded[0].id);
           if (data.settings) setSettings(data.settings);
           if (data.toolSettings) setToolSettings(data.toolSettings);
           setMeta(prev => ({
@@ -284,10 +300,47 @@ const App: React.FC = () => {
   };
 
   const setWallsWithHistory: React.Dispatch<React.SetStateAction<Wall[]>> = (action) => {
-    setHistory(prev => [...prev, { walls, openings, columns, beams, slabs, labels }]);
+    setHistory(prev => [...prev, levels]);
     setWalls(action);
   };
 
+  const handleAddLevel = () => {
+    const level = createLevel(levels);
+    setHistory(prev => [...prev, levels]);
+    setLevels(prev => [...prev, level]);
+    setActiveLevelId(level.id);
+    setSelectedId(null);
+  };
+
+  const handleSelectLevel = (id: string) => {
+    setActiveLevelId(id);
+    setSelectedId(null);
+  };
+
+  // Walls left at their storey height follow it when the level or default height changes
+  const handleUpdateLevel = (updates: Partial<Level>) => {
+    setLevels(prev => prev.map(l => {
+      if (l.id !== activeLevel.id) return l;
+      const next = { ...l, ...updates };
+      const walls = retargetWallHeights(l.walls, getLevelWallHeight(l, settings), getLevelWallHeight(next, settings));
+      return { ...next, walls };
+    }));
+  };
+
+  const handleUpdateSettings = (next: ProjectSettings) => {
+    setLevels(prev => prev.map(l => ({
+      ...l,
+      walls: retargetWallHeights(l.walls, getLevelWallHeight(l, settings), getLevelWallHeight(l, next))
+    })));
+    setSettings(next);
+  };
+
+  // Settings seen from the active level: new walls are drawn at its storey height
+  const levelSettings = useMemo(() => ({
+    ...settings,
+    wallHeightDefault: getLevelWallHeight(activeLevel, settings)
+  }), [settings, activeLevel]);
+
   const handleSketchAnalysisComplete = (data: GeminiFloorPlanResponse, imageBase64: string | null) => {
     console.log("Analysis Result:", data);
     console.log("Detected Dimensions:", (data as any).dimensions);
@@ -446,8 +499,8 @@ const App: React.FC = () => {
   };
 
   const results = useMemo<CalculationResult>(() => {
-    return calculateEstimates(walls, openings, columns, beams, slabs, settings);
-  }, [walls, openings, columns, beams, slabs, settings]);
+    return calculateProjectEstimates(levels, settings);
+  }, [levels, settings]);
 
   return (
     <div className="flex flex-col h-[100dvh] overflow-hidden font-sans" style={{ background: 'var(--bg-primary)', color: 'var(--text-primary)' }}>
@@ -510,12 +563,17 @@ const App: React.FC = () => {
           onSave={handleSave}
           onLoad={handleLoad}
           onExportTrainingData={handleExportTrainingData}
+          onExportBarSchedule={handleExportBarSchedule}
           onOpenSketchUpload={() => setIsSketchUploaderOpen(true)}
           toolSettings={toolSettings}
           setToolSettings={setToolSettings}
           showOverlay={showOverlay}
           setShowOverlay={setShowOverlay}
           hasOverlay={!!sketchOverlay}
+          levels={levels}
+          activeLevelId={activeLevel.id}
+          onSelectLevel={handleSelectLevel}
+          onAddLevel={handleAddLevel}
         />
 
         <div className="flex-1 relative bg-canvas-bg overflow-hidden touch-none">
@@ -534,7 +592,7 @@ const App: React.FC = () => {
             setBeams={setBeams}
             setSlabs={setSlabs}
             setLabels={setLabels}
-            settings={settings}
+            settings={levelSettings}
             toolSettings={toolSettings}
             snapEnabled={snapEnabled}
             showDimensions={showDimensions}
@@ -543,6 +601,9 @@ const App: React.FC = () => {
             onUpdateSettings={setSettings}
             results={results}
             sketchOverlay={showOverlay ? sketchOverlay : null}
+            ghostLevel={activeLevelIndex > 0 ? levels[activeLevelIndex - 1] : undefined}
+            roof={activeLevel.roof}
+            levelId={activeLevel.id}
           />
         </div>
 
@@ -550,7 +611,7 @@ const App: React.FC = () => {
         <Sidebar
           activeTool={tool}
           settings={settings}
-          onUpdateSettings={setSettings}
+          onUpdateSettings={handleUpdateSettings}
           toolSettings={toolSettings}
           onUpdateToolSettings={setToolSettings}
           results={results}
@@ -567,7 +628,9 @@ const App: React.FC = () => {
           columns={columns}
           walls={walls}
           openings={openings}
-          geometricIssues={useMemo(() => validateGeometry(walls), [walls])}
+          geometricIssues={useMemo(() => validateGeometry(walls, openings, levelSettings), [walls, openings, levelSettings])}
+          activeLevel={activeLevel}
+          onUpdateLevel={handleUpdateLevel}
         />
 
         {isSketchUploaderOpen && (
@@ -1,7 +1,10 @@
-import React, { useRef, useState, MouseEvent, useEffect, KeyboardEvent as ReactKeyboardEvent, TouchEvent } from 'react';
-import { Wall, Point, Opening, ToolMode, ProjectSettings, ToolSettings, ViewportTransform, SnapGuide, SnapType, ProjectLabel, Column, SectionLine, CalculationResult, Beam, Slab } from '../types';
-import { distance, snapToGrid, checkSnapToNodes, getClosestPointOnLine, generateId, getAngle, snapToAngle, getAlignmentGuides, roundPoint, getLineIntersection } from '../utils/geometry';
+import React, { useRef, useState, useMemo, MouseEvent, useEffect, KeyboardEvent as ReactKeyboardEvent, TouchEvent } from 'react';
+import { Wall, Point, Opening, ToolMode, ProjectSettings, ToolSettings, ViewportTransform, SnapGuide, SnapType, ProjectLabel, Column, SectionLine, CalculationResult, Beam, Slab, Level, Roof, MemberSafety } from '../types';
+import { distance, snapToGrid, checkSnapToNodes, getClosestPointOnLine, getClosestPointOnWall, getWallArc, getWallLength, getWallPointAt, getArcBulge, generateId, getAngle, snapToAngle, getAlignmentGuides, roundPoint, getLineIntersection } from '../utils/geometry';
 import { calculateTributaryAreas } from '../utils/structuralAnalysis';
+import { computeRoofGeometry } from '../utils/roofDesign';
+import { getArchRise } from '../utils/openingCsg';
+import { MIN_PAD_SIZE } from '../utils/foundationDesign';
 import { Move, ZoomIn, ZoomOut, Keyboard, MousePointer2 } from 'lucide-react';
 import PropertiesPanel from './PropertiesPanel';
 import DPad from './DPad';
@@ -32,6 +35,9 @@ interface CanvasProps {
     onUpdateSettings: React.Dispatch<React.SetStateAction<ProjectSettings>>;
     results?: CalculationResult;
     sketchOverlay?: { image: string, width: number, height: number } | null;
+    ghostLevel?: Level; // Level below the active one, drawn faded for tracing
+    roof?: Roof; // Roof over the active level, drawn as an eaves/ridge overlay
+    levelId?: string; // Active level, to pick its lateral check out of the project results
 }
 
 // Convert MM to Pixels for display (Scale factor)
@@ -61,8 +67,13 @@ const Canvas: React.FC<CanvasProps> = ({
     setSelectedId,
     onUpdateSettings,
     results,
-    sketchOverlay
+    sketchOverlay,
+    ghostLevel,
+    roof,
+    levelId
 }) => {
+    const roofGeometry = useMemo(() => roof ? computeRoofGeometry(walls, roof) : undefined, [walls, roof]);
+
     const [isDrawing, setIsDrawing] = useState(false);
     const [points, setPoints] = useState<Point[]>([]);
     const [cursor, setCursor] = useState<Point>({ x: 0, y: 0 });
@@ -105,6 +116,18 @@ const Canvas: React.FC<CanvasProps> = ({
         distFromStart: number;
     } | null>(null);
 
+    const isOpeningTool = tool === 'door' || tool === 'window' || tool === 'arch';
+
+    // Type and size of the opening the active tool places; arches spring at the
+    // set height and rise to the crown (semicircular unless a rise is set)
+    const openingFromTool = (): Pick<Opening, 'type' | 'width' | 'height' | 'archRise'> => {
+        if (tool === 'door') return { type: 'door', width: toolSettings.doorWidth, height: toolSettings.doorHeight };
+        if (tool === 'window') return { type: 'window', width: toolSettings.windowWidth, height: toolSettings.windowHeight };
+        const width = toolSettings.archWidth || 900;
+        const rise = Math.min(toolSettings.archRise ?? width / 2, width / 2);
+        return { type: 'arch', width, height: (toolSettings.archSpringHeight ?? 2100) + rise, archRise: rise };
+    };
+
     // Precision Mode State
     const [precisionMode, setPrecisionMode] = useState(false);
     const [virtualCursor, setVirtualCursor] = useState<Point | null>(null); // For D-Pad control
@@ -309,13 +332,8 @@ const Canvas: React.FC<CanvasProps> = ({
             const hitOpening = openings.find(o => {
                 const w = walls.find(wall => wall.id === o.wallId);
                 if (!w) return false;
-                const wallLen = distance(w.start, w.end);
-                const dx = (w.end.x - w.start.x) / wallLen;
-                const dy = (w.end.y - w.start.y) / wallLen;
-                const ox = w.start.x + dx * o.distanceFromStart;
-                const oy = w.start.y + dy * o.distanceFromStart;
                 const visualWidth = o.width * SCALE;
-                return distance(worldPos, { x: ox, y: oy }) < (visualWidth / 2);
+                return distance(worldPos, getWallPointAt(w, o.distanceFromStart).point) < (visualWidth / 2);
             });
 
             if (hitOpening) {
@@ -348,7 +366,7 @@ const Canvas: React.FC<CanvasProps> = ({
 
             // 4. Check Walls
             const hitWall = walls.find(w => {
-                const { point } = getClosestPointOnLine(worldPos, w.start, w.end);
+                const { point } = getClosestPointOnWall(worldPos, w);
                 return distance(worldPos, point) < 10;
             });
 
@@ -449,6 +467,28 @@ const Canvas: React.FC<CanvasProps> = ({
                 }
             }
 
+        } else if (tool === 'arc') {
+            // Arc wall: click the start, the end, then a point the arc bows through
+            setSelectedId(null);
+            if (!isDrawing) {
+                setIsDrawing(true);
+                setPoints([cursor]);
+            } else if (points.length === 1) {
+                if (distance(points[0], cursor) > 0) setPoints([points[0], cursor]);
+            } else {
+                const [start, end] = points;
+                const newWall: Wall = {
+                    id: generateId(),
+                    start,
+                    end,
+                    thickness: toolSettings.wallType === 'partition' ? 150 : 225,
+                    height: settings.wallHeightDefault,
+                    bulge: getArcBulge(start, end, cursor)
+                };
+                setWalls([...walls, newWall]);
+                setPoints([end]); // Continue from the end, like the wall polyline
+            }
+
         } else if (tool === 'beam') {
             // STRICT CONSTRAINT: Beams must start/end on Columns
             const hitColumn = columns.find(c => distance(worldPos, { x: c.x, y: c.y }) < 20);
@@ -538,18 +578,13 @@ const Canvas: React.FC<CanvasProps> = ({
                 }
             }
 
-        } else if (tool === 'door' || tool === 'window') {
+        } else if (isOpeningTool) {
             if (previewOpening) {
-                const width = tool === 'door' ? toolSettings.doorWidth : toolSettings.windowWidth;
-                const height = tool === 'door' ? toolSettings.doorHeight : toolSettings.windowHeight;
-
                 setOpenings([...openings, {
                     id: generateId(),
                     wallId: previewOpening.wall.id,
-                    type: tool,
                     distanceFromStart: previewOpening.distFromStart,
-                    width,
-                    height
+                    ...openingFromTool()
                 }]);
             }
         } else if (tool === 'text') {
@@ -597,17 +632,10 @@ const Canvas: React.FC<CanvasProps> = ({
                 const w = walls.find(wall => wall.id === o.wallId);
                 if (!w) return false;
 
-                const wallLen = distance(w.start, w.end);
-                if (wallLen === 0) return false;
-
-                const dx = (w.end.x - w.start.x) / wallLen;
-                const dy = (w.end.y - w.start.y) / wallLen;
-
-                const ox = w.start.x + dx * o.distanceFromStart;
-                const oy = w.start.y + dy * o.distanceFromStart;
+                if (distance(w.start, w.end) === 0) return false;
 
                 const visualWidth = o.width * SCALE;
-                const dist = distance(worldPos, { x: ox, y: oy });
+                const dist = distance(worldPos, getWallPointAt(w, o.distanceFromStart).point);
                 return dist < (visualWidth / 2);
             });
 
@@ -640,7 +668,7 @@ const Canvas: React.FC<CanvasProps> = ({
             }
 
             const wallToRemove = walls.find(w => {
-                const { point } = getClosestPointOnLine(worldPos, w.start, w.end);
+                const { point } = getClosestPointOnWall(worldPos, w);
                 return distance(worldPos, point) < 10;
             });
 
@@ -801,7 +829,7 @@ const Canvas: React.FC<CanvasProps> = ({
                     let snappedWall: Wall | null = null;
 
                     walls.forEach(w => {
-                        const { point } = getClosestPointOnLine({ x: finalX, y: finalY }, w.start, w.end);
+                        const { point } = getClosestPointOnWall({ x: finalX, y: finalY }, w);
                         const d = distance({ x: finalX, y: finalY }, point);
                         if (d < 15 && d < closestEdgeDist) {
                             closestEdgeDist = d;
@@ -915,7 +943,15 @@ const Canvas: React.FC<CanvasProps> = ({
 
         // --- Logic Separation by Tool ---
 
-        if (tool === 'wall') {
+        if (tool === 'arc' && points.length === 2) {
+            // Bulge point: free, the arc passes level with the cursor
+            setCursor(roundPoint(worldPos));
+            setActiveGuides([]);
+            setSnapType('none');
+            setWallSnap(null);
+            setPreviewOpening(null);
+
+        } else if (tool === 'wall' || tool === 'arc') {
             let finalPoint = worldPos;
             let currentSnapType: SnapType = 'none';
             let guides: SnapGuide[] = [];
@@ -1014,21 +1050,23 @@ const Canvas: React.FC<CanvasProps> = ({
                         let edgePoint: Point | null = null;
                         let snappedWall: Wall | null = null;
 
+                        let edgeDistStart = 0;
+
                         walls.forEach(w => {
-                            const { point } = getClosestPointOnLine(worldPos, w.start, w.end);
+                            const { point, t } = getClosestPointOnWall(worldPos, w);
                             const d = distance(worldPos, point);
                             if (d < 15 && d < closestEdgeDist) { // 15px threshold matches node snap roughly
                                 closestEdgeDist = d;
                                 edgePoint = point;
                                 snappedWall = w;
+                                edgeDistStart = t * getWallLength(w);
                             }
                         });
 
                         if (edgePoint && snappedWall && !alignment.guides.length) {
                             finalPoint = edgePoint;
                             currentSnapType = 'edge';
-                            const distStart = distance(snappedWall.start, edgePoint);
-                            newWallSnap = { wall: snappedWall, point: edgePoint, distFromStart: distStart };
+                            newWallSnap = { wall: snappedWall, point: edgePoint, distFromStart: edgeDistStart };
                         }
                     }
                 }
@@ -1110,7 +1148,7 @@ const Canvas: React.FC<CanvasProps> = ({
             setPreviewOpening(null);
             setWallSnap(null);
 
-        } else if (tool === 'door' || tool === 'window') {
+        } else if (isOpeningTool) {
             // Opening Preview Logic
             const SNAP_THRESHOLD = 500; // World units
             let closestWall: Wall | null = null;
@@ -1119,14 +1157,14 @@ const Canvas: React.FC<CanvasProps> = ({
             let distStart = 0;
 
             walls.forEach(w => {
-                const { point } = getClosestPointOnLine(worldPos, w.start, w.end);
+                const { point, t } = getClosestPointOnWall(worldPos, w);
                 const d = distance(worldPos, point);
 
                 if (d < minDesc && d < SNAP_THRESHOLD) {
                     minDesc = d;
                     closestWall = w;
                     projection = point;
-                    distStart = distance(w.start, point);
+                    distStart = t * getWallLength(w);
                 }
             });
 
@@ -1160,7 +1198,7 @@ const Canvas: React.FC<CanvasProps> = ({
                 let snappedWall: Wall | null = null;
 
                 walls.forEach(w => {
-                    const { point } = getClosestPointOnLine(worldPos, w.start, w.end);
+                    const { point } = getClosestPointOnWall(worldPos, w);
                     const d = distance(worldPos, point);
                     // Increased threshold for "Sticky" feel (25px)
                     if (d < 25 && d < closestEdgeDist) {
@@ -1341,7 +1379,7 @@ const Canvas: React.FC<CanvasProps> = ({
     const handleMouseUp = () => {
         setShowMagnifier(false);
         // Only stop drawing if NOT in wall/beam/slab mode (polyline/polygon)
-        if (tool !== 'wall' && tool !== 'beam' && tool !== 'slab') {
+        if (tool !== 'wall' && tool !== 'arc' && tool !== 'beam' && tool !== 'slab') {
             setIsDrawing(false);
         }
 
@@ -1419,31 +1457,68 @@ const Canvas: React.FC<CanvasProps> = ({
         setViewport({ x: newX, y: newY, scale: newScale });
     }
 
+    // Pad size (mm): as designed for the column's load, else the column's minimum
+    const getPadSize = (c: Column) => {
+        const design = results?.foundationDesigns?.find(f => f.type === 'pad' && f.memberId === c.id);
+        return design
+            ? { w: design.width, l: design.length }
+            : { w: c.padWidth || MIN_PAD_SIZE, l: c.padLength || MIN_PAD_SIZE };
+    };
+
+    // Safety overlay colour for a flagged member, when the overlay is on
+    const getSafetyColor = (record: Record<string, MemberSafety> | undefined, id: string): string | undefined => {
+        if (!settings.showSafetyWarnings) return undefined;
+        const status = record?.[id]?.status;
+        if (status === 'critical') return '#ef4444';
+        if (status === 'warning') return '#f59e0b';
+        return undefined;
+    };
+
+    // SVG path of a wall centreline, along the arc for curved walls
+    const getWallPath = (wall: Pick<Wall, 'start' | 'end' | 'bulge'>): string => {
+        const arc = getWallArc(wall);
+        if (!arc) return `M ${wall.start.x} ${wall.start.y} L ${wall.end.x} ${wall.end.y}`;
+        const largeArc = Math.abs(arc.sweep) > Math.PI ? 1 : 0;
+        const sweepFlag = arc.sweep > 0 ? 1 : 0;
+        return `M ${wall.start.x} ${wall.start.y} A ${arc.radius} ${arc.radius} 0 ${largeArc} ${sweepFlag} ${wall.end.x} ${wall.end.y}`;
+    };
+
     const updateSelectedColumnProperty = (id: string, updates: { width?: number, height?: number, rotation?: number, padWidth?: number, padLength?: number }) => {
         setColumns(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
     }
 
-    const updateSelectedWallProperty = (id: string, updates: { length?: number, angle?: number }) => {
+    const updateSelectedWallProperty = (id: string, updates: { length?: number, angle?: number, bulge?: number, height?: number, endHeight?: number, parapetHeight?: number }) => {
         const wall = walls.find(w => w.id === id);
-        if (wall && updates.length !== undefined && updates.angle !== undefined) {
+        if (!wall) return;
+
+        let end = wall.end;
+        if (updates.length !== undefined && updates.angle !== undefined) {
             const start = wall.start;
             const rads = updates.angle * (Math.PI / 180);
             const lengthPx = updates.length * SCALE;
 
-            const newEnd = {
+            end = roundPoint({
                 x: start.x + Math.cos(rads) * lengthPx,
                 y: start.y + Math.sin(rads) * lengthPx
-            };
-
-            setWalls(prev => prev.map(w => w.id === id ? { ...w, end: roundPoint(newEnd) } : w));
+            });
         }
+
+        const heights = updates.height !== undefined ? {
+            height: updates.height || wall.height,
+            endHeight: updates.endHeight,
+            parapetHeight: updates.parapetHeight
+        } : {};
+
+        const bulge = updates.bulge !== undefined ? { bulge: updates.bulge || undefined } : {};
+
+        setWalls(prev => prev.map(w => w.id === id ? { ...w, end, ...heights, ...bulge } : w));
     }
 
     // --- Keyboard Input (Dynamic Boxes) ---
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            const isPlacingOpening = (tool === 'door' || tool === 'window') && previewOpening;
-            const isDrawingWall = tool === 'wall' && isDrawing;
+            const isPlacingOpening = isOpeningTool && previewOpening;
+            const isDrawingWall = (tool === 'wall' || tool === 'arc') && isDrawing;
             // If selecting, and pressing numbers, maybe allow changing length? 
             // For now let's keep it simple to just drawing actions
 
@@ -1457,7 +1532,20 @@ const Canvas: React.FC<CanvasProps> = ({
                     const value = parseInt(inputValue);
                     if (isNaN(value)) return;
 
-                    if (isDrawingWall && points.length > 0) {
+                    if (isDrawingWall && tool === 'arc' && points.length === 2) {
+                        // Typed rise (mm) of the arc, bowing towards the cursor
+                        const [start, end] = points;
+                        const side = Math.sign(getArcBulge(start, end, cursor)) || 1;
+                        setWalls([...walls, {
+                            id: generateId(),
+                            start,
+                            end,
+                            thickness: toolSettings.wallType === 'partition' ? 150 : 225,
+                            height: settings.wallHeightDefault,
+                            bulge: side * value * SCALE
+                        }]);
+                        setPoints([end]);
+                    } else if (isDrawingWall && points.length > 0) {
                         const start = points[0];
                         const dx = cursor.x - start.x;
                         const dy = cursor.y - start.y;
@@ -1471,18 +1559,22 @@ const Canvas: React.FC<CanvasProps> = ({
 
                         const endRounded = roundPoint(end); // Round
 
-                        const newWall: Wall = {
-                            id: generateId(),
-                            start,
-                            end: endRounded,
-                            thickness: toolSettings.wallType === 'partition' ? 150 : 225,
-                            height: settings.wallHeightDefault,
-                        };
-                        setWalls([...walls, newWall]);
-                        setPoints([endRounded]);
+                        if (tool === 'arc') {
+                            setPoints([start, endRounded]); // Chord typed, the bulge comes next
+                        } else {
+                            const newWall: Wall = {
+                                id: generateId(),
+                                start,
+                                end: endRounded,
+                                thickness: toolSettings.wallType === 'partition' ? 150 : 225,
+                                height: settings.wallHeightDefault,
+                            };
+                            setWalls([...walls, newWall]);
+                            setPoints([endRounded]);
+                        }
                     } else if (isPlacingOpening && previewOpening) {
                         const { wall, distFromStart } = previewOpening;
-                        const wallLen = distance(wall.start, wall.end) / SCALE;
+                        const wallLen = getWallLength(wall) / SCALE;
                         const distFromEnd = wallLen - (distFromStart / SCALE);
 
                         let newDistFromStartPx = 0;
@@ -1495,16 +1587,11 @@ const Canvas: React.FC<CanvasProps> = ({
                         const wallLenPx = wallLen * SCALE;
                         newDistFromStartPx = Math.max(0, Math.min(wallLenPx, newDistFromStartPx));
 
-                        const width = tool === 'door' ? toolSettings.doorWidth : toolSettings.windowWidth;
-                        const height = tool === 'door' ? toolSettings.doorHeight : toolSettings.windowHeight;
-
                         setOpenings([...openings, {
                             id: generateId(),
                             wallId: wall.id,
-                            type: tool as 'door' | 'window',
                             distanceFromStart: newDistFromStartPx,
-                            width,
-                            height
+                            ...openingFromTool()
                         }]);
                     }
 
@@ -1597,22 +1684,21 @@ const Canvas: React.FC<CanvasProps> = ({
     }
 
     const renderOpening = (wall: Wall, opening: Opening, isSelected: boolean = false) => {
-        const wallLen = distance(wall.start, wall.end);
-        const dx = wall.end.x - wall.start.x;
-        const dy = wall.end.y - wall.start.y;
-        const angle = Math.atan2(dy, dx) * (180 / Math.PI);
+        // Centre and run of the wall at the opening (tangent to an arc wall)
+        const at = getWallPointAt(wall, opening.distanceFromStart);
+        const angle = at.angle * (180 / Math.PI);
 
         const widthPx = opening.width * SCALE;
         const heightPx = wall.thickness * SCALE;
 
-        const ux = dx / wallLen;
-        const uy = dy / wallLen;
-
-        const cx = wall.start.x + ux * opening.distanceFromStart;
-        const cy = wall.start.y + uy * opening.distanceFromStart;
+        const cx = at.point.x;
+        const cy = at.point.y;
 
         const fontSize = Math.max(10, settings.dimensionFontSize ? settings.dimensionFontSize - 2 : 10);
-        const label = `${Math.round(opening.width)} mm`;
+        const archRise = getArchRise(opening);
+        const spec = settings.openingSpecs?.find(s => s.id === opening.specId && s.kind === opening.type);
+        const size = opening.type === 'arch' ? `${Math.round(opening.width)} mm, rise ${Math.round(archRise)}` : `${Math.round(opening.width)} mm`;
+        const label = spec ? `${spec.mark} · ${size}` : size;
         const labelWidth = label.length * (fontSize * 0.6);
 
         // Correct Text Orientation
@@ -1622,7 +1708,11 @@ const Canvas: React.FC<CanvasProps> = ({
 
         const isDoor = opening.type === 'door';
         const doorColor = isSelected ? '#f97316' : '#a855f7';
+        const lintelColor = getSafetyColor(results?.safetyReport?.lintels, opening.id);
+        const bearingPx = (settings.lintelOverhang || 150) * SCALE;
         const windowColor = isSelected ? '#f97316' : '#3b82f6';
+        const archColor = isSelected ? '#f97316' : '#14b8a6';
+        const risePx = archRise * SCALE;
 
         return (
             <g key={opening.id} transform={`translate(${cx}, ${cy})`}>
@@ -1632,6 +1722,11 @@ const Canvas: React.FC<CanvasProps> = ({
                         <rect x={-widthPx / 2 - 4} y={-heightPx / 2 - 4} width={widthPx + 8} height={heightPx + 8} fill="none" stroke="#f97316" strokeWidth={2} strokeDasharray="4,2" />
                     )}
 
+                    {/* Flagged lintel, over the opening and its bearings */}
+                    {lintelColor && (
+                        <rect x={-widthPx / 2 - bearingPx} y={-heightPx / 2 - 3} width={widthPx + 2 * bearingPx} height={heightPx + 6} fill="none" stroke={lintelColor} strokeWidth={3} pointerEvents="none" />
+                    )}
+
                     {/* Opening Background - clear the wall */}
                     <rect
                         x={-widthPx / 2}
@@ -1679,6 +1774,26 @@ const Canvas: React.FC<CanvasProps> = ({
                             {/* Door Handle indicator */}
                             <circle cx={-widthPx / 2 + widthPx * 0.85} cy={heightPx / 2} r={2.5} fill={doorColor} />
                         </>
+                    ) : opening.type === 'arch' ? (
+                        /* ===== ARCH: open jambs, head shown dashed overhead ===== */
+                        <>
+                            <line x1={-widthPx / 2} y1={-heightPx / 2} x2={-widthPx / 2} y2={heightPx / 2} stroke={archColor} strokeWidth={3} />
+                            <line x1={widthPx / 2} y1={-heightPx / 2} x2={widthPx / 2} y2={heightPx / 2} stroke={archColor} strokeWidth={3} />
+                            <line x1={-widthPx / 2} y1={-heightPx / 2} x2={widthPx / 2} y2={-heightPx / 2} stroke={archColor} strokeWidth={1} strokeDasharray="4 3" />
+                            <line x1={-widthPx / 2} y1={heightPx / 2} x2={widthPx / 2} y2={heightPx / 2} stroke={archColor} strokeWidth={1} strokeDasharray="4 3" />
+
+                            {/* Arch profile folded down onto the plan */}
+                            {risePx > 0 && (
+                                <path
+                                    d={`M ${-widthPx / 2} ${heightPx / 2} Q 0 ${heightPx / 2 + 2 * risePx} ${widthPx / 2} ${heightPx / 2}`}
+                                    fill="none"
+                                    stroke={archColor}
+                                    strokeWidth={1.5}
+                                    strokeDasharray="6 4"
+                                    opacity={0.7}
+                                />
+                            )}
+                        </>
                     ) : (
                         /* ===== REALISTIC WINDOW ===== */
                         <>
@@ -1748,7 +1863,9 @@ const Canvas: React.FC<CanvasProps> = ({
 
         // Stack the main dimension further out if we assume openings might take the inner space
         // We add a bit of padding (e.g., 40px) to stack it outside the "split" dimensions
-        return renderArchitecturalDimension(wall.start, wall.end, undefined, baseOffset + 40, "#94a3b8", false, fontSize);
+        const arc = getWallArc(wall);
+        const text = arc ? `${Math.round(getWallLength(wall) / SCALE)} (R${Math.round(arc.radius / SCALE)})` : undefined;
+        return renderArchitecturalDimension(wall.start, wall.end, text, baseOffset + 40, "#94a3b8", false, fontSize);
     }
 
     const renderLabels = () => {
@@ -1783,23 +1900,21 @@ const Canvas: React.FC<CanvasProps> = ({
         });
     };
     const renderWallSplitDimensions = (wall: Wall, point: Point, distFromStart: number) => {
-        const wallLen = distance(wall.start, wall.end);
-        const dx = wall.end.x - wall.start.x;
-        const dy = wall.end.y - wall.start.y;
-        const length = Math.sqrt(dx * dx + dy * dy);
-        const ux = dx / length;
-        const uy = dy / length;
+        const wallLen = getWallLength(wall);
         const isStartCloser = distFromStart < (wallLen / 2);
-        const projX = wall.start.x + ux * distFromStart;
-        const projY = wall.start.y + uy * distFromStart;
-        const pProj = { x: projX, y: projY };
+        const pProj = getWallPointAt(wall, distFromStart).point;
+
+        // Arc walls: dimension the chords, labelled with the run along the curve
+        const isArc = !!getWallArc(wall);
+        const toStart = isArc ? Math.round(distFromStart / SCALE).toString() : undefined;
+        const toEnd = isArc ? Math.round((wallLen - distFromStart) / SCALE).toString() : undefined;
 
         const baseOffset = settings.dimensionOffset || 50;
 
         return (
             <g className="pointer-events-none">
-                {renderArchitecturalDimension(wall.start, pProj, undefined, baseOffset, "#64748b", isStartCloser)}
-                {renderArchitecturalDimension(pProj, wall.end, undefined, baseOffset, "#64748b", !isStartCloser)}
+                {renderArchitecturalDimension(wall.start, pProj, toStart, baseOffset, "#64748b", isStartCloser)}
+                {renderArchitecturalDimension(pProj, wall.end, toEnd, baseOffset, "#64748b", !isStartCloser)}
             </g>
         )
     }
@@ -1883,6 +1998,9 @@ const Canvas: React.FC<CanvasProps> = ({
         if (tool === 'wall') {
             guideText = "Click and drag (or click points) to create walls.";
             tipText = "Tip: Hold Shift to draw straight lines.";
+        } else if (tool === 'arc') {
+            guideText = "Click the start and end of the wall, then the point it curves through.";
+            tipText = "Tip: Type a number for the rise in mm.";
         } else if (tool === 'beam') {
             guideText = "Click start and end points to create beams.";
             tipText = "Tip: Beams snap to grid and columns.";
@@ -1926,7 +2044,7 @@ const Canvas: React.FC<CanvasProps> = ({
             {inputVisible && (
                 <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-slate-800 p-2 rounded border border-brand-500 shadow-xl text-white z-50 flex items-center gap-2">
                     <Keyboard size={16} className="text-brand-500" />
-                    <span className="text-sm text-slate-400">{(tool === 'door' || tool === 'window') ? 'Offset:' : 'Length:'}</span>
+                    <span className="text-sm text-slate-400">{isOpeningTool ? 'Offset:' : 'Length:'}</span>
                     <span className="font-mono font-bold text-lg">{inputValue}</span>
                     <span className="text-xs text-slate-500">mm</span>
                 </div>
@@ -1937,12 +2055,15 @@ const Canvas: React.FC<CanvasProps> = ({
                     selectedId={selectedId}
                     wall={walls.find(w => w.id === selectedId)}
                     column={columns.find(c => c.id === selectedId)}
+                    opening={openings.find(o => o.id === selectedId)}
+                    columnLoad={results?.loadTakedown?.columns.find(c => c.columnId === selectedId)}
                     settings={settings}
                     onUpdateWall={updateSelectedWallProperty}
                     onUpdateColumn={updateSelectedColumnProperty}
+                    onUpdateOpening={(id, updates) => setOpenings(prev => prev.map(o => o.id === id ? { ...o, ...updates } : o))}
                     onDelete={(id) => {
                         setWalls(prev => prev.filter(w => w.id !== id));
-                        setOpenings(prev => prev.filter(o => o.wallId !== id));
+                        setOpenings(prev => prev.filter(o => o.wallId !== id && o.id !== id));
                         setColumns(prev => prev.filter(c => c.id !== id));
                         setLabels(prev => prev.filter(l => l.id !== id));
                         setSelectedId(null);
@@ -1976,6 +2097,60 @@ const Canvas: React.FC<CanvasProps> = ({
                         />
                     )}
 
+                    {/* Ghost of the level below (reference only) */}
+                    {ghostLevel && (
+                        <g opacity={0.25} className="pointer-events-none">
+                            {ghostLevel.walls.map(wall => (
+                                <path
+                                    key={`ghost - ${wall.id} `}
+                                    d={getWallPath(wall)}
+                                    fill="none"
+                                    stroke="#94a3b8"
+                                    strokeWidth={wall.thickness * SCALE}
+                                    strokeLinecap="square"
+                                />
+                            ))}
+                            {ghostLevel.columns.map(col => (
+                                <rect
+                                    key={`ghost - ${col.id} `}
+                                    x={-(col.width * SCALE) / 2}
+                                    y={-(col.height * SCALE) / 2}
+                                    width={col.width * SCALE}
+                                    height={col.height * SCALE}
+                                    transform={`translate(${col.x}, ${col.y}) rotate(${col.rotation || 0})`}
+                                    fill="none"
+                                    stroke="#3b82f6"
+                                    strokeWidth={2}
+                                    strokeDasharray="4,3"
+                                />
+                            ))}
+                        </g>
+                    )}
+
+                    {/* Roof Overlay (eaves, ridges, hips and valleys) */}
+                    {roofGeometry && (
+                        <g pointerEvents="none" opacity={0.6}>
+                            <path
+                                d={roofGeometry.eaves.map(([x, y], i) => `${i === 0 ? 'M' : 'L'} ${x * SCALE} ${y * SCALE}`).join(' ') + ' Z'}
+                                fill="none"
+                                stroke="#f97316"
+                                strokeWidth={1.5}
+                                strokeDasharray="8,4"
+                            />
+                            {[...roofGeometry.ridges, ...roofGeometry.hips, ...roofGeometry.valleys].map(({ points: [a, b] }, i) => (
+                                <line
+                                    key={`roof - ${i}`}
+                                    x1={a[0] * SCALE}
+                                    y1={a[1] * SCALE}
+                                    x2={b[0] * SCALE}
+                                    y2={b[1] * SCALE}
+                                    stroke="#f97316"
+                                    strokeWidth={1.5}
+                                />
+                            ))}
+                        </g>
+                    )}
+
                     {/* Layer 0: Slabs (Bottom) */}
                     {slabs.map(slab => {
                         const isSelected = slab.id === selectedId;
@@ -1994,15 +2169,19 @@ const Canvas: React.FC<CanvasProps> = ({
                         const long = Math.max(width, height);
                         const short = Math.min(width, height);
                         const ratio = short > 0 ? long / short : 1;
-                        const type = ratio >= 2.0 ? 'One-Way' : 'Two-Way';
+                        const design = results?.slabDesigns?.find(d => d.slabId === slab.id);
+                        const safetyColor = getSafetyColor(results?.safetyReport?.slabs, slab.id);
+                        const type = design
+                            ? (design.type === 'one-way' ? 'One-Way' : 'Two-Way')
+                            : (ratio >= 2.0 ? 'One-Way' : 'Two-Way');
 
                         return (
                             <g key={`slab - ${slab.id} `} onMouseDown={(e) => handleMouseDown(e, 'slab', slab.id)}>
                                 <path
                                     d={pathData}
                                     fill="rgba(203, 213, 225, 0.5)" // Slate-300 with opacity
-                                    stroke={isSelected ? "#f97316" : "#94a3b8"}
-                                    strokeWidth={isSelected ? 4 : 2}
+                                    stroke={isSelected ? "#f97316" : safetyColor || "#94a3b8"}
+                                    strokeWidth={isSelected || safetyColor ? 4 : 2}
                                     className="cursor-pointer hover:fill-slate-300 transition-colors"
                                 />
                                 {/* Slab Label */}
@@ -2038,15 +2217,19 @@ const Canvas: React.FC<CanvasProps> = ({
 
                     {/* Layer 0.2: Tributary Areas (Overlay) */}
                     {settings.showTributaryAreas && (() => {
-                        const areas = calculateTributaryAreas(beams, slabs);
+                        const areas = calculateTributaryAreas(beams, slabs, walls);
                         return areas.map((area, idx) => (
-                            <path
-                                key={`trib - ${idx} `}
-                                d={area.polygon.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y} `).join(' ') + ' Z'}
-                                fill={area.color}
-                                stroke="none"
-                                className="pointer-events-none"
-                            />
+                            <g key={`trib - ${idx} `} className="pointer-events-none">
+                                <path
+                                    d={area.polygon.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y} `).join(' ') + ' Z'}
+                                    fill={area.color}
+                                    stroke="none"
+                                />
+                                {/* Unsupported (cantilever) edge */}
+                                {area.cantilever && (
+                                    <line x1={area.edge[0].x} y1={area.edge[0].y} x2={area.edge[1].x} y2={area.edge[1].y} stroke="#ef4444" strokeWidth={2} strokeDasharray="6 4" />
+                                )}
+                            </g>
                         ));
                     })()}
 
@@ -2056,14 +2239,20 @@ const Canvas: React.FC<CanvasProps> = ({
                     {/* Layer 1: Wall Lines (Bottom) */}
                     {walls.map(wall => {
                         const isSelected = wall.id === selectedId;
+                        const safetyColor = getSafetyColor(results?.safetyReport?.walls, wall.id);
+                        const path = getWallPath(wall);
                         return (
                             <g key={`wall - ${wall.id} `}>
+                                {/* Safety highlight */}
+                                {safetyColor && !isSelected && (
+                                    <path d={path} fill="none" stroke={safetyColor} strokeWidth={(wall.thickness * SCALE) + 6} strokeOpacity={0.6} strokeLinecap="square" />
+                                )}
                                 {/* Outer glow for selection */}
                                 {isSelected && (
-                                    <line x1={wall.start.x} y1={wall.start.y} x2={wall.end.x} y2={wall.end.y} stroke="#f97316" strokeWidth={(wall.thickness * SCALE) + 4} strokeOpacity={0.5} strokeLinecap="square" />
+                                    <path d={path} fill="none" stroke="#f97316" strokeWidth={(wall.thickness * SCALE) + 4} strokeOpacity={0.5} strokeLinecap="square" />
                                 )}
-                                <line x1={wall.start.x} y1={wall.start.y} x2={wall.end.x} y2={wall.end.y} stroke="#94a3b8" strokeWidth={wall.thickness * SCALE} strokeLinecap="square" />
-                                <line x1={wall.start.x} y1={wall.start.y} x2={wall.end.x} y2={wall.end.y} stroke="#475569" strokeWidth={(wall.thickness * SCALE) - 2} strokeLinecap="square" />
+                                <path d={path} fill="none" stroke="#94a3b8" strokeWidth={wall.thickness * SCALE} strokeLinecap="square" />
+                                <path d={path} fill="none" stroke="#475569" strokeWidth={(wall.thickness * SCALE) - 2} strokeLinecap="square" />
                             </g>
                         )
                     })}
@@ -2085,8 +2274,13 @@ const Canvas: React.FC<CanvasProps> = ({
                     {/* Layer 4: Beams (Top of Walls) */}
                     {beams.map(beam => {
                         const isSelected = beam.id === selectedId;
+                        const safetyColor = getSafetyColor(results?.safetyReport?.beams, beam.id);
                         return (
                             <g key={`beam - ${beam.id} `} onMouseDown={(e) => handleMouseDown(e, 'beam', beam.id)}>
+                                {/* Safety highlight */}
+                                {safetyColor && !isSelected && (
+                                    <line x1={beam.start.x} y1={beam.start.y} x2={beam.end.x} y2={beam.end.y} stroke={safetyColor} strokeWidth={(beam.width * SCALE) + 6} strokeOpacity={0.6} strokeLinecap="square" />
+                                )}
                                 {/* Selection Glow */}
                                 {isSelected && (
                                     <line x1={beam.start.x} y1={beam.start.y} x2={beam.end.x} y2={beam.end.y} stroke="#f97316" strokeWidth={(beam.width * SCALE) + 4} strokeOpacity={0.5} strokeLinecap="square" />
@@ -2117,6 +2311,25 @@ const Canvas: React.FC<CanvasProps> = ({
                         );
                     })}
 
+                    {/* Lateral Stability: mass centre (CM) against rigidity centre (CR) */}
+                    {settings.showSafetyWarnings && (() => {
+                        const lateral = results?.safetyReport?.lateral.find(l => !l.levelId || l.levelId === levelId);
+                        if (!lateral) return null;
+                        const { massCentre: cm, rigidityCentre: cr } = lateral;
+                        const color = lateral.status === 'critical' ? '#ef4444' : lateral.status === 'warning' ? '#f59e0b' : '#22c55e';
+                        return (
+                            <g className="pointer-events-none">
+                                <line x1={cm.x} y1={cm.y} x2={cr.x} y2={cr.y} stroke={color} strokeWidth={2} strokeDasharray="6 4" />
+                                <circle cx={cm.x} cy={cm.y} r={6} fill={color} stroke="#0f172a" strokeWidth={1.5} />
+                                <text x={cm.x + 9} y={cm.y - 9} fill={color} fontSize={12} fontWeight="bold">CM</text>
+                                <rect x={cr.x - 6} y={cr.y - 6} width={12} height={12} fill="none" stroke={color} strokeWidth={2} />
+                                <line x1={cr.x - 9} y1={cr.y} x2={cr.x + 9} y2={cr.y} stroke={color} strokeWidth={1.5} />
+                                <line x1={cr.x} y1={cr.y - 9} x2={cr.x} y2={cr.y + 9} stroke={color} strokeWidth={1.5} />
+                                <text x={cr.x + 9} y={cr.y + 18} fill={color} fontSize={12} fontWeight="bold">CR</text>
+                            </g>
+                        );
+                    })()}
+
                     {renderLabels()}
 
                     {renderLabels()}
@@ -2125,19 +2338,16 @@ const Canvas: React.FC<CanvasProps> = ({
                     {(() => {
                         // 2. Classify Footings
                         const uniquePads = Array.from(new Set(columns.map(c => {
-                            const w = c.padWidth || settings.padWidth || 1000;
-                            const l = c.padLength || settings.padLength || 1000;
+                            const { w, l } = getPadSize(c);
                             return `${w}x${l}`;
                         }))).sort();
                         const getPadType = (c: Column) => {
-                            const w = c.padWidth || settings.padWidth || 1000;
-                            const l = c.padLength || settings.padLength || 1000;
+                            const { w, l } = getPadSize(c);
                             return `F${uniquePads.indexOf(`${w}x${l}`) + 1} `;
                         };
 
                         return columns.map(col => {
-                            const pW = col.padWidth || settings.padWidth || 1000;
-                            const pL = col.padLength || settings.padLength || 1000;
+                            const { w: pW, l: pL } = getPadSize(col);
                             const padLabel = getPadType(col);
 
                             return (
@@ -2181,9 +2391,10 @@ const Canvas: React.FC<CanvasProps> = ({
                             const isSelected = selectedId === col.id;
                             const typeLabel = getType(col);
 
-                            // Simple column styling - no safety warnings
-                            const strokeColor = isSelected ? '#2563eb' : '#3b82f6'; // Blue
-                            const fillColor = isSelected ? 'rgba(37, 99, 235, 0.4)' : 'rgba(59, 130, 246, 0.2)';
+                            // Blue, or the safety colour when flagged
+                            const safetyColor = getSafetyColor(results?.safetyReport?.columns, col.id);
+                            const strokeColor = isSelected ? '#2563eb' : safetyColor || '#3b82f6';
+                            const fillColor = isSelected ? 'rgba(37, 99, 235, 0.4)' : safetyColor ? `${safetyColor}55` : 'rgba(59, 130, 246, 0.2)';
 
                             return (
                                 <g
@@ -2195,10 +2406,10 @@ const Canvas: React.FC<CanvasProps> = ({
                                     {/* Pad Footing (Dashed) - Only visible when selected */}
                                     {isSelected && (
                                         <rect
-                                            x={-(col.padWidth || settings.padWidth || 1000) * SCALE / 2}
-                                            y={-(col.padLength || settings.padLength || 1000) * SCALE / 2}
-                                            width={(col.padWidth || settings.padWidth || 1000) * SCALE}
-                                            height={(col.padLength || settings.padLength || 1000) * SCALE}
+                                            x={-getPadSize(col).w * SCALE / 2}
+                                            y={-getPadSize(col).l * SCALE / 2}
+                                            width={getPadSize(col).w * SCALE}
+                                            height={getPadSize(col).l * SCALE}
                                             fill="none"
                                             stroke="#94a3b8"
                                             strokeWidth={2}
@@ -2384,10 +2595,8 @@ const Canvas: React.FC<CanvasProps> = ({
                             {renderOpening(previewOpening.wall, {
                                 id: 'preview',
                                 wallId: previewOpening.wall.id,
-                                type: tool as 'door' | 'window',
                                 distanceFromStart: previewOpening.distFromStart,
-                                width: tool === 'door' ? toolSettings.doorWidth : toolSettings.windowWidth,
-                                height: tool === 'door' ? toolSettings.doorHeight : toolSettings.windowHeight
+                                ...openingFromTool()
                             })}
                         </g>
                     )}
@@ -2461,6 +2670,26 @@ const Canvas: React.FC<CanvasProps> = ({
                                     </>
                                 );
                             })()}
+                            {tool === 'arc' && (() => {
+                                const thickness = toolSettings.wallType === 'partition' ? 150 : 225;
+                                const preview = points.length === 2
+                                    ? { start: points[0], end: points[1], bulge: getArcBulge(points[0], points[1], cursor) }
+                                    : { start: points[0], end: cursor };
+                                const arc = getWallArc(preview);
+                                const lengthM = (getWallLength(preview) / SCALE / 1000).toFixed(2);
+                                return (
+                                    <>
+                                        <path d={getWallPath(preview)} fill="none" stroke="#22c55e" strokeWidth={thickness * SCALE} opacity={0.7} />
+                                        <path d={getWallPath(preview)} fill="none" stroke="#22c55e" strokeWidth={2} strokeDasharray="5,5" />
+                                        <g transform={`translate(${cursor.x + 25}, ${cursor.y - 35})`} opacity={0.9} pointerEvents="none">
+                                            <rect x={0} y={0} width={75} height={45} rx={6} fill="rgba(15, 23, 42, 0.85)" stroke="#22c55e" strokeWidth={1.5} />
+                                            <text x={37} y={20} textAnchor="middle" fill="#22c55e" fontSize={14} fontWeight="bold" fontFamily="monospace">{lengthM}m</text>
+                                            <text x={37} y={35} textAnchor="middle" fill="#94a3b8" fontSize={8}>{arc ? `R ${(arc.radius / SCALE / 1000).toFixed(2)}m` : 'Chord'} {toolSettings.wallType === 'partition' ? '6"' : '9"'}</text>
+                                        </g>
+                                        {points.map((p, i) => <circle key={i} cx={p.x} cy={p.y} r={5} fill="#22c55e" stroke="white" strokeWidth={1.5} />)}
+                                    </>
+                                );
+                            })()}
                             {tool === 'beam' && (
                                 <>
                                     <line x1={points[0].x} y1={points[0].y} x2={cursor.x} y2={cursor.y} stroke="#3b82f6" strokeWidth={300 * SCALE} opacity={0.6} />
@@ -2551,7 +2780,7 @@ const Canvas: React.FC<CanvasProps> = ({
             />
 
             <Magnifier
-                visible={showMagnifier && (tool === 'wall' || tool === 'beam' || tool === 'column' || tool === 'select')}
+                visible={showMagnifier && (tool === 'wall' || tool === 'arc' || tool === 'beam' || tool === 'column' || tool === 'select')}
                 cursor={cursor} // Snapped world cursor
                 screenPos={screenCursor}
                 walls={walls}
@@ -1,15 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { Wall, Column, ProjectSettings } from '../types';
-import { MousePointer2, Save, Trash2, X } from 'lucide-react';
+import { Wall, Column, Opening, ProjectSettings, ColumnLoad } from '../types';
+import { MousePointer2, Save, Trash2, X, ArrowDown } from 'lucide-react';
 import { distance, getAngle } from '../utils/geometry';
+import { getSillHeight, getArchRise } from '../utils/openingCsg';
 
 interface PropertiesPanelProps {
     selectedId: string;
     wall?: Wall;
     column?: Column;
+    opening?: Opening;
+    columnLoad?: ColumnLoad; // Traced axial load of the selected column
     settings: ProjectSettings;
-    onUpdateWall: (id: string, updates: { length: number, angle: number, dimensionOffset?: number, dimensionFontSize?: number }) => void;
-    onUpdateColumn: (id: string, updates: { width: number, height: number, rotation: number, padWidth: number, padLength: number }) => void;
+    onUpdateWall: (id: string, updates: { length: number, angle: number, bulge: number, height: number, endHeight?: number, parapetHeight?: number, dimensionOffset?: number, dimensionFontSize?: number }) => void;
+    onUpdateColumn: (id: string, updates: { width: number, height: number, rotation: number, padWidth?: number, padLength?: number }) => void;
+    onUpdateOpening: (id: string, updates: Partial<Opening>) => void;
     onDelete: (id: string) => void;
     onClose: () => void;
 }
@@ -20,15 +24,22 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     selectedId,
     wall,
     column,
+    opening,
+    columnLoad,
     settings,
     onUpdateWall,
     onUpdateColumn,
+    onUpdateOpening,
     onDelete,
     onClose
 }) => {
     // Local State for Wall
     const [wallLength, setWallLength] = useState(0);
     const [wallAngle, setWallAngle] = useState(0);
+    const [wallRise, setWallRise] = useState(0); // Arc walls, mm off the chord
+    const [startHeight, setStartHeight] = useState(0);
+    const [endHeight, setEndHeight] = useState(0);
+    const [parapetHeight, setParapetHeight] = useState(0);
     const [dimOffset, setDimOffset] = useState<number | undefined>(undefined);
     const [dimFontSize, setDimFontSize] = useState<number | undefined>(undefined);
 
@@ -39,47 +50,80 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     const [padWidth, setPadWidth] = useState(0);
     const [padLength, setPadLength] = useState(0);
 
+    // Local State for Opening (arches: height is floor to springing)
+    const [openWidth, setOpenWidth] = useState(0);
+    const [openHeight, setOpenHeight] = useState(0);
+    const [openSill, setOpenSill] = useState(0);
+    const [openRise, setOpenRise] = useState(0);
+    const [openSpecId, setOpenSpecId] = useState('');
+
     // Sync state when selection changes
     useEffect(() => {
         console.log('PropertiesPanel: Selection changed', { selectedId, wall, column, settings });
         if (wall) {
             setWallLength(Math.round(distance(wall.start, wall.end) / SCALE));
             setWallAngle(Math.round(getAngle(wall.start, wall.end)));
+            setWallRise(Math.round((wall.bulge || 0) / SCALE));
+            setStartHeight(wall.height);
+            setEndHeight(wall.endHeight ?? wall.height);
+            setParapetHeight(wall.parapetHeight || 0);
             setDimOffset(wall.dimensionOffset);
             setDimFontSize(wall.dimensionFontSize);
         }
+        if (opening) {
+            const sill = getSillHeight(opening, settings);
+            const rise = getArchRise(opening);
+            setOpenWidth(opening.width);
+            setOpenHeight(opening.type === 'arch' ? sill + opening.height - rise : opening.height);
+            setOpenSill(sill);
+            setOpenRise(rise);
+            setOpenSpecId(opening.specId || '');
+        }
         if (column) {
             setColWidth(column.width);
             setColHeight(column.height);
             setColRotation(column.rotation || 0);
-            // Safety check for settings
-            const sPadW = settings?.padWidth || 1000;
-            const sPadL = settings?.padLength || 1000;
-            setPadWidth(column.padWidth || sPadW);
-            setPadLength(column.padLength || sPadL);
+            // Minimum pad size, if any; the pad is otherwise designed from the load
+            setPadWidth(column.padWidth || 0);
+            setPadLength(column.padLength || 0);
         }
-    }, [selectedId, wall, column, settings]);
+    }, [selectedId, wall, column, opening, settings]);
 
     const handleSave = () => {
         if (wall) {
             onUpdateWall(selectedId, {
                 length: wallLength,
                 angle: wallAngle,
+                bulge: wallRise * SCALE,
+                height: startHeight,
+                // Only a differing end height makes a sloping (gable) wall
+                endHeight: endHeight !== startHeight ? endHeight : undefined,
+                parapetHeight: parapetHeight || undefined,
                 dimensionOffset: dimOffset,
                 dimensionFontSize: dimFontSize
             });
+        } else if (opening) {
+            const isArch = opening.type === 'arch';
+            onUpdateOpening(selectedId, {
+                width: openWidth,
+                height: isArch ? openHeight - openSill + openRise : openHeight,
+                // Keep following the project's default sill unless it was changed
+                sillHeight: openSill !== getSillHeight(opening, settings) ? openSill : opening.sillHeight,
+                archRise: isArch ? openRise : undefined,
+                specId: openSpecId || undefined
+            });
         } else if (column) {
             onUpdateColumn(selectedId, {
                 width: colWidth,
                 height: colHeight,
                 rotation: colRotation,
-                padWidth: padWidth,
-                padLength: padLength
+                padWidth: padWidth || undefined,
+                padLength: padLength || undefined
             });
         }
     };
 
-    if (!wall && !column) return null;
+    if (!wall && !column && !opening) return null;
 
     return (
         <div
@@ -102,7 +146,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 <div className="flex flex-col gap-2">
                     <div className="flex gap-2">
                         <div className="grow">
-                            <label className="text-[10px] text-slate-500 block mb-1">Len(mm)</label>
+                            <label className="text-[10px] text-slate-500 block mb-1">{wallRise ? 'Chord(mm)' : 'Len(mm)'}</label>
                             <input
                                 className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
                                 type="number"
@@ -119,6 +163,45 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                                 onChange={(e) => setWallAngle(parseInt(e.target.value) || 0)}
                             />
                         </div>
+                        <div className="grow">
+                            <label className="text-[10px] text-slate-500 block mb-1" title="Arc rise off the chord; 0 for a straight wall">Rise(mm)</label>
+                            <input
+                                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
+                                type="number"
+                                value={wallRise}
+                                onChange={(e) => setWallRise(parseInt(e.target.value) || 0)}
+                            />
+                        </div>
+                    </div>
+                    {/* Height Controls */}
+                    <div className="flex gap-2 pt-2 border-t border-slate-700">
+                        <div className="grow">
+                            <label className="text-[10px] text-slate-500 block mb-1">H Start</label>
+                            <input
+                                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
+                                type="number"
+                                value={startHeight}
+                                onChange={(e) => setStartHeight(parseInt(e.target.value) || 0)}
+                            />
+                        </div>
+                        <div className="grow">
+                            <label className="text-[10px] text-slate-500 block mb-1">H End</label>
+                            <input
+                                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
+                                type="number"
+                                value={endHeight}
+                                onChange={(e) => setEndHeight(parseInt(e.target.value) || 0)}
+                            />
+                        </div>
+                        <div className="grow">
+                            <label className="text-[10px] text-slate-500 block mb-1">Parapet</label>
+                            <input
+                                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
+                                type="number"
+                                value={parapetHeight}
+                                onChange={(e) => setParapetHeight(parseInt(e.target.value) || 0)}
+                            />
+                        </div>
                     </div>
                     {/* Dimension Controls */}
                     <div className="flex gap-2 pt-2 border-t border-slate-700">
@@ -146,6 +229,66 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 </div>
             )}
 
+            {/* Opening Inputs */}
+            {opening && (
+                <div className="flex flex-col gap-2">
+                    <div className="flex gap-2">
+                        <div className="grow">
+                            <label className="text-[10px] text-slate-500 block mb-1">W(mm)</label>
+                            <input
+                                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
+                                type="number"
+                                value={openWidth}
+                                onChange={(e) => setOpenWidth(parseInt(e.target.value) || 0)}
+                            />
+                        </div>
+                        <div className="grow">
+                            <label className="text-[10px] text-slate-500 block mb-1">{opening.type === 'arch' ? 'Spring(mm)' : 'H(mm)'}</label>
+                            <input
+                                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
+                                type="number"
+                                value={openHeight}
+                                onChange={(e) => setOpenHeight(parseInt(e.target.value) || 0)}
+                            />
+                        </div>
+                        {opening.type === 'arch' ? (
+                            <div className="grow">
+                                <label className="text-[10px] text-slate-500 block mb-1" title="Crown above the springing line; half the width for a semicircle">Rise(mm)</label>
+                                <input
+                                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
+                                    type="number"
+                                    value={openRise}
+                                    onChange={(e) => setOpenRise(parseInt(e.target.value) || 0)}
+                                />
+                            </div>
+                        ) : (
+                            <div className="grow">
+                                <label className="text-[10px] text-slate-500 block mb-1">Sill(mm)</label>
+                                <input
+                                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
+                                    type="number"
+                                    value={openSill}
+                                    onChange={(e) => setOpenSill(parseInt(e.target.value) || 0)}
+                                />
+                            </div>
+                        )}
+                    </div>
+                    <div>
+                        <label className="text-[10px] text-slate-500 block mb-1">Type</label>
+                        <select
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
+                            value={openSpecId}
+                            onChange={(e) => setOpenSpecId(e.target.value)}
+                        >
+                            <option value="">Untyped</option>
+                            {(settings.openingSpecs || []).filter(s => s.kind === opening.type).map(s => (
+                                <option key={s.id} value={s.id}>{s.mark}{s.description ? ` · ${s.description}` : ''}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+            )}
+
             {/* Column Inputs */}
             {column && (
                 <div className="flex flex-col gap-2">
@@ -180,24 +323,44 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                     </div>
                     <div className="flex gap-2 pt-2 border-t border-slate-700">
                         <div className="grow">
-                            <label className="text-[10px] text-slate-500 block mb-1">Pad W</label>
+                            <label className="text-[10px] text-slate-500 block mb-1">Min Pad W</label>
                             <input
                                 className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
                                 type="number"
-                                value={padWidth}
+                                value={padWidth || ''}
+                                placeholder="Designed"
                                 onChange={(e) => setPadWidth(parseInt(e.target.value) || 0)}
                             />
                         </div>
                         <div className="grow">
-                            <label className="text-[10px] text-slate-500 block mb-1">Pad L</label>
+                            <label className="text-[10px] text-slate-500 block mb-1">Min Pad L</label>
                             <input
                                 className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
                                 type="number"
-                                value={padLength}
+                                value={padLength || ''}
+                                placeholder="Designed"
                                 onChange={(e) => setPadLength(parseInt(e.target.value) || 0)}
                             />
                         </div>
                     </div>
+                    {/* Load takedown breakdown */}
+                    {columnLoad && (
+                        <div className="flex flex-col gap-1 pt-2 border-t border-slate-700">
+                            <div className="text-[10px] text-slate-500 uppercase font-bold flex items-center gap-1">
+                                <ArrowDown size={10} /> <span>Axial Load (ULS)</span>
+                            </div>
+                            {columnLoad.contributions.map(c => (
+                                <div key={`${c.type}-${c.source}`} className="flex justify-between text-[11px]">
+                                    <span className="text-slate-400 truncate">{c.source}<span className="text-slate-600"> · {c.type}</span></span>
+                                    <span className="font-mono text-slate-300">{c.load.toFixed(1)} kN</span>
+                                </div>
+                            ))}
+                            <div className="flex justify-between text-xs font-bold border-t border-slate-700/50 pt-1">
+                                <span className="text-slate-400">Total</span>
+                                <span className="font-mono text-brand-400">{columnLoad.axialLoad.toFixed(1)} kN</span>
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
 
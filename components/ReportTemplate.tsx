@@ -2,6 +2,10 @@ import React, { forwardRef } from 'react';
 import { ProjectMeta, CalculationResult, ProjectSettings, Column, ToolSettings, Wall, Opening, Point } from '../types';
 import { distance, getLineIntersection } from '../utils/geometry';
 import StructuralDetail from './StructuralDetail';
+import { summariseBarSchedule, stockBarLength } from '../utils/barSchedule';
+import { summariseOpeningSchedule, frameLengthByMaterial } from '../utils/openingSchedule';
+import { resolvePaintRules, summarisePaintSchedule, paintBucketsByFinish } from '../utils/paintSchedule';
+import { planAllCutting, describePattern } from '../utils/cuttingStock';
 import { Database, Ruler, Clock, Hammer } from 'lucide-react';
 
 interface ReportTemplateProps {
@@ -16,6 +20,19 @@ interface ReportTemplateProps {
 
 const ReportTemplate = forwardRef<HTMLDivElement, ReportTemplateProps>(({ meta, results, settings, toolSettings, columns, walls, openings }, ref) => {
     const date = new Date().toLocaleDateString();
+    const barTotals = summariseBarSchedule(results.barSchedule, settings);
+    const stockLength = stockBarLength(settings);
+    const cuttingPlans = planAllCutting(results.barSchedule, stockLength);
+    const openingSchedule = summariseOpeningSchedule(results.openingSchedule || []);
+    const frameLengths = frameLengthByMaterial(openingSchedule);
+    const glazingArea = openingSchedule.reduce((sum, e) => sum + e.glazingArea, 0);
+    const hardwareSets = openingSchedule.reduce((sum, e) => sum + e.hardwareSets, 0);
+    const burglaryBarArea = openingSchedule.reduce((sum, e) => sum + e.burglaryBarArea, 0);
+    const floorFinishes = results.floorFinishes;
+    const padFor = (column?: Column) => results.foundationDesigns?.find(f => f.type === 'pad' && f.memberId === column?.id);
+    const paintRules = resolvePaintRules(settings);
+    const paintSchedule = summarisePaintSchedule(results.paintSchedule || [], settings);
+    const paintBuckets = paintBucketsByFinish(paintSchedule, settings);
 
     return (
         <div ref={ref} className="bg-white text-black p-8 w-[210mm] min-h-[297mm] mx-auto shadow-none print:shadow-none" style={{ transform: 'scale(1)', transformOrigin: 'top left' }}>
@@ -56,7 +73,7 @@ const ReportTemplate = forwardRef<HTMLDivElement, ReportTemplateProps>(({ meta,
             <div className="mb-8">
                 <h2 className="text-xl font-bold text-gray-800 mb-4 border-l-4 border-indigo-500 pl-3">Typical Structural Details</h2>
                 <div className="border border-gray-200 rounded-lg overflow-hidden">
-                    <StructuralDetail settings={settings} toolSettings={toolSettings} column={columns[0]} mode="full" />
+                    <StructuralDetail settings={settings} toolSettings={toolSettings} column={columns[0]} pad={padFor(columns[0])} mode="full" />
                 </div>
             </div>
 
@@ -99,14 +116,14 @@ const ReportTemplate = forwardRef<HTMLDivElement, ReportTemplateProps>(({ meta,
                                 return (
                                     <div key={section.id} className="border border-gray-200 rounded-lg overflow-hidden p-4 bg-gray-50 break-inside-avoid">
                                         <h3 className="font-bold text-lg mb-2">Section {section.label} (Column Detail)</h3>
-                                        <StructuralDetail settings={settings} toolSettings={toolSettings} column={intersectedColumn} mode="column" />
+                                        <StructuralDetail settings={settings} toolSettings={toolSettings} column={intersectedColumn} pad={padFor(intersectedColumn)} mode="column" />
                                     </div>
                                 );
                             } else if (intersectedWall) {
                                 return (
                                     <div key={section.id} className="border border-gray-200 rounded-lg overflow-hidden p-4 bg-gray-50 break-inside-avoid">
                                         <h3 className="font-bold text-lg mb-2">Section {section.label} (Foundation Detail)</h3>
-                                        <StructuralDetail settings={settings} toolSettings={toolSettings} mode="foundation" />
+                                        <StructuralDetail settings={settings} toolSettings={toolSettings} pad={results.foundationDesigns?.find(f => f.type === 'pad')} mode="foundation" />
                                     </div>
                                 );
                             }
@@ -137,10 +154,16 @@ const ReportTemplate = forwardRef<HTMLDivElement, ReportTemplateProps>(({ meta,
                         </tr>
                         <tr>
                             <td className="p-3 font-medium">Cement</td>
-                            <td className="p-3 text-gray-600">Total for Mortar, Concrete, & Plaster</td>
+                            <td className="p-3 text-gray-600">For Block Laying Mortar</td>
                             <td className="p-3 text-right font-mono">{Math.ceil(results.cementBags)}</td>
                             <td className="p-3 text-gray-500">Bags</td>
                         </tr>
+                        <tr>
+                            <td className="p-3 font-medium">Cement (Concrete)</td>
+                            <td className="p-3 text-gray-600">{settings.concreteMixMethod === 'design' ? 'Grade-based mix design per element' : `Nominal mix ${settings.floorMixRatio}`}</td>
+                            <td className="p-3 text-right font-mono">{Math.ceil(results.concreteMaterials.reduce((sum, m) => sum + m.cementBags, 0))}</td>
+                            <td className="p-3 text-gray-500">Bags</td>
+                        </tr>
                         <tr>
                             <td className="p-3 font-medium">Sharp Sand</td>
                             <td className="p-3 text-gray-600">For Concrete & Mortar</td>
@@ -148,27 +171,367 @@ const ReportTemplate = forwardRef<HTMLDivElement, ReportTemplateProps>(({ meta,
                             <td className="p-3 text-gray-500">Tons</td>
                         </tr>
                         <tr>
-                            <td className="p-3 font-medium">Granite</td>
-                            <td className="p-3 text-gray-600">Aggregate for Concrete</td>
-                            <td className="p-3 text-right font-mono">{(results.foundationMaterials?.aggregateTons || 0).toFixed(1)}</td>
-                            <td className="p-3 text-gray-500">Tons</td>
+                            <td className="p-3 font-medium">Cement (Plaster)</td>
+                            <td className="p-3 text-gray-600">Internal Plaster {results.plaster.internalArea.toFixed(1)}m² (1:{settings.plasterRatio || 6}) & External Render {results.plaster.externalArea.toFixed(1)}m² (1:{settings.renderRatio || 4})</td>
+                            <td className="p-3 text-right font-mono">{Math.ceil(results.plaster.cementBags)}</td>
+                            <td className="p-3 text-gray-500">Bags</td>
                         </tr>
                         <tr>
-                            <td className="p-3 font-medium">Reinforcement (Main)</td>
-                            <td className="p-3 text-gray-600">Y{settings.mainBarDiameter} High Yield Bars</td>
-                            <td className="p-3 text-right font-mono">{(results.reinforcementMainLength + (results.columnReinforcement?.mainLength || 0)).toFixed(1)}</td>
-                            <td className="p-3 text-gray-500">m</td>
+                            <td className="p-3 font-medium">Plaster Sand</td>
+                            <td className="p-3 text-gray-600">Soft Sand for Plaster & Render</td>
+                            <td className="p-3 text-right font-mono">{results.plaster.sandTons.toFixed(1)}</td>
+                            <td className="p-3 text-gray-500">Tons</td>
                         </tr>
                         <tr>
-                            <td className="p-3 font-medium">Reinforcement (Stirrups)</td>
-                            <td className="p-3 text-gray-600">Y{settings.stirrupBarDiameter} Mild Steel Bars</td>
-                            <td className="p-3 text-right font-mono">{(results.reinforcementStirrupLength + (results.columnReinforcement?.stirrupLength || 0)).toFixed(1)}</td>
-                            <td className="p-3 text-gray-500">m</td>
+                            <td className="p-3 font-medium">Granite</td>
+                            <td className="p-3 text-gray-600">Aggregate for Concrete</td>
+                            <td className="p-3 text-right font-mono">{results.concreteMaterials.reduce((sum, m) => sum + m.aggregateTons, 0).toFixed(1)}</td>
+                            <td className="p-3 text-gray-500">Tons</td>
                         </tr>
+                        {!!results.archFormworkArea && (
+                            <tr>
+                                <td className="p-3 font-medium">Arch Formwork</td>
+                                <td className="p-3 text-gray-600">Curved soffit centring under arch rings</td>
+                                <td className="p-3 text-right font-mono">{results.archFormworkArea.toFixed(1)}</td>
+                                <td className="p-3 text-gray-500">m²</td>
+                            </tr>
+                        )}
+                        {Object.entries(frameLengths).map(([frame, length]) => (
+                            <tr key={frame}>
+                                <td className="p-3 font-medium capitalize">{frame} Frames</td>
+                                <td className="p-3 text-gray-600">Door &amp; Window Frames, Jambs, Heads and Sills</td>
+                                <td className="p-3 text-right font-mono">{(length || 0).toFixed(1)}</td>
+                                <td className="p-3 text-gray-500">m</td>
+                            </tr>
+                        ))}
+                        {glazingArea > 0 && (
+                            <tr>
+                                <td className="p-3 font-medium">Glazing</td>
+                                <td className="p-3 text-gray-600">Glass to Glazed Doors &amp; Windows</td>
+                                <td className="p-3 text-right font-mono">{glazingArea.toFixed(2)}</td>
+                                <td className="p-3 text-gray-500">m²</td>
+                            </tr>
+                        )}
+                        {hardwareSets > 0 && (
+                            <tr>
+                                <td className="p-3 font-medium">Ironmongery</td>
+                                <td className="p-3 text-gray-600">Locks, Handles, Hinges &amp; Stays per Opening</td>
+                                <td className="p-3 text-right font-mono">{hardwareSets}</td>
+                                <td className="p-3 text-gray-500">Sets</td>
+                            </tr>
+                        )}
+                        {burglaryBarArea > 0 && (
+                            <tr>
+                                <td className="p-3 font-medium">Burglary-proof Bars</td>
+                                <td className="p-3 text-gray-600">Steel Bars over Clear Openings</td>
+                                <td className="p-3 text-right font-mono">{burglaryBarArea.toFixed(2)}</td>
+                                <td className="p-3 text-gray-500">m²</td>
+                            </tr>
+                        )}
+                        {floorFinishes && floorFinishes.screedVolume > 0 && (
+                            <tr>
+                                <td className="p-3 font-medium">Floor Screed</td>
+                                <td className="p-3 text-gray-600">{floorFinishes.screedVolume.toFixed(2)}m³ Sand-Cement Screed ({Math.ceil(floorFinishes.cementBags)} bags cement, {floorFinishes.sandTons.toFixed(1)}t sand incl. terrazzo)</td>
+                                <td className="p-3 text-right font-mono">{floorFinishes.screedVolume.toFixed(2)}</td>
+                                <td className="p-3 text-gray-500">m³</td>
+                            </tr>
+                        )}
+                        {floorFinishes && floorFinishes.floorTiles > 0 && (
+                            <tr>
+                                <td className="p-3 font-medium">Floor Tiles</td>
+                                <td className="p-3 text-gray-600">Ceramic &amp; Porcelain to {floorFinishes.tiledArea.toFixed(1)}m², Whole and Cut incl. Breakage</td>
+                                <td className="p-3 text-right font-mono">{floorFinishes.floorTiles}</td>
+                                <td className="p-3 text-gray-500">pcs</td>
+                            </tr>
+                        )}
+                        {floorFinishes && floorFinishes.wallTiles > 0 && (
+                            <tr>
+                                <td className="p-3 font-medium">Wall Tiles</td>
+                                <td className="p-3 text-gray-600">Wet Room Walls {floorFinishes.wallTileArea.toFixed(1)}m²</td>
+                                <td className="p-3 text-right font-mono">{floorFinishes.wallTiles}</td>
+                                <td className="p-3 text-gray-500">pcs</td>
+                            </tr>
+                        )}
+                        {floorFinishes && floorFinishes.terrazzoVolume > 0 && (
+                            <tr>
+                                <td className="p-3 font-medium">Terrazzo Chips</td>
+                                <td className="p-3 text-gray-600">Marble Chips for {floorFinishes.terrazzoVolume.toFixed(2)}m³ Terrazzo Topping</td>
+                                <td className="p-3 text-right font-mono">{floorFinishes.marbleChipsTons.toFixed(2)}</td>
+                                <td className="p-3 text-gray-500">Tons</td>
+                            </tr>
+                        )}
+                        {floorFinishes && floorFinishes.adhesiveBags > 0 && (
+                            <>
+                                <tr>
+                                    <td className="p-3 font-medium">Tile Adhesive</td>
+                                    <td className="p-3 text-gray-600">20kg Bags, Floor &amp; Wall Tiling</td>
+                                    <td className="p-3 text-right font-mono">{floorFinishes.adhesiveBags}</td>
+                                    <td className="p-3 text-gray-500">Bags</td>
+                                </tr>
+                                <tr>
+                                    <td className="p-3 font-medium">Tile Grout</td>
+                                    <td className="p-3 text-gray-600">Joint Filler to Tile Depth</td>
+                                    <td className="p-3 text-right font-mono">{floorFinishes.groutKg.toFixed(0)}</td>
+                                    <td className="p-3 text-gray-500">kg</td>
+                                </tr>
+                            </>
+                        )}
+                        {paintSchedule.map(e => (
+                            <tr key={`${e.zone}_${e.finish}_${e.colour}`}>
+                                <td className="p-3 font-medium capitalize">Paint, {e.finish} ({e.colour})</td>
+                                <td className="p-3 text-gray-600"><span className="capitalize">{e.zone}</span> {e.area.toFixed(1)}m², {e.litres.toFixed(0)}L in {paintRules.bucketSize}L Buckets</td>
+                                <td className="p-3 text-right font-mono">{e.buckets}</td>
+                                <td className="p-3 text-gray-500">Buckets</td>
+                            </tr>
+                        ))}
+                        {paintBuckets.primer > 0 && (
+                            <tr>
+                                <td className="p-3 font-medium">Primer / Sealer</td>
+                                <td className="p-3 text-gray-600">{paintSchedule.reduce((sum, e) => sum + e.primerLitres, 0).toFixed(0)}L under All Paint Systems</td>
+                                <td className="p-3 text-right font-mono">{paintBuckets.primer}</td>
+                                <td className="p-3 text-gray-500">Buckets</td>
+                            </tr>
+                        )}
+                        {barTotals.map(t => (
+                            <tr key={t.diameter}>
+                                <td className="p-3 font-medium">Reinforcement Y{t.diameter}</td>
+                                <td className="p-3 text-gray-600">{t.totalLength.toFixed(1)}m from Bar Schedule ({t.stockBars} × {stockLength / 1000}m lengths, {t.wastePercent.toFixed(1)}% offcuts)</td>
+                                <td className="p-3 text-right font-mono">{t.mass.toFixed(1)}</td>
+                                <td className="p-3 text-gray-500">kg</td>
+                            </tr>
+                        ))}
+                        {results.roof && results.roof.type === 'flat' && (
+                            <>
+                                <tr>
+                                    <td className="p-3 font-medium">Roof Waterproofing</td>
+                                    <td className="p-3 text-gray-600">Flat Roof within Parapets</td>
+                                    <td className="p-3 text-right font-mono">{results.roof.planArea.toFixed(1)}</td>
+                                    <td className="p-3 text-gray-500">m²</td>
+                                </tr>
+                                <tr>
+                                    <td className="p-3 font-medium">Parapet Coping</td>
+                                    <td className="p-3 text-gray-600">Precast Coping round the Roof</td>
+                                    <td className="p-3 text-right font-mono">{(results.roof.copingLength || 0).toFixed(1)}</td>
+                                    <td className="p-3 text-gray-500">m</td>
+                                </tr>
+                                <tr>
+                                    <td className="p-3 font-medium">Rainwater Outlets</td>
+                                    <td className="p-3 text-gray-600">Through the Parapet, no Eaves Gutters</td>
+                                    <td className="p-3 text-right font-mono">{results.roof.outletCount || 0}</td>
+                                    <td className="p-3 text-gray-500">pcs</td>
+                                </tr>
+                            </>
+                        )}
+                        {results.roof && results.roof.warning && (
+                            <tr>
+                                <td className="p-3 font-medium">Roof ({results.roof.type})</td>
+                                <td className="p-3 text-amber-700">{results.roof.warning}</td>
+                                <td className="p-3 text-right font-mono">{results.roof.slopedArea.toFixed(1)}</td>
+                                <td className="p-3 text-gray-500">m²</td>
+                            </tr>
+                        )}
+                        {results.roof && results.roof.sheetCount > 0 && (
+                            <>
+                                <tr>
+                                    <td className="p-3 font-medium">Roofing Sheets</td>
+                                    <td className="p-3 text-gray-600">Long-span Aluminium, {results.roof.type} roof {results.roof.slopedArea.toFixed(1)}m² ({results.roof.sheetLength.toFixed(1)}m cut to length)</td>
+                                    <td className="p-3 text-right font-mono">{results.roof.sheetCount}</td>
+                                    <td className="p-3 text-gray-500">Sheets</td>
+                                </tr>
+                                <tr>
+                                    <td className="p-3 font-medium">Ridge Caps</td>
+                                    <td className="p-3 text-gray-600">Ridge {results.roof.ridgeLength.toFixed(1)}m + Hips {results.roof.hipLength.toFixed(1)}m</td>
+                                    <td className="p-3 text-right font-mono">{results.roof.ridgeCapCount}</td>
+                                    <td className="p-3 text-gray-500">pcs</td>
+                                </tr>
+                                <tr>
+                                    <td className="p-3 font-medium">Roof Timber</td>
+                                    <td className="p-3 text-gray-600">Rafters {results.roof.rafterLength.toFixed(0)}m, Truss Members {results.roof.tieLength.toFixed(0)}m, Purlins {results.roof.purlinLength.toFixed(0)}m</td>
+                                    <td className="p-3 text-right font-mono">{(results.roof.rafterLength + results.roof.tieLength + results.roof.purlinLength).toFixed(0)}</td>
+                                    <td className="p-3 text-gray-500">m</td>
+                                </tr>
+                                <tr>
+                                    <td className="p-3 font-medium">Fascia & Barge</td>
+                                    <td className="p-3 text-gray-600">Fascia {results.roof.fasciaLength.toFixed(1)}m, Barge {results.roof.bargeLength.toFixed(1)}m</td>
+                                    <td className="p-3 text-right font-mono">{(results.roof.fasciaLength + results.roof.bargeLength).toFixed(1)}</td>
+                                    <td className="p-3 text-gray-500">m</td>
+                                </tr>
+                                <tr>
+                                    <td className="p-3 font-medium">Gutters</td>
+                                    <td className="p-3 text-gray-600">Eaves Gutter</td>
+                                    <td className="p-3 text-right font-mono">{results.roof.gutterLength.toFixed(1)}</td>
+                                    <td className="p-3 text-gray-500">m</td>
+                                </tr>
+                                {(results.roof.valleyLength || 0) > 0 && (
+                                    <tr>
+                                        <td className="p-3 font-medium">Valley Gutters</td>
+                                        <td className="p-3 text-gray-600">Between Wings of the Hip Roof</td>
+                                        <td className="p-3 text-right font-mono">{(results.roof.valleyLength || 0).toFixed(1)}</td>
+                                        <td className="p-3 text-gray-500">m</td>
+                                    </tr>
+                                )}
+                            </>
+                        )}
                     </tbody>
                 </table>
             </div>
 
+            {/* Room Schedule */}
+            {results.rooms.length > 0 && (
+                <div className="mb-8 break-inside-avoid">
+                    <h2 className="text-xl font-bold text-gray-800 mb-4 border-l-4 border-indigo-500 pl-3">Room Schedule</h2>
+                    <table className="w-full text-sm text-left border-collapse">
+                        <thead className="bg-gray-100 text-gray-600 uppercase text-xs">
+                            <tr>
+                                <th className="p-3 border-b border-gray-300">Room</th>
+                                <th className="p-3 border-b border-gray-300">Finishes (Floor / Wall / Ceiling)</th>
+                                <th className="p-3 border-b border-gray-300 text-right">Floor (m²)</th>
+                                <th className="p-3 border-b border-gray-300 text-right">Perimeter (m)</th>
+                                <th className="p-3 border-b border-gray-300 text-right">Skirting (m)</th>
+                                <th className="p-3 border-b border-gray-300 text-right">Wall Tiles (m²)</th>
+                                <th className="p-3 border-b border-gray-300 text-right">Wall Paint (m²)</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {results.rooms.map(room => (
+                                <tr key={room.id}>
+                                    <td className="p-3 font-medium">{room.name}</td>
+                                    <td className="p-3 text-gray-600 capitalize">{room.floorFinish} / {room.wallFinish} / {room.ceilingType}</td>
+                                    <td className="p-3 text-right font-mono">{room.area.toFixed(2)}</td>
+                                    <td className="p-3 text-right font-mono">{room.perimeter.toFixed(2)}</td>
+                                    <td className="p-3 text-right font-mono">{room.skirtingLength.toFixed(2)}</td>
+                                    <td className="p-3 text-right font-mono">{room.wallTileArea.toFixed(1)}</td>
+                                    <td className="p-3 text-right font-mono">{room.wallPaintArea.toFixed(1)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Door & Window Schedule */}
+            {openingSchedule.length > 0 && (
+                <div className="mb-8 break-inside-avoid">
+                    <h2 className="text-xl font-bold text-gray-800 mb-4 border-l-4 border-indigo-500 pl-3">Door &amp; Window Schedule</h2>
+                    <table className="w-full text-xs text-left border-collapse">
+                        <thead className="bg-gray-100 text-gray-600 uppercase">
+                            <tr>
+                                <th className="p-2 border-b border-gray-300">Mark</th>
+                                <th className="p-2 border-b border-gray-300">Description</th>
+                                <th className="p-2 border-b border-gray-300 text-right">Size (mm)</th>
+                                <th className="p-2 border-b border-gray-300 text-right">No.</th>
+                                <th className="p-2 border-b border-gray-300">Frame</th>
+                                <th className="p-2 border-b border-gray-300 text-right">Leaves</th>
+                                <th className="p-2 border-b border-gray-300">Glazing</th>
+                                <th className="p-2 border-b border-gray-300">Ironmongery</th>
+                                <th className="p-2 border-b border-gray-300">Bars</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {openingSchedule.map(e => (
+                                <tr key={`${e.spec.id}_${e.width}_${e.height}_${e.archRise ?? ''}`}>
+                                    <td className="p-2 font-mono font-medium">{e.spec.mark}</td>
+                                    <td className="p-2 text-gray-600 capitalize">{e.spec.description || e.spec.kind}</td>
+                                    <td className="p-2 text-right font-mono">{e.width} × {e.height}{e.archRise ? ` (rise ${Math.round(e.archRise)})` : ''}</td>
+                                    <td className="p-2 text-right font-mono">{e.count}</td>
+                                    <td className="p-2 capitalize">{e.spec.frame}</td>
+                                    <td className="p-2 text-right font-mono">{e.spec.leaves}</td>
+                                    <td className="p-2 capitalize">{e.spec.glazing}</td>
+                                    <td className="p-2 capitalize">{e.spec.ironmongery}</td>
+                                    <td className="p-2">{e.spec.burglaryBars ? 'Yes' : '-'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Bar Bending Schedule */}
+            {results.barSchedule.length > 0 && (
+                <div className="mb-8 break-inside-avoid">
+                    <h2 className="text-xl font-bold text-gray-800 mb-4 border-l-4 border-indigo-500 pl-3">Bar Bending Schedule</h2>
+                    <table className="w-full text-xs text-left border-collapse">
+                        <thead className="bg-gray-100 text-gray-600 uppercase">
+                            <tr>
+                                <th className="p-2 border-b border-gray-300">Member</th>
+                                <th className="p-2 border-b border-gray-300">Mark</th>
+                                <th className="p-2 border-b border-gray-300">Shape</th>
+                                <th className="p-2 border-b border-gray-300 text-right">Dia</th>
+                                <th className="p-2 border-b border-gray-300 text-right">No.</th>
+                                <th className="p-2 border-b border-gray-300 text-right">Cut (mm)</th>
+                                <th className="p-2 border-b border-gray-300">A / B / C / D / E</th>
+                                <th className="p-2 border-b border-gray-300 text-right">Laps</th>
+                                <th className="p-2 border-b border-gray-300 text-right">Total (m)</th>
+                                <th className="p-2 border-b border-gray-300 text-right">Mass (kg)</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {results.barSchedule.map(e => (
+                                <tr key={e.mark}>
+                                    <td className="p-2 font-medium">{e.member}</td>
+                                    <td className="p-2 font-mono">{e.mark}</td>
+                                    <td className="p-2 font-mono">{e.shapeCode}</td>
+                                    <td className="p-2 text-right font-mono">Y{e.diameter}</td>
+                                    <td className="p-2 text-right font-mono">{e.count}</td>
+                                    <td className="p-2 text-right font-mono">{e.cutLength}</td>
+                                    <td className="p-2 font-mono text-gray-600">
+                                        {(['A', 'B', 'C', 'D', 'E'] as const).filter(k => e.dimensions[k] !== undefined).map(k => Math.round(e.dimensions[k]!)).join(' / ')}
+                                    </td>
+                                    <td className="p-2 text-right font-mono">{e.laps || ''}</td>
+                                    <td className="p-2 text-right font-mono">{e.totalLength.toFixed(2)}</td>
+                                    <td className="p-2 text-right font-mono">{e.mass.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot className="bg-gray-50 font-medium">
+                            {barTotals.map(t => (
+                                <tr key={t.diameter}>
+                                    <td className="p-2" colSpan={3}>Total Y{t.diameter}</td>
+                                    <td className="p-2 text-gray-600" colSpan={5}>{t.stockBars} × {stockLength / 1000}m stock bars ({t.wastePercent.toFixed(1)}% offcuts)</td>
+                                    <td className="p-2 text-right font-mono">{t.totalLength.toFixed(1)}</td>
+                                    <td className="p-2 text-right font-mono">{t.mass.toFixed(1)}</td>
+                                </tr>
+                            ))}
+                        </tfoot>
+                    </table>
+                </div>
+            )}
+
+            {/* Cutting Plan */}
+            {cuttingPlans.length > 0 && (
+                <div className="mb-8 break-inside-avoid">
+                    <h2 className="text-xl font-bold text-gray-800 mb-4 border-l-4 border-indigo-500 pl-3">Cutting Plan ({stockLength / 1000}m Stock Bars)</h2>
+                    <table className="w-full text-xs text-left border-collapse">
+                        <thead className="bg-gray-100 text-gray-600 uppercase">
+                            <tr>
+                                <th className="p-2 border-b border-gray-300">Dia</th>
+                                <th className="p-2 border-b border-gray-300 text-right">Bars</th>
+                                <th className="p-2 border-b border-gray-300">Cut Each Bar Into (mark, mm)</th>
+                                <th className="p-2 border-b border-gray-300 text-right">Offcut (mm)</th>
+                            </tr>
+                        </thead>
+                        {cuttingPlans.map(plan => (
+                            <tbody key={plan.diameter} className="divide-y divide-gray-200">
+                                {plan.patterns.map((p, i) => (
+                                    <tr key={i}>
+                                        <td className="p-2 font-mono">Y{plan.diameter}</td>
+                                        <td className="p-2 text-right font-mono">{p.repeat}</td>
+                                        <td className="p-2 font-mono text-gray-600">{describePattern(p)}</td>
+                                        <td className="p-2 text-right font-mono">{p.offcut}</td>
+                                    </tr>
+                                ))}
+                                <tr className="bg-gray-50 font-medium">
+                                    <td className="p-2">Y{plan.diameter}</td>
+                                    <td className="p-2 text-right font-mono">{plan.stockBars}</td>
+                                    <td className="p-2 text-gray-600">Bars to buy · {plan.usedLength.toFixed(1)}m used</td>
+                                    <td className="p-2 text-right font-mono">{plan.wastePercent.toFixed(1)}%</td>
+                                </tr>
+                            </tbody>
+                        ))}
+                    </table>
+                </div>
+            )}
+
             {/* Footer */}
             <div className="mt-auto pt-8 border-t border-gray-200 text-center text-xs text-gray-400">
                 Generated by Construct-AI • {meta.id} • {meta.deviceInfo.slice(0, 50)}...
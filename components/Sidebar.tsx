@@ -1,9 +1,20 @@
 
 import React from 'react';
-import { ChevronRight, ChevronLeft, Eye, X, CheckCircle2, AlertTriangle, ChevronDown, Settings } from 'lucide-react';
-import { ProjectSettings, CalculationResult, ToolMode, ToolSettings, GroundTruth, ProjectLabel, ProjectMeta, Column, Wall, Opening } from '../types';
+import { ChevronRight, ChevronLeft, Eye, X, CheckCircle2, AlertTriangle, ChevronDown, Settings, LayoutGrid, Home, Grid3x3, Minus, Square, ShieldCheck, DoorOpen, PaintBucket } from 'lucide-react';
+import { ProjectSettings, CalculationResult, ToolMode, ToolSettings, GroundTruth, ProjectLabel, ProjectMeta, Column, Wall, Opening, Room, RoomFinishes, FloorFinish, WallFinish, CeilingType, Level, Roof, RoofType, SlabDesignRules, FloorFinishRules, PaintRules, PaintSystem, DesignCodeId, MemberSafety, LateralLimits, ConcreteElement, ConcreteGrade, ConcreteMix, OpeningSpec, OpeningType, FrameMaterial, GlazingType, IronmongerySet } from '../types';
 import { GeometricIssue } from '../utils/validation';
 import PriceComparison from './PriceComparison';
+import WallElevation from './WallElevation';
+import { createRoof } from '../utils/roofDesign';
+import { resolveSlabRules } from '../utils/slabDesign';
+import { summariseBarSchedule, stockBarLength } from '../utils/barSchedule';
+import { DEFAULT_SOIL_BEARING_CAPACITY } from '../utils/foundationDesign';
+import { DESIGN_CODES, getDesignCode } from '../utils/designCodes';
+import { resolveLateralLimits } from '../utils/lateralAnalysis';
+import { CONCRETE_GRADES, resolveMix, designMix } from '../utils/mixDesign';
+import { summariseOpeningSchedule, frameLengthByMaterial, nextSpecMark, DEFAULT_OPENING_SPECS } from '../utils/openingSchedule';
+import { resolveFloorFinishRules, DEFAULT_TILE_SIZES } from '../utils/floorFinishes';
+import { resolvePaintRules, summarisePaintSchedule, paintBucketsByFinish } from '../utils/paintSchedule';
 
 interface SidebarProps {
   activeTool: ToolMode;
@@ -26,6 +37,8 @@ interface SidebarProps {
   walls: Wall[];
   openings: Opening[];
   geometricIssues?: GeometricIssue[];
+  activeLevel?: Level;
+  onUpdateLevel?: (updates: Partial<Level>) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
@@ -41,9 +54,87 @@ const Sidebar: React.FC<SidebarProps> = ({
   groundTruth,
   setGroundTruth,
   meta,
-  geometricIssues = []
+  labels = [],
+  setLabels,
+  selectedId,
+  columns,
+  walls,
+  openings,
+  geometricIssues = [],
+  activeLevel,
+  onUpdateLevel
 }) => {
 
+  const slabRules = resolveSlabRules(settings);
+  const updateSlabRules = (updates: Partial<SlabDesignRules>) => {
+    onUpdateSettings({ ...settings, slabDesign: { ...settings.slabDesign, ...updates } });
+  };
+
+  const concreteElements: ConcreteElement[] = ['foundation', 'column', 'beam', 'slab', 'lintel'];
+
+  const floorRules = resolveFloorFinishRules(settings);
+  const updateFloorRules = (updates: Partial<FloorFinishRules>) => {
+    onUpdateSettings({ ...settings, floorFinishRules: { ...settings.floorFinishRules, ...updates } });
+  };
+  const tileSizes = ['300x300', '400x400', '450x450', '600x600', '600x1200', '800x800'];
+
+  const paintRules = resolvePaintRules(settings);
+  const updatePaintRules = (updates: Partial<PaintRules>) => {
+    onUpdateSettings({ ...settings, paintRules: { ...settings.paintRules, ...updates } });
+  };
+  const updatePaintSystem = (finish: WallFinish, updates: Partial<PaintSystem>) => {
+    updatePaintRules({ systems: { ...paintRules.systems, [finish]: { ...paintRules.systems[finish], ...updates } } });
+  };
+  const wallFinishes: WallFinish[] = ['emulsion', 'textured', 'gloss'];
+
+  // Paint by zone and colour, in buckets for pricing
+  const paintSchedule = summarisePaintSchedule(results.paintSchedule || [], settings);
+  const paintBuckets = paintBucketsByFinish(paintSchedule, settings);
+  const paintRequirements = [
+    ...Object.entries(paintBuckets.finishes).map(([finish, buckets]) => ({ type: `paint_${finish}`, quantity: buckets || 0, unit: 'bucket' })),
+    { type: 'paint_primer', quantity: paintBuckets.primer, unit: 'bucket' }
+  ].filter(r => r.quantity > 0);
+
+  const openingSpecs = settings.openingSpecs || [];
+  const updateOpeningSpec = (id: string, updates: Partial<OpeningSpec>) => {
+    onUpdateSettings({ ...settings, openingSpecs: openingSpecs.map(s => s.id === id ? { ...s, ...updates } : s) });
+  };
+  const addOpeningSpec = (kind: OpeningType) => {
+    const spec: OpeningSpec = { ...DEFAULT_OPENING_SPECS[kind], id: `spec_${Date.now()}`, mark: nextSpecMark(kind, openingSpecs) };
+    onUpdateSettings({ ...settings, openingSpecs: [...openingSpecs, spec] });
+  };
+
+  // Door and window schedule, with frames, glazing and hardware for pricing
+  const openingSchedule = summariseOpeningSchedule(results.openingSchedule || []);
+  const openingRequirements = [
+    ...Object.entries(frameLengthByMaterial(openingSchedule)).map(([frame, length]) => ({ type: `${frame}_frame`, quantity: Math.ceil(length || 0), unit: 'm' })),
+    { type: 'glazing', quantity: Math.ceil(openingSchedule.reduce((sum, e) => sum + e.glazingArea, 0) * 10) / 10, unit: 'm²' },
+    { type: 'ironmongery', quantity: openingSchedule.reduce((sum, e) => sum + e.hardwareSets, 0), unit: 'set' },
+    { type: 'burglary_bars', quantity: Math.ceil(openingSchedule.reduce((sum, e) => sum + e.burglaryBarArea, 0) * 10) / 10, unit: 'm²' }
+  ].filter(r => r.quantity > 0);
+  const updateMix = (element: ConcreteElement, updates: Partial<ConcreteMix>) => {
+    const mix = { ...resolveMix(element, settings), ...updates };
+    onUpdateSettings({ ...settings, concreteMixes: { ...settings.concreteMixes, [element]: mix } });
+  };
+
+  const designCode = getDesignCode(settings);
+  const lateralLimits = resolveLateralLimits(settings);
+  const updateLateralLimits = (updates: Partial<LateralLimits>) => {
+    onUpdateSettings({ ...settings, lateralLimits: { ...settings.lateralLimits, ...updates } });
+  };
+
+  // The roof belongs to the active level
+  const updateRoof = (updates: Partial<Roof>) => {
+    if (!activeLevel?.roof || !onUpdateLevel) return;
+    onUpdateLevel({ roof: { ...activeLevel.roof, ...updates } });
+  };
+
+  // Finishes are stored on the label that names the room
+  const updateRoomFinish = (room: Room, updates: Partial<RoomFinishes>) => {
+    if (!room.labelId || !setLabels) return;
+    setLabels(labels.map(l => l.id === room.labelId ? { ...l, finishes: { ...l.finishes, ...updates } } : l));
+  };
+
   const handleGroundTruthChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setGroundTruth({
@@ -156,7 +247,9 @@ const Sidebar: React.FC<SidebarProps> = ({
               requirements={[
                 { type: 'block_9inch', quantity: Math.ceil(results.blockCount), unit: 'piece' },
                 { type: 'cement_bag', quantity: Math.ceil(results.cementBags), unit: 'bag' },
-                { type: 'sand_ton', quantity: results.sandTons, unit: 'ton' }
+                { type: 'sand_ton', quantity: results.sandTons, unit: 'ton' },
+                ...openingRequirements,
+                ...paintRequirements
               ]}
               userLocation={meta.gps ? {
                 latitude: meta.gps.latitude,
@@ -222,28 +315,724 @@ const Sidebar: React.FC<SidebarProps> = ({
                   <span>Water:</span>
                   <span className="font-mono text-white">{results.waterLiters.toFixed(0)} liters</span>
                 </div>
+                {results.levels && results.levels.length > 1 && results.levels.map(level => (
+                  <div key={level.levelId} className="flex justify-between">
+                    <span>{level.name}:</span>
+                    <span className="font-mono text-white">{Math.ceil(level.result.blockCount)} blocks · {(level.result.columnConcreteVolume + level.result.beamConcreteVolume + level.result.slabConcreteVolume).toFixed(1)} m³</span>
+                  </div>
+                ))}
                 {results.columnConcreteVolume > 0 && (
                   <div className="flex justify-between pt-2 border-t border-slate-700">
                     <span>Column Concrete:</span>
                     <span className="font-mono text-white">{results.columnConcreteVolume.toFixed(2)} m³</span>
                   </div>
                 )}
+                {results.columnConcreteVolume > 0 && (
+                  <div className="flex justify-between text-xs">
+                    <span>In walls / freestanding:</span>
+                    <span className="font-mono text-white">{results.columnBreakdown.embeddedCount} · {results.columnBreakdown.freestandingCount}</span>
+                  </div>
+                )}
+                {results.columnBreakdown.masonryDeducted > 0 && (
+                  <div className="flex justify-between text-xs">
+                    <span>Masonry replaced by columns:</span>
+                    <span className="font-mono text-white">{results.columnBreakdown.masonryDeducted.toFixed(2)} m³</span>
+                  </div>
+                )}
+                {summariseBarSchedule(results.barSchedule, settings).map((t, i) => (
+                  <div key={t.diameter} className={`flex justify-between ${i === 0 ? 'pt-2 border-t border-slate-700' : ''}`}>
+                    <span>Rebar Y{t.diameter} ({stockBarLength(settings) / 1000}m bars):</span>
+                    <span className="font-mono text-white">{t.stockBars} · {t.mass.toFixed(0)} kg · {t.wastePercent.toFixed(1)}% waste</span>
+                  </div>
+                ))}
                 {results.foundationVolume > 0 && (
                   <div className="flex justify-between">
                     <span>Foundation Volume:</span>
                     <span className="font-mono text-white">{results.foundationVolume.toFixed(2)} m³</span>
                   </div>
                 )}
-                {results.floorConcreteVolume && (
+                {!!results.archFormworkArea && (
+                  <div className="flex justify-between">
+                    <span>Arch Formwork (curved):</span>
+                    <span className="font-mono text-white">{results.archFormworkArea.toFixed(2)} m²</span>
+                  </div>
+                )}
+                {results.floorArea > 0 && (
+                  <div className="flex justify-between pt-2 border-t border-slate-700">
+                    <span>Floor Area ({results.rooms.length} rooms):</span>
+                    <span className="font-mono text-white">{results.floorArea.toFixed(2)} m²</span>
+                  </div>
+                )}
+                {results.floorConcreteVolume > 0 && (
                   <div className="flex justify-between">
                     <span>Floor Concrete:</span>
                     <span className="font-mono text-white">{results.floorConcreteVolume.toFixed(2)} m³</span>
                   </div>
                 )}
+                {results.blindingVolume > 0 && (
+                  <div className="flex justify-between">
+                    <span>Blinding:</span>
+                    <span className="font-mono text-white">{results.blindingVolume.toFixed(2)} m³</span>
+                  </div>
+                )}
+                {(results.plaster.internalArea > 0 || results.plaster.externalArea > 0) && (
+                  <>
+                    <div className="flex justify-between pt-2 border-t border-slate-700">
+                      <span>Internal Plaster:</span>
+                      <span className="font-mono text-white">{results.plaster.internalArea.toFixed(1)} m²</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>External Render:</span>
+                      <span className="font-mono text-white">{results.plaster.externalArea.toFixed(1)} m²</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Plaster Cement:</span>
+                      <span className="font-mono text-white">{Math.ceil(results.plaster.cementBags)} bags</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Plaster Sand:</span>
+                      <span className="font-mono text-white">{results.plaster.sandTons.toFixed(1)} t</span>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
           </details>
 
+          {/* Room Schedule */}
+          {results.rooms.length > 0 && (
+            <details className="group">
+              <summary className="cursor-pointer bg-slate-800/50 rounded-lg p-3 text-sm text-slate-300 hover:bg-slate-800 transition-colors list-none flex items-center justify-between">
+                <span className="font-medium flex items-center gap-2">
+                  <LayoutGrid size={16} className="text-emerald-400" />
+                  Rooms ({results.rooms.length})
+                </span>
+                <ChevronDown size={16} className="group-open:rotate-180 transition-transform" />
+              </summary>
+              <div className="mt-3 space-y-3">
+                {results.rooms.map(room => (
+                  <div key={room.id} className="bg-slate-900/50 rounded-lg p-3 text-xs text-slate-400 space-y-2">
+                    <div className="flex justify-between items-center">
+                      <span className="font-semibold text-white text-sm">{room.name}</span>
+                      <span className="font-mono text-white">{room.area.toFixed(2)} m²</span>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 font-mono">
+                      <div><div className="text-[10px] uppercase text-slate-500">Perimeter</div>{room.perimeter.toFixed(2)} m</div>
+                      <div><div className="text-[10px] uppercase text-slate-500">Skirting</div>{room.skirtingLength.toFixed(2)} m</div>
+                      <div><div className="text-[10px] uppercase text-slate-500">Wall Paint</div>{room.wallPaintArea.toFixed(1)} m²</div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <select
+                        value={room.floorFinish}
+                        disabled={!room.labelId}
+                        onChange={(e) => updateRoomFinish(room, { floorFinish: e.target.value as FloorFinish })}
+                        className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-[11px] text-white disabled:opacity-50"
+                        title="Floor Finish"
+                      >
+                        <option value="screed">Screed</option>
+                        <option value="ceramic">Ceramic</option>
+                        <option value="porcelain">Porcelain</option>
+                        <option value="terrazzo">Terrazzo</option>
+                      </select>
+                      <select
+                        value={room.wallFinish}
+                        disabled={!room.labelId}
+                        onChange={(e) => updateRoomFinish(room, { wallFinish: e.target.value as WallFinish })}
+                        className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-[11px] text-white disabled:opacity-50"
+                        title="Wall Finish"
+                      >
+                        <option value="emulsion">Emulsion</option>
+                        <option value="textured">Textured</option>
+                        <option value="gloss">Gloss</option>
+                      </select>
+                      <select
+                        value={room.ceilingType}
+                        disabled={!room.labelId}
+                        onChange={(e) => updateRoomFinish(room, { ceilingType: e.target.value as CeilingType })}
+                        className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-[11px] text-white disabled:opacity-50"
+                        title="Ceiling Type"
+                      >
+                        <option value="pop">POP</option>
+                        <option value="plasterboard">Plasterboard</option>
+                        <option value="pvc">PVC</option>
+                        <option value="exposed">Exposed Slab</option>
+                      </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <select
+                        value={room.tileSize ? `${room.tileSize.width}x${room.tileSize.length}` : ''}
+                        disabled={!room.labelId || (room.floorFinish !== 'ceramic' && room.floorFinish !== 'porcelain')}
+                        onChange={(e) => {
+                          const [width, length] = e.target.value.split('x').map(Number);
+                          updateRoomFinish(room, { tileSize: e.target.value ? { width, length } : undefined });
+                        }}
+                        className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-[11px] text-white disabled:opacity-50"
+                        title="Floor Tile Size (mm)"
+                      >
+                        <option value="">
+                          {room.floorFinish === 'ceramic' || room.floorFinish === 'porcelain'
+                            ? `Tile ${DEFAULT_TILE_SIZES[room.floorFinish].width}×${DEFAULT_TILE_SIZES[room.floorFinish].length}`
+                            : 'No tiles'}
+                        </option>
+                        {tileSizes.map(size => <option key={size} value={size}>Tile {size.replace('x', '×')}</option>)}
+                      </select>
+                      <input
+                        type="number"
+                        value={room.wallTileHeight || ''}
+                        placeholder="Wall tiles (mm)"
+                        disabled={!room.labelId}
+                        onChange={(e) => updateRoomFinish(room, { wallTileHeight: parseInt(e.target.value) || undefined })}
+                        className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-[11px] text-white disabled:opacity-50"
+                        title="Wet rooms: wall tiling height from the floor (mm)"
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="text"
+                        value={room.wallColour || ''}
+                        placeholder={`Walls: ${paintRules.defaultColour}`}
+                        disabled={!room.labelId}
+                        onChange={(e) => updateRoomFinish(room, { wallColour: e.target.value || undefined })}
+                        className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-[11px] text-white disabled:opacity-50"
+                        title="Wall Paint Colour"
+                      />
+                      <input
+                        type="text"
+                        value={room.ceilingColour || ''}
+                        placeholder={room.ceilingType === 'pvc' ? 'Ceiling unpainted' : `Ceiling: ${paintRules.defaultColour}`}
+                        disabled={!room.labelId || room.ceilingType === 'pvc'}
+                        onChange={(e) => updateRoomFinish(room, { ceilingColour: e.target.value || undefined })}
+                        className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-[11px] text-white disabled:opacity-50"
+                        title="Ceiling Paint Colour"
+                      />
+                    </div>
+                    {(() => {
+                      const takeoff = results.floorFinishes?.rooms.find(t => t.roomId === room.id);
+                      if (!takeoff || (takeoff.floorTiles === 0 && takeoff.wallTiles === 0)) return null;
+                      return (
+                        <div className="grid grid-cols-3 gap-2 font-mono">
+                          <div><div className="text-[10px] uppercase text-slate-500">Whole / Cut</div>{takeoff.wholeTiles} / {takeoff.cutTiles}</div>
+                          <div><div className="text-[10px] uppercase text-slate-500">Floor Tiles</div>{takeoff.floorTiles}</div>
+                          <div><div className="text-[10px] uppercase text-slate-500">Wall Tiles</div>{takeoff.wallTiles} ({takeoff.wallTileArea.toFixed(1)} m²)</div>
+                        </div>
+                      );
+                    })()}
+                    {!room.labelId && (
+                      <p className="text-[10px] text-slate-500 italic">Place a label inside this room to name it and set finishes.</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
+
+          {/* Floor Finishes (screed, tiles, terrazzo, wet-room wall tiling) */}
+          {results.floorFinishes && results.floorFinishes.screedVolume > 0 && (() => {
+            const f = results.floorFinishes;
+            return (
+              <details className="group">
+                <summary className="cursor-pointer bg-slate-800/50 rounded-lg p-3 text-sm text-slate-300 hover:bg-slate-800 transition-colors list-none flex items-center justify-between">
+                  <span className="font-medium flex items-center gap-2">
+                    <Grid3x3 size={16} className="text-cyan-400" />
+                    Floor Finishes
+                  </span>
+                  <ChevronDown size={16} className="group-open:rotate-180 transition-transform" />
+                </summary>
+                <div className="mt-3 space-y-1 text-sm text-slate-300">
+                  <div className="flex justify-between">
+                    <span>Screed ({floorRules.screedThickness}mm):</span>
+                    <span className="font-mono text-white">{f.screedVolume.toFixed(2)} m³</span>
+                  </div>
+                  {f.floorTiles > 0 && (
+                    <div className="flex justify-between">
+                      <span>Floor Tiles ({f.tiledArea.toFixed(1)} m²):</span>
+                      <span className="font-mono text-white">{f.floorTiles} pcs</span>
+                    </div>
+                  )}
+                  {f.wallTiles > 0 && (
+                    <div className="flex justify-between">
+                      <span>Wall Tiles ({f.wallTileArea.toFixed(1)} m²):</span>
+                      <span className="font-mono text-white">{f.wallTiles} pcs</span>
+                    </div>
+                  )}
+                  {f.terrazzoVolume > 0 && (
+                    <div className="flex justify-between">
+                      <span>Terrazzo Chips:</span>
+                      <span className="font-mono text-white">{f.marbleChipsTons.toFixed(2)} t</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Cement / Sand:</span>
+                    <span className="font-mono text-white">{Math.ceil(f.cementBags)} bags · {f.sandTons.toFixed(1)} t</span>
+                  </div>
+                  {f.adhesiveBags > 0 && (
+                    <div className="flex justify-between">
+                      <span>Adhesive / Grout:</span>
+                      <span className="font-mono text-white">{f.adhesiveBags} bags · {Math.ceil(f.groutKg)} kg</span>
+                    </div>
+                  )}
+                </div>
+              </details>
+            );
+          })()}
+
+          {/* Paint Schedule (by zone and colour) */}
+          {paintSchedule.length > 0 && (
+            <details className="group">
+              <summary className="cursor-pointer bg-slate-800/50 rounded-lg p-3 text-sm text-slate-300 hover:bg-slate-800 transition-colors list-none flex items-center justify-between">
+                <span className="font-medium flex items-center gap-2">
+                  <PaintBucket size={16} className="text-pink-400" />
+                  Paint ({paintSchedule.reduce((sum, e) => sum + e.buckets, 0)} × {paintRules.bucketSize}L)
+                </span>
+                <ChevronDown size={16} className="group-open:rotate-180 transition-transform" />
+              </summary>
+              <div className="mt-3 space-y-1 text-sm text-slate-300">
+                {paintSchedule.map(e => (
+                  <div key={`${e.zone}_${e.finish}_${e.colour}`} className="flex justify-between">
+                    <span className="capitalize">{e.zone} {e.finish} · {e.colour} ({e.area.toFixed(0)} m²):</span>
+                    <span className="font-mono text-white">{e.litres.toFixed(0)}L · {e.buckets}</span>
+                  </div>
+                ))}
+                {paintBuckets.primer > 0 && (
+                  <div className="flex justify-between border-t border-slate-700 pt-1 mt-1">
+                    <span>Primer / Sealer ({paintSchedule.reduce((sum, e) => sum + e.primerLitres, 0).toFixed(0)}L):</span>
+                    <span className="font-mono text-white">{paintBuckets.primer}</span>
+                  </div>
+                )}
+              </div>
+            </details>
+          )}
+
+          {/* Roof (over the active level's outer wall loop) */}
+          {activeLevel && onUpdateLevel && (
+            <details className="group">
+              <summary className="cursor-pointer bg-slate-800/50 rounded-lg p-3 text-sm text-slate-300 hover:bg-slate-800 transition-colors list-none flex items-center justify-between">
+                <span className="font-medium flex items-center gap-2">
+                  <Home size={16} className="text-orange-400" />
+                  Roof
+                </span>
+                <ChevronDown size={16} className="group-open:rotate-180 transition-transform" />
+              </summary>
+              <div className="mt-3 space-y-3 text-sm text-slate-300">
+                {!activeLevel.roof ? (
+                  <button
+                    onClick={() => onUpdateLevel({ roof: createRoof() })}
+                    className="w-full bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded px-3 py-2 text-sm text-white"
+                  >
+                    Add Roof to {activeLevel.name}
+                  </button>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-3 gap-2">
+                      <div>
+                        <label className="block text-xs text-slate-400 mb-1">Type</label>
+                        <select
+                          value={activeLevel.roof.type}
+                          onChange={(e) => updateRoof({ type: e.target.value as RoofType })}
+                          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                        >
+                          <option value="gable">Gable</option>
+                          <option value="hip">Hip</option>
+                          <option value="flat">Flat (Parapet)</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-slate-400 mb-1">Pitch (°)</label>
+                        <input
+                          type="number"
+                          value={activeLevel.roof.pitch}
+                          onChange={(e) => updateRoof({ pitch: parseFloat(e.target.value) || 0 })}
+                          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-slate-400 mb-1">Overhang</label>
+                        <input
+                          type="number"
+                          value={activeLevel.roof.overhang}
+                          onChange={(e) => updateRoof({ overhang: parseInt(e.target.value) || 0 })}
+                          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                        />
+                      </div>
+                    </div>
+                    {results.roof && (
+                      <div className="space-y-1">
+                        <div className="flex justify-between">
+                          <span>Roof Area (sloped):</span>
+                          <span className="font-mono text-white">{results.roof.slopedArea.toFixed(1)} m²</span>
+                        </div>
+                        {results.roof.sheetCount > 0 && (
+                          <div className="flex justify-between">
+                            <span>Long-span Sheets:</span>
+                            <span className="font-mono text-white">{results.roof.sheetCount} · {results.roof.sheetLength.toFixed(1)} m</span>
+                          </div>
+                        )}
+                        {results.roof.ridgeCapCount > 0 && (
+                          <div className="flex justify-between">
+                            <span>Ridge Caps:</span>
+                            <span className="font-mono text-white">{results.roof.ridgeCapCount}</span>
+                          </div>
+                        )}
+                        {results.roof.rafterLength > 0 && (
+                          <div className="flex justify-between">
+                            <span>Rafters · Truss Members:</span>
+                            <span className="font-mono text-white">{results.roof.rafterLength.toFixed(0)} · {results.roof.tieLength.toFixed(0)} m</span>
+                          </div>
+                        )}
+                        {results.roof.purlinLength > 0 && (
+                          <div className="flex justify-between">
+                            <span>Purlins:</span>
+                            <span className="font-mono text-white">{results.roof.purlinLength.toFixed(0)} m</span>
+                          </div>
+                        )}
+                        {results.roof.copingLength !== undefined && (
+                          <div className="flex justify-between">
+                            <span>Coping · Outlets:</span>
+                            <span className="font-mono text-white">{results.roof.copingLength.toFixed(1)} m · {results.roof.outletCount}</span>
+                          </div>
+                        )}
+                        {results.roof.fasciaLength > 0 && (
+                          <div className="flex justify-between">
+                            <span>Fascia / Gutter:</span>
+                            <span className="font-mono text-white">{results.roof.fasciaLength.toFixed(1)} · {results.roof.gutterLength.toFixed(1)} m</span>
+                          </div>
+                        )}
+                        {(results.roof.valleyLength || 0) > 0 && (
+                          <div className="flex justify-between">
+                            <span>Valleys:</span>
+                            <span className="font-mono text-white">{(results.roof.valleyLength || 0).toFixed(1)} m</span>
+                          </div>
+                        )}
+                        {results.roof.warning && (
+                          <p className="text-[10px] text-amber-400">{results.roof.warning}</p>
+                        )}
+                      </div>
+                    )}
+                    <button
+                      onClick={() => onUpdateLevel({ roof: undefined })}
+                      className="text-xs text-red-400 hover:text-red-300"
+                    >
+                      Remove Roof
+                    </button>
+                  </>
+                )}
+              </div>
+            </details>
+          )}
+
+          {/* Slab Design (span classification and bar schedule per panel) */}
+          {results.slabDesigns.length > 0 && (
+            <details className="group">
+              <summary className="cursor-pointer bg-slate-800/50 rounded-lg p-3 text-sm text-slate-300 hover:bg-slate-800 transition-colors list-none flex items-center justify-between">
+                <span className="font-medium flex items-center gap-2">
+                  <Grid3x3 size={16} className="text-sky-400" />
+                  Slab Design ({results.slabDesigns.length})
+                </span>
+                <ChevronDown size={16} className="group-open:rotate-180 transition-transform" />
+              </summary>
+              <div className="mt-3 space-y-3 text-sm text-slate-300">
+                {results.slabDesigns.map(design => (
+                  <div key={design.slabId} className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50 space-y-1">
+                    <div className="flex justify-between">
+                      <span className="font-medium text-white">{design.label}</span>
+                      <span className="text-xs text-slate-400">
+                        {design.type === 'one-way' ? 'One-Way' : 'Two-Way'} · {design.lx.toFixed(2)} × {design.ly.toFixed(2)} m
+                      </span>
+                    </div>
+                    {design.supportedEdges === 0 && (
+                      <p className="text-[10px] text-amber-400">No supporting beams or walls found; designed as simply supported.</p>
+                    )}
+                    {design.bars.map(bar => (
+                      <div key={bar.mark} className="flex justify-between text-xs">
+                        <span>
+                          {bar.mark} <span className="text-slate-500">{bar.position} {bar.role}{bar.cranked ? ' (cranked)' : ''}</span>
+                        </span>
+                        <span className="font-mono text-white">{bar.count} Y{bar.diameter}@{bar.spacing} × {bar.length.toFixed(2)} m</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
+
+          {/* Beam Design (loads from tributary slab areas and walls on the beam line) */}
+          {results.beamDesigns.length > 0 && (
+            <details className="group">
+              <summary className="cursor-pointer bg-slate-800/50 rounded-lg p-3 text-sm text-slate-300 hover:bg-slate-800 transition-colors list-none flex items-center justify-between">
+                <span className="font-medium flex items-center gap-2">
+                  <Minus size={16} className="text-sky-400" />
+                  Beam Design ({results.beamDesigns.length})
+                  {results.beamDesigns.some(d => !d.adequate) && <AlertTriangle size={14} className="text-red-400" />}
+                </span>
+                <ChevronDown size={16} className="group-open:rotate-180 transition-transform" />
+              </summary>
+              <div className="mt-3 space-y-3 text-sm text-slate-300">
+                {results.beamDesigns.map(design => (
+                  <div key={design.beamId} className={`bg-slate-900/50 rounded-lg p-3 border space-y-1 ${design.adequate ? 'border-slate-700/50' : 'border-red-500/50'}`}>
+                    <div className="flex justify-between">
+                      <span className="font-medium text-white">{design.label}</span>
+                      <span className="text-xs text-slate-400">{design.span.toFixed(2)} m · {design.ultimateLoad.toFixed(1)} kN/m</span>
+                    </div>
+                    <div className="flex justify-between text-xs">
+                      <span>M · V:</span>
+                      <span className="font-mono text-white">{design.moment.toFixed(1)} kNm · {design.shear.toFixed(1)} kN</span>
+                    </div>
+                    <div className="flex justify-between text-xs">
+                      <span>Bottom · Top:</span>
+                      <span className="font-mono text-white">{design.bottom.count}Y{design.bottom.diameter} · {design.top.count}Y{design.top.diameter}</span>
+                    </div>
+                    <div className="flex justify-between text-xs">
+                      <span>Links:</span>
+                      <span className="font-mono text-white">Y{design.links.diameter}@{design.links.spacing}</span>
+                    </div>
+                    {design.issues.map((issue, i) => (
+                      <p key={i} className={`text-[10px] ${design.adequate ? 'text-amber-400' : 'text-red-400'}`}>{issue}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
+
+          {/* Foundation Design (footings sized from the loads reaching the ground) */}
+          {results.foundationDesigns.length > 0 && (
+            <details className="group">
+              <summary className="cursor-pointer bg-slate-800/50 rounded-lg p-3 text-sm text-slate-300 hover:bg-slate-800 transition-colors list-none flex items-center justify-between">
+                <span className="font-medium flex items-center gap-2">
+                  <Square size={16} className="text-amber-400" />
+                  Foundation Design ({results.foundationDesigns.length})
+                  {results.foundationDesigns.some(f => !f.adequate) && <AlertTriangle size={14} className="text-red-400" />}
+                </span>
+                <ChevronDown size={16} className="group-open:rotate-180 transition-transform" />
+              </summary>
+              <div className="mt-3 space-y-3 text-sm text-slate-300">
+                {results.foundationDesigns.map(f => (
+                  <div key={f.memberId} className={`bg-slate-900/50 rounded-lg p-3 border space-y-1 ${f.adequate ? 'border-slate-700/50' : 'border-red-500/50'}`}>
+                    <div className="flex justify-between">
+                      <span className="font-medium text-white">{f.label} <span className="text-xs text-slate-500">({f.member})</span></span>
+                      <span className="text-xs text-slate-400 capitalize">{f.type} · {f.serviceLoad.toFixed(1)} {f.type === 'pad' ? 'kN' : 'kN/m'}</span>
+                    </div>
+                    <div className="flex justify-between text-xs">
+                      <span>{f.type === 'pad' ? 'W × L × D:' : 'Width × Depth:'}</span>
+                      <span className="font-mono text-white">
+                        {f.type === 'pad' ? `${f.width} × ${f.length} × ${f.thickness}` : `${f.width} × ${f.thickness}`} mm
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-xs">
+                      <span>Bearing:</span>
+                      <span className="font-mono text-white">{f.bearingPressure.toFixed(0)} / {settings.soilBearingCapacity || DEFAULT_SOIL_BEARING_CAPACITY} kN/m²</span>
+                    </div>
+                    {f.punchingStress !== undefined && f.shearCapacity !== undefined && (
+                      <div className="flex justify-between text-xs">
+                        <span>Punching:</span>
+                        <span className="font-mono text-white">{f.punchingStress.toFixed(2)} / {f.shearCapacity.toFixed(2)} N/mm²</span>
+                      </div>
+                    )}
+                    {f.issues.map((issue, i) => (
+                      <p key={i} className="text-[10px] text-red-400">{issue}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
+
+          {/* Concrete Materials (per element, from its mix) */}
+          {results.concreteMaterials.length > 0 && (() => {
+            // Levels are listed separately in the project results; total them by element
+            const byElement = concreteElements
+              .map(element => {
+                const rows = results.concreteMaterials.filter(m => m.element === element);
+                return rows.length === 0 ? undefined : {
+                  element,
+                  mix: rows[0].mix,
+                  volume: rows.reduce((sum, m) => sum + m.volume, 0),
+                  cementBags: rows.reduce((sum, m) => sum + m.cementBags, 0),
+                  sandTons: rows.reduce((sum, m) => sum + m.sandTons, 0),
+                  aggregateTons: rows.reduce((sum, m) => sum + m.aggregateTons, 0),
+                  waterLiters: rows.reduce((sum, m) => sum + m.waterLiters, 0)
+                };
+              })
+              .filter(m => m !== undefined);
+            return (
+              <details className="group">
+                <summary className="cursor-pointer bg-slate-800/50 rounded-lg p-3 text-sm text-slate-300 hover:bg-slate-800 transition-colors list-none flex items-center justify-between">
+                  <span className="font-medium flex items-center gap-2">
+                    <Grid3x3 size={16} className="text-amber-400" />
+                    Concrete Materials
+                  </span>
+                  <ChevronDown size={16} className="group-open:rotate-180 transition-transform" />
+                </summary>
+                <div className="mt-3 space-y-3 text-sm text-slate-300">
+                  {byElement.map(m => (
+                    <div key={m.element} className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50 space-y-1">
+                      <div className="flex justify-between">
+                        <span className="font-medium text-white capitalize">{m.element}</span>
+                        <span className="text-xs text-slate-400">{m.mix} · {m.volume.toFixed(2)} m³</span>
+                      </div>
+                      <div className="flex justify-between text-xs">
+                        <span>Cement:</span>
+                        <span className="font-mono text-white">{Math.ceil(m.cementBags)} bags</span>
+                      </div>
+                      <div className="flex justify-between text-xs">
+                        <span>Sand / Granite:</span>
+                        <span className="font-mono text-white">{m.sandTons.toFixed(2)} / {m.aggregateTons.toFixed(2)} t</span>
+                      </div>
+                      <div className="flex justify-between text-xs">
+                        <span>Water:</span>
+                        <span className="font-mono text-white">{Math.ceil(m.waterLiters)} L</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </details>
+            );
+          })()}
+
+          {/* Doors & Windows (schedule by type and size) */}
+          {openingSchedule.length > 0 && (
+            <details className="group">
+              <summary className="cursor-pointer bg-slate-800/50 rounded-lg p-3 text-sm text-slate-300 hover:bg-slate-800 transition-colors list-none flex items-center justify-between">
+                <span className="font-medium flex items-center gap-2">
+                  <DoorOpen size={16} className="text-purple-400" />
+                  Doors &amp; Windows
+                </span>
+                <ChevronDown size={16} className="group-open:rotate-180 transition-transform" />
+              </summary>
+              <div className="mt-3 space-y-2 text-sm text-slate-300">
+                {openingSchedule.map(e => (
+                  <div key={`${e.spec.id}_${e.width}_${e.height}_${e.archRise ?? ''}`} className="flex justify-between text-xs">
+                    <span><span className="font-mono text-white">{e.spec.mark}</span> {e.width} × {e.height}</span>
+                    <span className="font-mono text-white">{e.count} no.</span>
+                  </div>
+                ))}
+                <div className="pt-2 border-t border-slate-700 space-y-1 text-xs">
+                  <div className="flex justify-between">
+                    <span>Frames:</span>
+                    <span className="font-mono text-white">{openingSchedule.reduce((sum, e) => sum + e.frameLength, 0).toFixed(1)} m</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Glazing:</span>
+                    <span className="font-mono text-white">{openingSchedule.reduce((sum, e) => sum + e.glazingArea, 0).toFixed(2)} m²</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Ironmongery sets:</span>
+                    <span className="font-mono text-white">{openingSchedule.reduce((sum, e) => sum + e.hardwareSets, 0)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Burglary-proof bars:</span>
+                    <span className="font-mono text-white">{openingSchedule.reduce((sum, e) => sum + e.burglaryBarArea, 0).toFixed(2)} m²</span>
+                  </div>
+                </div>
+              </div>
+            </details>
+          )}
+
+          {/* Structural Safety (every member checked against the design code) */}
+          {results.safetyReport && (() => {
+            const report = results.safetyReport;
+            const groups: [string, Record<string, MemberSafety>][] = [
+              ['Column', report.columns], ['Beam', report.beams], ['Slab', report.slabs], ['Wall', report.walls], ['Lintel', report.lintels]
+            ];
+            const flagged = groups.flatMap(([member, record]) =>
+              Object.entries(record).filter(([, m]) => m.status !== 'safe').map(([id, m]) => ({ id, member, ...m })));
+            return (
+              <details className="group">
+                <summary className="cursor-pointer bg-slate-800/50 rounded-lg p-3 text-sm text-slate-300 hover:bg-slate-800 transition-colors list-none flex items-center justify-between">
+                  <span className="font-medium flex items-center gap-2">
+                    <ShieldCheck size={16} className="text-amber-400" />
+                    Structural Safety ({report.overallScore})
+                    {flagged.some(m => m.status === 'critical') && <AlertTriangle size={14} className="text-red-400" />}
+                  </span>
+                  <ChevronDown size={16} className="group-open:rotate-180 transition-transform" />
+                </summary>
+                <div className="mt-3 space-y-3 text-sm text-slate-300">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-slate-500">{report.designCode}</span>
+                    <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={settings.showSafetyWarnings ?? false}
+                        onChange={(e) => onUpdateSettings({ ...settings, showSafetyWarnings: e.target.checked })}
+                      />
+                      Highlight on plan
+                    </label>
+                  </div>
+                  {report.lateral.map((l, li) => (
+                    <div key={l.levelId || li} className={`bg-slate-900/50 rounded-lg p-3 border space-y-1 ${l.status === 'critical' ? 'border-red-500/50' : l.status === 'warning' ? 'border-amber-500/50' : 'border-slate-700/50'}`}>
+                      <div className="font-medium text-white">Lateral Stability{l.level ? ` (${l.level})` : ''}</div>
+                      {l.directions.map(d => (
+                        <div key={d.direction} className="flex justify-between text-xs">
+                          <span>{d.direction.toUpperCase()}: {d.shearWallLength.toFixed(1)}m shear walls</span>
+                          <span className="font-mono text-white">{d.wallRatio.toFixed(2)}% · e {(100 * d.eccentricityRatio).toFixed(0)}%</span>
+                        </div>
+                      ))}
+                      {l.issues.map((issue, i) => (
+                        <div key={i} className="text-[10px]">
+                          <p className="text-slate-300">{issue.message}</p>
+                          <p className="text-slate-500 font-mono">{issue.clause}</p>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                  {flagged.length === 0 && (
+                    <p className="text-xs text-emerald-400 flex items-center gap-1"><CheckCircle2 size={14} /> All members within limits</p>
+                  )}
+                  {flagged.map(m => (
+                    <div key={m.id} className={`bg-slate-900/50 rounded-lg p-3 border space-y-1 ${m.status === 'critical' ? 'border-red-500/50' : 'border-amber-500/50'}`}>
+                      <div className="flex justify-between">
+                        <span className="font-medium text-white">{m.label || m.member}</span>
+                        <span className={`text-xs capitalize ${m.status === 'critical' ? 'text-red-400' : 'text-amber-400'}`}>{m.member} · {m.status}</span>
+                      </div>
+                      {m.issues.map((issue, i) => (
+                        <div key={i} className="text-[10px]">
+                          <p className="text-slate-300">{issue.message}</p>
+                          <p className="text-slate-500 font-mono">{issue.clause}</p>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </details>
+            );
+          })()}
+
+          {/* Block Layout (course-by-course elevation of the selected wall) */}
+          {settings.blockCountMethod === 'layout' && (() => {
+            const selectedWall = walls.find(w => w.id === selectedId);
+            return (
+              <details className="group" open>
+                <summary className="cursor-pointer bg-slate-800/50 rounded-lg p-3 text-sm text-slate-300 hover:bg-slate-800 transition-colors list-none flex items-center justify-between">
+                  <span className="font-medium flex items-center gap-2">
+                    <LayoutGrid size={16} className="text-amber-400" />
+                    Block Layout
+                  </span>
+                  <ChevronDown size={16} className="group-open:rotate-180 transition-transform" />
+                </summary>
+                <div className="mt-3 space-y-3 text-sm text-slate-300">
+                  {results.blockLayout && (
+                    <div className="space-y-1">
+                      <div className="flex justify-between">
+                        <span>Full / cut blocks:</span>
+                        <span className="font-mono text-white">{results.blockLayout.fullBlocks} · {results.blockLayout.cutBlocks}</span>
+                      </div>
+                      <div className="flex justify-between text-xs">
+                        <span>CSG volume count (9" · 6"):</span>
+                        <span className="font-mono text-white">{results.blockLayout.volumeBlockCount9Inch} · {results.blockLayout.volumeBlockCount6Inch}</span>
+                      </div>
+                    </div>
+                  )}
+                  {selectedWall ? (
+                    <WallElevation wall={selectedWall} walls={walls} openings={openings} columns={columns} settings={settings} />
+                  ) : (
+                    <p className="text-xs text-slate-500 italic">Select a wall to see its elevation.</p>
+                  )}
+                </div>
+              </details>
+            );
+          })()}
+
           {/* Display Settings */}
           <div className="bg-slate-800/30 rounded-xl p-4 border border-slate-700/50">
             <h3 className="text-white font-semibold flex items-center gap-2 mb-4 text-sm">
@@ -275,6 +1064,31 @@ const Sidebar: React.FC<SidebarProps> = ({
             </summary>
             <div className="mt-3 space-y-4 bg-slate-900/50 rounded-lg p-4">
 
+              {/* Active Level */}
+              {activeLevel && onUpdateLevel && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Level Name</label>
+                    <input
+                      type="text"
+                      value={activeLevel.name}
+                      onChange={(e) => onUpdateLevel({ name: e.target.value })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Floor-to-Floor (mm)</label>
+                    <input
+                      type="number"
+                      value={activeLevel.floorToFloorHeight || ''}
+                      placeholder={`${settings.wallHeightDefault + settings.floorThickness}`}
+                      onChange={(e) => onUpdateLevel({ floorToFloorHeight: parseInt(e.target.value) || undefined })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* Wall/Building Height */}
               <div>
                 <label className="block text-xs text-slate-400 mb-1">Wall Height (mm)</label>
@@ -286,6 +1100,19 @@ const Sidebar: React.FC<SidebarProps> = ({
                 />
               </div>
 
+              {/* Block Count Method */}
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Block Count Method</label>
+                <select
+                  value={settings.blockCountMethod || 'volume'}
+                  onChange={(e) => onUpdateSettings({ ...settings, blockCountMethod: e.target.value as 'volume' | 'layout' })}
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                >
+                  <option value="volume">Volume (CSG)</option>
+                  <option value="layout">Layout (Course by Course)</option>
+                </select>
+              </div>
+
               {/* Mortar Thickness */}
               <div>
                 <label className="block text-xs text-slate-400 mb-1">Mortar Thickness (mm)</label>
@@ -341,6 +1168,189 @@ const Sidebar: React.FC<SidebarProps> = ({
                 </div>
               </div>
 
+              {/* Arch Dimensions */}
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Arch Width (mm)</label>
+                  <input
+                    type="number"
+                    value={toolSettings.archWidth ?? 900}
+                    onChange={(e) => onUpdateToolSettings({ ...toolSettings, archWidth: parseInt(e.target.value) || 900 })}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Springing (mm)</label>
+                  <input
+                    type="number"
+                    value={toolSettings.archSpringHeight ?? 2100}
+                    onChange={(e) => onUpdateToolSettings({ ...toolSettings, archSpringHeight: parseInt(e.target.value) || 2100 })}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">Rise (mm)</label>
+                  <input
+                    type="number"
+                    value={toolSettings.archRise ?? ''}
+                    placeholder={`${(toolSettings.archWidth ?? 900) / 2}`}
+                    onChange={(e) => onUpdateToolSettings({ ...toolSettings, archRise: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-500">Leave the rise empty for a semicircular arch; a lower rise gives a segmental one.</p>
+
+              {/* Window Sill */}
+              <div>
+                <label className="block text-xs text-slate-400 mb-1">Window Sill Height (mm)</label>
+                <input
+                  type="number"
+                  value={settings.windowSillHeight ?? 900}
+                  onChange={(e) => onUpdateSettings({ ...settings, windowSillHeight: parseInt(e.target.value) || 0 })}
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                />
+              </div>
+
+              {/* Door & Window Types (marks for the schedule, assigned per opening) */}
+              <div className="border-t border-slate-700 pt-4 mt-4 space-y-2">
+                <h4 className="text-xs text-slate-400 mb-2 uppercase tracking-wider">Door &amp; Window Types</h4>
+                {openingSpecs.map(spec => (
+                  <div key={spec.id} className="bg-slate-950/50 rounded p-2 border border-slate-700/50 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={spec.mark}
+                        onChange={(e) => updateOpeningSpec(spec.id, { mark: e.target.value })}
+                        className="w-14 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-white font-mono focus:border-brand-500 focus:outline-none"
+                      />
+                      <input
+                        type="text"
+                        value={spec.description || ''}
+                        placeholder={spec.kind}
+                        onChange={(e) => updateOpeningSpec(spec.id, { description: e.target.value || undefined })}
+                        className="grow min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:border-brand-500 focus:outline-none"
+                      />
+                      <button
+                        onClick={() => onUpdateSettings({ ...settings, openingSpecs: openingSpecs.filter(s => s.id !== spec.id) })}
+                        className="text-slate-500 hover:text-red-400"
+                        title="Remove type (its openings become untyped)"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <select
+                        value={spec.frame}
+                        onChange={(e) => updateOpeningSpec(spec.id, { frame: e.target.value as FrameMaterial })}
+                        className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-xs text-white"
+                      >
+                        <option value="timber">Timber</option>
+                        <option value="steel">Steel</option>
+                        <option value="aluminium">Aluminium</option>
+                        <option value="none">No frame</option>
+                      </select>
+                      <select
+                        value={spec.glazing}
+                        onChange={(e) => updateOpeningSpec(spec.id, { glazing: e.target.value as GlazingType })}
+                        className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-xs text-white"
+                      >
+                        <option value="none">Unglazed</option>
+                        <option value="clear">Clear</option>
+                        <option value="tinted">Tinted</option>
+                        <option value="obscure">Obscure</option>
+                      </select>
+                      <select
+                        value={spec.ironmongery}
+                        onChange={(e) => updateOpeningSpec(spec.id, { ironmongery: e.target.value as IronmongerySet })}
+                        className="bg-slate-950 border border-slate-700 rounded px-1 py-1 text-xs text-white"
+                      >
+                        <option value="none">No hardware</option>
+                        <option value="latch">Latch</option>
+                        <option value="lockset">Lockset</option>
+                        <option value="security">Security</option>
+                        <option value="window">Window set</option>
+                      </select>
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-slate-400">
+                      <label className="flex items-center gap-1">
+                        Leaves
+                        <input
+                          type="number"
+                          min={0}
+                          value={spec.leaves}
+                          onChange={(e) => updateOpeningSpec(spec.id, { leaves: parseInt(e.target.value) || 0 })}
+                          className="w-12 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs text-white"
+                        />
+                      </label>
+                      <label className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={spec.burglaryBars}
+                          onChange={(e) => updateOpeningSpec(spec.id, { burglaryBars: e.target.checked })}
+                        />
+                        Burglary bars
+                      </label>
+                    </div>
+                  </div>
+                ))}
+                <div className="grid grid-cols-3 gap-2">
+                  {(['door', 'window', 'arch'] as OpeningType[]).map(kind => (
+                    <button
+                      key={kind}
+                      onClick={() => addOpeningSpec(kind)}
+                      className="bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 capitalize"
+                    >
+                      + {kind}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500">Select an opening on the plan to give it a type.</p>
+              </div>
+
+              {/* Plaster Settings */}
+              <div className="border-t border-slate-700 pt-4 mt-4">
+                <h4 className="text-xs text-slate-400 mb-2 uppercase tracking-wider">Plaster &amp; Render</h4>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Internal (mm)</label>
+                    <input
+                      type="number"
+                      value={settings.internalPlasterThickness ?? 12}
+                      onChange={(e) => onUpdateSettings({ ...settings, internalPlasterThickness: parseInt(e.target.value) || 0 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">External (mm)</label>
+                    <input
+                      type="number"
+                      value={settings.externalRenderThickness ?? 20}
+                      onChange={(e) => onUpdateSettings({ ...settings, externalRenderThickness: parseInt(e.target.value) || 0 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Internal Mix (1:x)</label>
+                    <input
+                      type="number"
+                      value={settings.plasterRatio || 6}
+                      onChange={(e) => onUpdateSettings({ ...settings, plasterRatio: parseInt(e.target.value) || 6 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">External Mix (1:x)</label>
+                    <input
+                      type="number"
+                      value={settings.renderRatio || 4}
+                      onChange={(e) => onUpdateSettings({ ...settings, renderRatio: parseInt(e.target.value) || 4 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                </div>
+              </div>
+
               {/* Lintel Settings */}
               <div className="border-t border-slate-700 pt-4 mt-4">
                 <h4 className="text-xs text-slate-400 mb-2 uppercase tracking-wider">Lintel Settings</h4>
@@ -396,6 +1406,407 @@ const Sidebar: React.FC<SidebarProps> = ({
                 </div>
               </div>
 
+              {/* Slab Design Settings */}
+              <div className="border-t border-slate-700 pt-4 mt-4">
+                <h4 className="text-xs text-slate-400 mb-2 uppercase tracking-wider">Slab Design</h4>
+
+                <div className="mb-3">
+                  <label className="block text-xs text-slate-400 mb-1">Design Code</label>
+                  <select
+                    value={settings.designCode || 'BS8110'}
+                    onChange={(e) => onUpdateSettings({ ...settings, designCode: e.target.value as DesignCodeId })}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                  >
+                    {Object.values(DESIGN_CODES).map(code => (
+                      <option key={code.id} value={code.id}>{code.name}</option>
+                    ))}
+                  </select>
+                  <p className="text-[10px] text-slate-500 mt-1">
+                    {designCode.loadFactors.dead}G + {designCode.loadFactors.imposed}Q ({designCode.loadClause});
+                    γc {designCode.partialFactors.concrete.toFixed(2)}, γs {designCode.partialFactors.steel.toFixed(2)} ({designCode.materialClause})
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Imposed (kN/m²)</label>
+                    <input
+                      type="number"
+                      step="0.5"
+                      value={slabRules.imposedLoad}
+                      onChange={(e) => updateSlabRules({ imposedLoad: parseFloat(e.target.value) || 0 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Finishes (kN/m²)</label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={slabRules.finishesLoad}
+                      onChange={(e) => updateSlabRules({ finishesLoad: parseFloat(e.target.value) || 0 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Cover (mm)</label>
+                    <input
+                      type="number"
+                      value={slabRules.cover}
+                      onChange={(e) => updateSlabRules({ cover: parseInt(e.target.value) || 25 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Min Spacing</label>
+                    <input
+                      type="number"
+                      step="25"
+                      value={slabRules.minSpacing}
+                      onChange={(e) => updateSlabRules({ minSpacing: parseInt(e.target.value) || 125 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Max Spacing</label>
+                    <input
+                      type="number"
+                      step="25"
+                      value={slabRules.maxSpacing}
+                      onChange={(e) => updateSlabRules({ maxSpacing: parseInt(e.target.value) || 300 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Lap (× Ø)</label>
+                    <input
+                      type="number"
+                      value={slabRules.lapFactor}
+                      onChange={(e) => updateSlabRules({ lapFactor: parseInt(e.target.value) || 40 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Floor Finish Settings */}
+              <div className="border-t border-slate-700 pt-4 mt-4">
+                <h4 className="text-xs text-slate-400 mb-2 uppercase tracking-wider">Floor Finishes</h4>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Screed (mm)</label>
+                    <input
+                      type="number"
+                      value={floorRules.screedThickness}
+                      onChange={(e) => updateFloorRules({ screedThickness: parseInt(e.target.value) || 0 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Screed (1:x)</label>
+                    <input
+                      type="number"
+                      value={floorRules.screedRatio}
+                      onChange={(e) => updateFloorRules({ screedRatio: parseFloat(e.target.value) || 4 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Terrazzo (mm)</label>
+                    <input
+                      type="number"
+                      value={floorRules.terrazzoThickness}
+                      onChange={(e) => updateFloorRules({ terrazzoThickness: parseInt(e.target.value) || 0 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Joint (mm)</label>
+                    <input
+                      type="number"
+                      step="0.5"
+                      value={floorRules.jointWidth}
+                      onChange={(e) => updateFloorRules({ jointWidth: parseFloat(e.target.value) || 0 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Tile Waste (%)</label>
+                    <input
+                      type="number"
+                      value={floorRules.tileWastage}
+                      onChange={(e) => updateFloorRules({ tileWastage: parseFloat(e.target.value) || 0 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Adhesive (kg/m²)</label>
+                    <input
+                      type="number"
+                      step="0.5"
+                      value={floorRules.adhesiveRate}
+                      onChange={(e) => updateFloorRules({ adhesiveRate: parseFloat(e.target.value) || 0 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Paint Settings */}
+              <div className="border-t border-slate-700 pt-4 mt-4">
+                <h4 className="text-xs text-slate-400 mb-2 uppercase tracking-wider">Paint Systems</h4>
+
+                <div className="grid grid-cols-4 gap-2 mb-1 text-[10px] uppercase text-slate-500">
+                  <span></span>
+                  <span title="Finish coats">Coats</span>
+                  <span title="Finish coat spread rate">m²/L</span>
+                  <span title="Primer/sealer spread rate, one coat">Primer m²/L</span>
+                </div>
+                <div className="space-y-2 mb-3">
+                  {wallFinishes.map(finish => {
+                    const system = paintRules.systems[finish];
+                    return (
+                      <div key={finish} className="grid grid-cols-4 gap-2 items-center">
+                        <span className="text-xs text-slate-300 capitalize">{finish}</span>
+                        <input
+                          type="number"
+                          value={system.coats}
+                          onChange={(e) => updatePaintSystem(finish, { coats: parseInt(e.target.value) || 0 })}
+                          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                        />
+                        <input
+                          type="number"
+                          step="0.5"
+                          value={system.coverage}
+                          onChange={(e) => updatePaintSystem(finish, { coverage: parseFloat(e.target.value) || 0 })}
+                          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                        />
+                        <input
+                          type="number"
+                          step="0.5"
+                          value={system.primerCoats > 0 ? system.primerCoverage : 0}
+                          onChange={(e) => {
+                            const primerCoverage = parseFloat(e.target.value) || 0;
+                            updatePaintSystem(finish, { primerCoverage, primerCoats: primerCoverage > 0 ? 1 : 0 });
+                          }}
+                          title="0 = no primer/sealer"
+                          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">External Finish</label>
+                    <select
+                      value={paintRules.externalFinish}
+                      onChange={(e) => updatePaintRules({ externalFinish: e.target.value as WallFinish })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none capitalize"
+                    >
+                      {wallFinishes.map(finish => <option key={finish} value={finish}>{finish}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">External Colour</label>
+                    <input
+                      type="text"
+                      value={paintRules.externalColour}
+                      onChange={(e) => updatePaintRules({ externalColour: e.target.value })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Ceiling Finish</label>
+                    <select
+                      value={paintRules.ceilingFinish}
+                      onChange={(e) => updatePaintRules({ ceilingFinish: e.target.value as WallFinish })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none capitalize"
+                    >
+                      {wallFinishes.map(finish => <option key={finish} value={finish}>{finish}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Default Colour</label>
+                    <input
+                      type="text"
+                      value={paintRules.defaultColour}
+                      onChange={(e) => updatePaintRules({ defaultColour: e.target.value })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Bucket (L)</label>
+                    <input
+                      type="number"
+                      value={paintRules.bucketSize}
+                      onChange={(e) => updatePaintRules({ bucketSize: parseFloat(e.target.value) || 20 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Concrete Mix Settings */}
+              <div className="border-t border-slate-700 pt-4 mt-4">
+                <h4 className="text-xs text-slate-400 mb-2 uppercase tracking-wider">Concrete Mix</h4>
+
+                <div className="mb-3">
+                  <label className="block text-xs text-slate-400 mb-1">Method</label>
+                  <select
+                    value={settings.concreteMixMethod || 'nominal'}
+                    onChange={(e) => onUpdateSettings({ ...settings, concreteMixMethod: e.target.value as 'nominal' | 'design' })}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                  >
+                    <option value="nominal">Nominal Ratio (all elements)</option>
+                    <option value="design">Mix Design by Grade</option>
+                  </select>
+                </div>
+
+                {settings.concreteMixMethod === 'design' ? (
+                  <div className="space-y-2">
+                    {concreteElements.map(element => {
+                      const mix = resolveMix(element, settings);
+                      return (
+                        <div key={element} className="grid grid-cols-3 gap-2 items-end">
+                          <span className="text-xs text-slate-300 capitalize pb-2">{element}</span>
+                          <select
+                            value={mix.grade}
+                            onChange={(e) => updateMix(element, { grade: e.target.value as ConcreteGrade, wcRatio: undefined })}
+                            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                          >
+                            {Object.keys(CONCRETE_GRADES).map(grade => (
+                              <option key={grade} value={grade}>{grade}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            step="0.05"
+                            title="Water/cement ratio"
+                            value={designMix(mix).wcRatio}
+                            onChange={(e) => updateMix(element, { wcRatio: parseFloat(e.target.value) || undefined })}
+                            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                          />
+                        </div>
+                      );
+                    })}
+                    <p className="text-xs text-slate-500">Each element is designed for its grade's strength.</p>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Mix Ratio (cement:sand:granite)</label>
+                    <input
+                      type="text"
+                      value={settings.floorMixRatio}
+                      onChange={(e) => onUpdateSettings({ ...settings, floorMixRatio: e.target.value })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Foundation Settings */}
+              <div className="border-t border-slate-700 pt-4 mt-4">
+                <h4 className="text-xs text-slate-400 mb-2 uppercase tracking-wider">Foundations</h4>
+
+                <div className="mb-3">
+                  <label className="block text-xs text-slate-400 mb-1">Foundation Type</label>
+                  <select
+                    value={settings.foundationType}
+                    onChange={(e) => onUpdateSettings({ ...settings, foundationType: e.target.value as 'strip' | 'pad' })}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                  >
+                    <option value="strip">Strip (walls) + Pads (free columns)</option>
+                    <option value="pad">Pads (columns only)</option>
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Bearing (kN/m²)</label>
+                    <input
+                      type="number"
+                      step="25"
+                      value={settings.soilBearingCapacity ?? DEFAULT_SOIL_BEARING_CAPACITY}
+                      onChange={(e) => onUpdateSettings({ ...settings, soilBearingCapacity: parseFloat(e.target.value) || DEFAULT_SOIL_BEARING_CAPACITY })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-400 mb-1">Founding Depth (mm)</label>
+                    <input
+                      type="number"
+                      step="50"
+                      value={settings.foundationDepth}
+                      onChange={(e) => onUpdateSettings({ ...settings, foundationDepth: parseInt(e.target.value) || 900 })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Lateral Stability Settings */}
+              <div className="border-t border-slate-700 pt-4 mt-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-xs text-slate-400 uppercase tracking-wider">Lateral Stability</h4>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.lateralAnalysis ?? false}
+                      onChange={(e) => onUpdateSettings({ ...settings, lateralAnalysis: e.target.checked })}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-slate-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-brand-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-brand-600"></div>
+                  </label>
+                </div>
+
+                {settings.lateralAnalysis && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs text-slate-400 mb-1">Min Shear Walls (%)</label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        value={lateralLimits.minWallRatio}
+                        onChange={(e) => updateLateralLimits({ minWallRatio: parseFloat(e.target.value) || 0 })}
+                        className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-slate-400 mb-1">Max Eccentricity (%)</label>
+                      <input
+                        type="number"
+                        step="1"
+                        value={Math.round(lateralLimits.maxEccentricity * 100)}
+                        onChange={(e) => updateLateralLimits({ maxEccentricity: (parseFloat(e.target.value) || 0) / 100 })}
+                        className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-slate-400 mb-1">Max Openings (%)</label>
+                      <input
+                        type="number"
+                        step="5"
+                        value={lateralLimits.maxOpeningRatio}
+                        onChange={(e) => updateLateralLimits({ maxOpeningRatio: parseFloat(e.target.value) || 0 })}
+                        className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-slate-400 mb-1">Min Pier (mm)</label>
+                      <input
+                        type="number"
+                        step="50"
+                        value={lateralLimits.minPierLength}
+                        onChange={(e) => updateLateralLimits({ minPierLength: parseInt(e.target.value) || 0 })}
+                        className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-brand-500 focus:outline-none"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
               {/* Column Settings */}
               <div className="border-t border-slate-700 pt-4 mt-4">
                 <h4 className="text-xs text-slate-400 mb-2 uppercase tracking-wider">Column Settings</h4>
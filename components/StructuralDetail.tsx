@@ -1,21 +1,24 @@
 import React from 'react';
-import { ProjectSettings, Column, ToolSettings } from '../types';
+import { ProjectSettings, Column, ToolSettings, FoundationDesign } from '../types';
+import { resolveMix } from '../utils/mixDesign';
+import { MIN_PAD_SIZE } from '../utils/foundationDesign';
 
 interface StructuralDetailProps {
     settings: ProjectSettings;
     toolSettings: ToolSettings;
     column?: Column; // If a specific column is selected, use its dims. Otherwise use defaults/first one.
+    pad?: FoundationDesign; // Designed pad under the column
     mode?: 'full' | 'column' | 'foundation';
 }
 
-const StructuralDetail: React.FC<StructuralDetailProps> = ({ settings, toolSettings, column, mode = 'full' }) => {
+const StructuralDetail: React.FC<StructuralDetailProps> = ({ settings, toolSettings, column, pad, mode = 'full' }) => {
     // Dimensions (in mm, converted to local SVG units)
     // Scale: 1 unit = 1mm for simplicity in SVG, then scaled down via viewBox
     const colW = column?.width || toolSettings.columnWidth || 225;
     const colH = column?.height || toolSettings.columnHeight || 225;
 
-    const padW = column?.padWidth || settings.padWidth || 1000;
-    const padL = column?.padLength || settings.padLength || 1000;
+    const padW = pad?.width || column?.padWidth || MIN_PAD_SIZE;
+    const padL = pad?.length || column?.padLength || MIN_PAD_SIZE;
     const padD = settings.foundationDepth || 900;
 
     const cover = 25; // Concrete cover mm
@@ -170,7 +173,7 @@ const StructuralDetail: React.FC<StructuralDetailProps> = ({ settings, toolSetti
             </svg>
             <p className="text-xs mt-2 text-center text-gray-600">
                 Pad: {padW}x{padL}x{padD}mm<br />
-                Conc. Mix: {settings.floorMixRatio}
+                Conc. Mix: {settings.concreteMixMethod === 'design' ? resolveMix('foundation', settings).grade : settings.floorMixRatio}
             </p>
         </div>
     );
@@ -15,11 +15,16 @@ import {
   RectangleVertical,
   Scissors,
   Spline,
+  Rainbow,
+  Church,
   Square,
   Database,
-  Camera
+  Camera,
+  Layers,
+  Plus,
+  FileSpreadsheet
 } from 'lucide-react';
-import { ToolMode, ToolSettings, WallType } from '../types';
+import { ToolMode, ToolSettings, WallType, Level } from '../types';
 
 interface ToolbarProps {
   activeTool: ToolMode;
@@ -32,12 +37,17 @@ interface ToolbarProps {
   onSave: () => void;
   onLoad: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onExportTrainingData: () => void;
+  onExportBarSchedule?: () => void;
   onOpenSketchUpload: () => void;
   toolSettings: ToolSettings;
   setToolSettings: (s: ToolSettings) => void;
   showOverlay?: boolean;
   setShowOverlay?: (show: boolean) => void;
   hasOverlay?: boolean;
+  levels?: Level[];
+  activeLevelId?: string;
+  onSelectLevel?: (id: string) => void;
+  onAddLevel?: () => void;
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({
@@ -51,12 +61,17 @@ const Toolbar: React.FC<ToolbarProps> = ({
   onSave,
   onLoad,
   onExportTrainingData,
+  onExportBarSchedule,
   onOpenSketchUpload,
   toolSettings,
   setToolSettings,
   showOverlay,
   setShowOverlay,
-  hasOverlay
+  hasOverlay,
+  levels = [],
+  activeLevelId,
+  onSelectLevel,
+  onAddLevel
 }) => {
   const toggleWallType = () => {
     setToolSettings({
@@ -74,6 +89,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
 
   const structureTools = [
     { id: 'wall', icon: <BrickWall size={20} className="md:w-6 md:h-6" />, label: 'Wall' },
+    { id: 'arc', icon: <Rainbow size={20} className="md:w-6 md:h-6" />, label: 'Arc Wall' },
     { id: 'column', icon: <RectangleVertical size={20} className="md:w-6 md:h-6" />, label: 'Column' },
     { id: 'beam', icon: <Spline size={20} className="md:w-6 md:h-6" />, label: 'Beam' },
     { id: 'slab', icon: <Square size={20} className="md:w-6 md:h-6" />, label: 'Slab' },
@@ -82,6 +98,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
   const openingTools = [
     { id: 'door', icon: <DoorOpen size={20} className="md:w-6 md:h-6" />, label: 'Door' },
     { id: 'window', icon: <AppWindow size={20} className="md:w-6 md:h-6" />, label: 'Window' },
+    { id: 'arch', icon: <Church size={20} className="md:w-6 md:h-6" />, label: 'Arch' },
   ];
 
   const annotationTools = [
@@ -118,6 +135,43 @@ const Toolbar: React.FC<ToolbarProps> = ({
   return (
     <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 flex-row md:translate-x-0 md:static md:absolute md:left-4 md:top-20 md:flex-col gap-2 backdrop-blur-xl p-2 rounded-2xl md:rounded-xl shadow-2xl z-40 flex items-center overflow-x-auto max-w-[90vw] scrollbar-hide" style={{ background: 'var(--bg-secondary)', borderColor: 'var(--border-primary)', border: '1px solid var(--border-primary)' }}>
 
+      {/* Level Switcher */}
+      {onSelectLevel && (
+        <>
+          <div className="flex gap-1 md:flex-col md:gap-2 items-center">
+            <div className="relative group">
+              <Layers size={14} className="absolute left-2 top-1/2 -translate-y-1/2 pointer-events-none" style={{ color: 'var(--text-secondary)' }} />
+              <select
+                value={activeLevelId}
+                onChange={(e) => onSelectLevel(e.target.value)}
+                className="pl-6 pr-1 min-w-[44px] min-h-[44px] max-w-[56px] rounded-full md:rounded-lg text-xs font-bold cursor-pointer focus:outline-none focus:ring-2 focus:ring-brand-500 appearance-none"
+                style={{ background: 'var(--bg-tertiary)', color: 'var(--text-primary)', border: '1px solid var(--border-primary)' }}
+                title="Active Level"
+              >
+                {levels.map((level, index) => (
+                  <option key={level.id} value={level.id}>{index === 0 ? 'G' : index} - {level.name}</option>
+                ))}
+              </select>
+              <span className="hidden md:block absolute left-full ml-2 px-2 py-1 bg-black text-xs text-white rounded opacity-0 group-hover:opacity-100 pointer-events-none whitespace-nowrap z-50">
+                {levels.find(l => l.id === activeLevelId)?.name}
+              </span>
+            </div>
+            {onAddLevel && (
+              <button
+                onClick={onAddLevel}
+                className="p-3 min-w-[44px] min-h-[44px] rounded-full md:rounded-lg transition-all duration-200 group relative flex items-center justify-center"
+                style={{ color: 'var(--text-secondary)' }}
+                title="Add Level Above"
+              >
+                <Plus size={20} className="md:w-6 md:h-6" />
+              </button>
+            )}
+          </div>
+
+          <div className="w-px h-8 md:w-8 md:h-px md:my-1" style={{ background: 'var(--border-primary)' }} />
+        </>
+      )}
+
       {/* Edit Group */}
       <div className="flex gap-1 md:flex-col md:gap-2">
         {editTools.map(renderToolButton)}
@@ -140,7 +194,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
         {structureTools.map(renderToolButton)}
 
         {/* Wall Type Toggle - only visible when wall tool is active */}
-        {activeTool === 'wall' && (
+        {(activeTool === 'wall' || activeTool === 'arc') && (
           <button
             onClick={toggleWallType}
             className={`p-2 min-w-[44px] min-h-[44px] rounded-full md:rounded-lg transition-all duration-200 group relative flex flex-col items-center justify-center text-xs font-medium
@@ -277,6 +331,16 @@ const Toolbar: React.FC<ToolbarProps> = ({
           <Database size={20} className="md:w-6 md:h-6" />
         </button>
 
+        {onExportBarSchedule && (
+          <button
+            onClick={onExportBarSchedule}
+            className="p-3 min-w-[44px] min-h-[44px] rounded-full md:rounded-lg transition-all duration-200 text-emerald-400 hover:bg-emerald-900/30 hover:text-emerald-200 group relative flex items-center justify-center"
+            title="Export Bar Bending Schedule (CSV)"
+          >
+            <FileSpreadsheet size={20} className="md:w-6 md:h-6" />
+          </button>
+        )}
+
         <button
           onClick={onClear}
           className="p-3 min-w-[44px] min-h-[44px] rounded-full md:rounded-lg transition-all duration-200 text-red-400 hover:bg-red-900/30 hover:text-red-200"
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { Wall, Opening, Column, ProjectSettings } from '../types';
+import { layoutWall } from '../utils/blockLayout';
+import { getOpeningOutline } from '../utils/openingCsg';
+
+interface WallElevationProps {
+    wall: Wall;
+    walls: Wall[];
+    openings: Opening[];
+    columns?: Column[];
+    settings: ProjectSettings;
+}
+
+/**
+ * Elevation of one wall as laid course by course.
+ * Full blocks are grey, cut blocks amber, openings outlined (arches with
+ * their curved head).
+ */
+const WallElevation: React.FC<WallElevationProps> = ({ wall, walls, openings, columns = [], settings }) => {
+    const layout = useMemo(
+        () => layoutWall(wall, walls, openings, settings, columns),
+        [wall, walls, openings, settings, columns]
+    );
+
+    const hosted = openings.filter(o => o.wallId === wall.id);
+    if (layout.blocks.length === 0) return null;
+
+    const minS = Math.min(0, ...layout.blocks.map(b => b.s));
+    const maxS = Math.max(layout.length, ...layout.blocks.map(b => b.s + b.length));
+    const maxZ = Math.max(...layout.blocks.map(b => b.z + b.height));
+    const pad = 100;
+
+    return (
+        <div className="flex flex-col gap-2">
+            <svg
+                viewBox={`${minS - pad} ${-maxZ - pad} ${maxS - minS + pad * 2} ${maxZ + pad * 2}`}
+                className="w-full bg-slate-950 rounded border border-slate-700"
+                preserveAspectRatio="xMidYMid meet"
+            >
+                {layout.blocks.map((b, i) => (
+                    <rect
+                        key={i}
+                        x={b.s}
+                        y={-(b.z + b.height)}
+                        width={b.length}
+                        height={b.height}
+                        fill={b.cut ? '#f59e0b' : '#64748b'}
+                        stroke="#0f172a"
+                        strokeWidth={8}
+                    />
+                ))}
+                {hosted.map(o => {
+                    const [ring] = getOpeningOutline(o, settings);
+                    return (
+                        <polygon
+                            key={o.id}
+                            points={ring.map(([s, z]) => `${s},${-z}`).join(' ')}
+                            fill="none"
+                            stroke="#38bdf8"
+                            strokeWidth={20}
+                            strokeDasharray="60,40"
+                        />
+                    );
+                })}
+                <line x1={minS - pad} y1={0} x2={maxS + pad} y2={0} stroke="#94a3b8" strokeWidth={10} />
+            </svg>
+            <div className="grid grid-cols-3 gap-2 text-xs text-slate-400">
+                <div>Courses: <span className="font-mono text-white">{layout.courses}</span></div>
+                <div>Full: <span className="font-mono text-white">{layout.fullBlocks}</span></div>
+                <div>Cut: <span className="font-mono text-amber-400">{layout.cutBlocks}</span></div>
+            </div>
+        </div>
+    );
+};
+
+export default WallElevation;
@@ -1,6 +1,7 @@
 
 import { GoogleGenAI } from "@google/genai";
 import { CalculationResult, ProjectSettings } from "../types";
+import { summariseBarSchedule, stockBarLength } from "../utils/barSchedule";
 
 export const getConstructionInsights = async (
   results: CalculationResult,
@@ -12,6 +13,10 @@ export const getConstructionInsights = async (
 
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+  const barTotals = summariseBarSchedule(results.barSchedule, settings)
+    .map(t => `Y${t.diameter}: ${t.mass.toFixed(0)} kg (${t.stockBars} x ${stockBarLength(settings) / 1000}m)`)
+    .join(', ');
+
   const prompt = `
     You are a senior Quantity Surveyor and Civil Engineer in Nigeria. 
     Analyze the following construction data for a residential building floor plan (bungalow).
@@ -24,14 +29,18 @@ export const getConstructionInsights = async (
     - Lintel Concrete Volume: ${results.concreteVolume.toFixed(2)} m3
     - Lintel Reinforcement Main: ${settings.mainBarCount} bars of Y${settings.mainBarDiameter}, Total Length: ${results.reinforcementMainLength.toFixed(1)} meters
     - Lintel Stirrups: Y${settings.stirrupBarDiameter}, Total Length: ${results.reinforcementStirrupLength.toFixed(1)} meters
+    - Reinforcement by Diameter (bar bending schedule, all members): ${barTotals || 'none'}
+    - Internal Plaster: ${results.plaster.internalArea.toFixed(1)} sq meters (${settings.internalPlasterThickness ?? 12}mm, 1:${settings.plasterRatio || 6})
+    - External Render: ${results.plaster.externalArea.toFixed(1)} sq meters (${settings.externalRenderThickness ?? 20}mm, 1:${settings.renderRatio || 4})
+    - Plaster Materials (computed): ${Math.ceil(results.plaster.cementBags)} bags cement, ${results.plaster.sandTons.toFixed(1)} tons plaster sand
     
     Please provide a concise estimation report in valid Markdown format including:
     1. **Cement Estimation**: Calculate bags of cement (Dangote/BUA 50kg) needed for:
        - Laying the blocks (Mortar mix ratio 1:6).
-       - Rendering (Plastering) both sides of the walls (12mm thickness, ratio 1:4).
+       - Plastering and rendering (confirm the computed plaster materials above).
        - Concrete for Lintel (1:2:4 mix).
     2. **Sand & Granite**: Tons of sharp sand (for laying/concrete) and plaster sand (soft sand), plus Granite for lintel.
-    3. **Reinforcement**: Confirm the steel bar estimates (Y${settings.mainBarDiameter} and Y${settings.stirrupBarDiameter}) and suggest binding wire quantity (kg).
+    3. **Reinforcement**: Confirm the steel bar estimates by diameter from the bar bending schedule and suggest binding wire quantity (kg).
     4. **Cost Advice**: Very brief current market trend advice for building materials in Nigeria (Generic advice, no specific prices needed unless typical ranges).
 
     Keep it professional, direct, and formatted for a builder to read.
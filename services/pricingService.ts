@@ -223,6 +223,28 @@ const MOCK_PRICES: SupplierPrice[] = [
     { id: 'price_022', supplierId: 'sup_008', materialType: 'block_9inch', price: 348, unit: 'piece', inStock: true, stockQuantity: 35000, updatedAt: new Date().toISOString() },
     { id: 'price_023', supplierId: 'sup_008', materialType: 'cement_bag', price: 5750, unit: 'bag', brand: 'Dangote', inStock: true, stockQuantity: 2200, updatedAt: new Date().toISOString() },
     { id: 'price_024', supplierId: 'sup_008', materialType: 'sand_ton', price: 23800, unit: 'ton', inStock: true, updatedAt: new Date().toISOString() },
+
+    // Doors and windows (frames per metre run, glazing and bars per m²)
+    { id: 'price_025', supplierId: 'sup_001', materialType: 'timber_frame', price: 4500, unit: 'm', brand: 'Mahogany', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_026', supplierId: 'sup_001', materialType: 'steel_frame', price: 6800, unit: 'm', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_027', supplierId: 'sup_001', materialType: 'ironmongery', price: 18000, unit: 'set', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_028', supplierId: 'sup_003', materialType: 'aluminium_frame', price: 9500, unit: 'm', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_029', supplierId: 'sup_003', materialType: 'glazing', price: 22000, unit: 'm²', brand: '5mm float', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_030', supplierId: 'sup_003', materialType: 'burglary_bars', price: 28000, unit: 'm²', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_031', supplierId: 'sup_006', materialType: 'aluminium_frame', price: 10500, unit: 'm', brand: 'Premium', qualityGrade: 'premium', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_032', supplierId: 'sup_006', materialType: 'glazing', price: 24500, unit: 'm²', brand: '6mm tinted', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_033', supplierId: 'sup_006', materialType: 'ironmongery', price: 25000, unit: 'set', brand: 'Premium', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_034', supplierId: 'sup_008', materialType: 'timber_frame', price: 4200, unit: 'm', brand: 'Iroko', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_035', supplierId: 'sup_008', materialType: 'steel_frame', price: 6500, unit: 'm', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_036', supplierId: 'sup_008', materialType: 'burglary_bars', price: 26500, unit: 'm²', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_037', supplierId: 'sup_001', materialType: 'paint_emulsion', price: 38000, unit: 'bucket', brand: '20L emulsion', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_038', supplierId: 'sup_001', materialType: 'paint_primer', price: 26000, unit: 'bucket', brand: '20L alkali-resisting sealer', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_039', supplierId: 'sup_003', materialType: 'paint_textured', price: 42000, unit: 'bucket', brand: '20L textured coating', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_040', supplierId: 'sup_003', materialType: 'paint_gloss', price: 65000, unit: 'bucket', brand: '20L gloss', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_041', supplierId: 'sup_006', materialType: 'paint_emulsion', price: 45000, unit: 'bucket', brand: 'Premium 20L emulsion', qualityGrade: 'premium', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_042', supplierId: 'sup_006', materialType: 'paint_textured', price: 48000, unit: 'bucket', brand: 'Premium 20L textured', qualityGrade: 'premium', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_043', supplierId: 'sup_008', materialType: 'paint_gloss', price: 62000, unit: 'bucket', inStock: true, updatedAt: new Date().toISOString() },
+    { id: 'price_044', supplierId: 'sup_008', materialType: 'paint_primer', price: 24500, unit: 'bucket', inStock: true, updatedAt: new Date().toISOString() },
 ];
 
 /**
@@ -421,6 +443,16 @@ export function getDefaultPrices(): Record<MaterialType, number> {
         granite_ton: 28000,
         reinforcement_12mm: 650, // per kg
         reinforcement_16mm: 680, // per kg
-        binding_wire: 250   // per kg
+        binding_wire: 250,   // per kg
+        timber_frame: 4500, // per m
+        steel_frame: 6800, // per m
+        aluminium_frame: 9500, // per m
+        glazing: 22000, // per m²
+        ironmongery: 18000, // per set
+        burglary_bars: 28000, // per m²
+        paint_emulsion: 38000, // per 20L bucket
+        paint_textured: 42000, // per 20L bucket
+        paint_gloss: 65000, // per 20L bucket
+        paint_primer: 26000 // per 20L bucket
     };
 }
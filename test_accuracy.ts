@@ -41,10 +41,7 @@ const baseSettings: ProjectSettings = {
     mortarRatio: 6,
     floorMixRatio: '1:2:4',
     foundationType: 'strip',
-    foundationWidth: 450,
-    foundationDepth: 900,
-    padLength: 1000,
-    padWidth: 1000
+    foundationDepth: 900
 };
 
 // Helper: Convert mm coordinates to pixel coordinates (SCALE = 0.05)
@@ -68,7 +68,7 @@ for (let h = 3000; h <= 3300; h += 50) {
         mainBarDiameter: 12, mainBarCount: 4, stirrupBarDiameter: 8,
         masons: 1, laborers: 1, targetDailyRate: 100, mortarRatio: 6,
         floorMixRatio: '1:2:4', foundationType: 'strip',
-        foundationWidth: 450, foundationDepth: 900, padLength: 1000, padWidth: 1000
+        foundationDepth: 900
     };
 
     console.log = () => { }; // Silence CSG
@@ -70,10 +70,7 @@ const baseSettings: ProjectSettings = {
     mortarRatio: 6,
     floorMixRatio: '1:2:4',
     foundationType: 'strip',
-    foundationWidth: 450,
-    foundationDepth: 900,
-    padLength: 1000,
-    padWidth: 1000
+    foundationDepth: 900
 };
 
 // =========================================
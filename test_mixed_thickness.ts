@@ -44,8 +44,7 @@ const settings: ProjectSettings = {
     lintelWidth: 225, lintelDepth: 225, mainBarDiameter: 12,
     mainBarCount: 4, stirrupBarDiameter: 8, masons: 1, laborers: 1,
     targetDailyRate: 100, mortarRatio: 6, floorMixRatio: '1:2:4',
-    foundationType: 'strip', foundationWidth: 450, foundationDepth: 900,
-    padLength: 1000, padWidth: 1000
+    foundationType: 'strip', foundationDepth: 900
 };
 
 // =========================================
@@ -35,7 +35,7 @@ const settings: ProjectSettings = {
     mainBarDiameter: 12, mainBarCount: 4, stirrupBarDiameter: 8,
     masons: 1, laborers: 1, targetDailyRate: 100, mortarRatio: 6,
     floorMixRatio: '1:2:4', foundationType: 'strip',
-    foundationWidth: 450, foundationDepth: 900, padLength: 1000, padWidth: 1000
+    foundationDepth: 900
 };
 
 // Suppress logs
@@ -11,7 +11,10 @@ export interface Wall {
   start: Point;
   end: Point;
   thickness: number; // in mm
-  height: number; // in mm
+  height: number; // in mm (at start point)
+  endHeight?: number; // in mm at end point, for sloping gable walls (defaults to height)
+  parapetHeight?: number; // in mm of masonry above slab level
+  bulge?: number; // Arc walls: sagitta in px, the arc midpoint's offset from the chord (+ towards the normal (-dy, dx))
   dimensionOffset?: number; // Distance from wall in px
   dimensionFontSize?: number; // Font size in px
 }
@@ -24,7 +27,58 @@ export interface Opening {
   type: OpeningType;
   distanceFromStart: number; // relative position along the wall (0 to 1 or pixels)
   width: number; // mm
+  height: number; // mm, clear height to the head (the crown of an arch)
+  sillHeight?: number; // mm above floor (defaults: doors 0, windows settings.windowSillHeight)
+  archRise?: number; // mm, arches: crown above the springing line (default width / 2, semicircular)
+  specId?: string; // Door/window type from settings.openingSpecs (untyped openings use the default for their kind)
+}
+
+export type FrameMaterial = 'timber' | 'steel' | 'aluminium' | 'none';
+export type GlazingType = 'none' | 'clear' | 'tinted' | 'obscure';
+export type IronmongerySet = 'none' | 'latch' | 'lockset' | 'security' | 'window';
+
+// A door or window type ("D1", "W2") shared by every opening tagged with it
+export interface OpeningSpec {
+  id: string;
+  mark: string; // e.g. "D1"
+  kind: OpeningType;
+  description?: string;
+  frame: FrameMaterial;
+  leaves: number; // Door leaves or window sashes
+  glazing: GlazingType;
+  ironmongery: IronmongerySet; // One set per opening
+  burglaryBars: boolean; // Burglary-proof bars over the clear opening
+}
+
+export interface OpeningScheduleEntry {
+  spec: OpeningSpec;
+  width: number; // mm
   height: number; // mm
+  archRise?: number; // mm, arches
+  count: number;
+  frameLength: number; // m, jambs and head (and sill) of every opening
+  glazingArea: number; // sq meters
+  hardwareSets: number;
+  burglaryBarArea: number; // sq meters
+}
+
+export type FloorFinish = 'screed' | 'ceramic' | 'porcelain' | 'terrazzo';
+export type WallFinish = 'emulsion' | 'textured' | 'gloss';
+export type CeilingType = 'pop' | 'plasterboard' | 'pvc' | 'exposed';
+
+export interface TileSize {
+  width: number; // mm
+  length: number; // mm
+}
+
+export interface RoomFinishes {
+  floorFinish: FloorFinish;
+  wallFinish: WallFinish;
+  ceilingType: CeilingType;
+  tileSize?: TileSize; // Floor tiles (default by finish)
+  wallTileHeight?: number; // mm, wet rooms: walls tiled from the floor to this height (0 = none)
+  wallColour?: string; // Paint colour (default from the paint rules)
+  ceilingColour?: string;
 }
 
 export interface ProjectLabel {
@@ -32,6 +86,91 @@ export interface ProjectLabel {
   text: string;
   x: number;
   y: number;
+  finishes?: Partial<RoomFinishes>; // Overrides for the room this label names
+}
+
+export interface Room extends RoomFinishes {
+  id: string;
+  name: string; // From the linked label, else "Room N"
+  labelId?: string; // ProjectLabel placed inside the room
+  points: Point[]; // Centreline loop (px)
+  clearPoints: Point[]; // Internal face loop, net of wall thickness (px)
+  area: number; // sq meters (clear internal)
+  perimeter: number; // meters (clear internal)
+  skirtingLength: number; // meters (perimeter less door widths)
+  openingArea: number; // sq meters (openings on the room boundary)
+  wallPaintArea: number; // sq meters (wall faces net of openings and wall tiling)
+  wallTileArea: number; // sq meters (wet rooms, net of openings)
+  ceilingArea: number; // sq meters
+}
+
+export interface FloorFinishRules {
+  screedThickness: number; // mm, sand-cement bed under every finish
+  screedRatio: number; // sand parts per cement (1:x)
+  terrazzoThickness: number; // mm, topping on the screed
+  jointWidth: number; // mm, tile joints
+  tileWastage: number; // %, breakage on top of the counted cut tiles
+  adhesiveRate: number; // kg/m2 of tile adhesive
+  wallTileSize: TileSize;
+}
+
+export type PaintZone = 'internal' | 'external' | 'ceiling';
+
+export interface PaintSystem {
+  coats: number; // Finish coats
+  coverage: number; // m2 per litre per finish coat
+  primerCoats: number; // Sealer/primer coats under the finish (0 = none)
+  primerCoverage: number; // m2 per litre per primer coat
+}
+
+export interface PaintRules {
+  systems: Record<WallFinish, PaintSystem>;
+  externalFinish: WallFinish; // Rendered faces
+  externalColour: string;
+  ceilingFinish: WallFinish; // Painted ceilings (PVC is left unpainted)
+  defaultColour: string; // Rooms without their own colour
+  bucketSize: number; // litres
+}
+
+export interface PaintScheduleEntry {
+  zone: PaintZone;
+  finish: WallFinish;
+  colour: string;
+  area: number; // sq meters
+  litres: number; // Finish coats, incl. wastage
+  primerLitres: number; // Incl. wastage
+  buckets: number; // Finish paint to order
+}
+
+export interface RoomFloorTakeoff {
+  roomId: string;
+  name: string;
+  floorFinish: FloorFinish;
+  tileSize?: TileSize; // Tiled floors only
+  wholeTiles: number; // Floor tiles laid whole
+  cutTiles: number; // Floor tiles cut at the edges
+  floorTiles: number; // To order, incl. wastage
+  wallTileArea: number; // sq meters
+  wallTiles: number; // To order, incl. wastage
+  screedVolume: number; // cubic meters
+  terrazzoVolume: number; // cubic meters
+  adhesiveKg: number;
+  groutKg: number;
+}
+
+export interface FloorFinishTakeoff {
+  rooms: RoomFloorTakeoff[];
+  tiledArea: number; // sq meters of floor tiles
+  wallTileArea: number; // sq meters
+  floorTiles: number;
+  wallTiles: number;
+  screedVolume: number; // cubic meters
+  terrazzoVolume: number; // cubic meters
+  cementBags: number; // Screed and terrazzo
+  sandTons: number; // Screed
+  marbleChipsTons: number; // Terrazzo
+  adhesiveBags: number; // 20kg
+  groutKg: number;
 }
 
 export interface Column {
@@ -41,8 +180,8 @@ export interface Column {
   width: number; // mm, default 225
   height: number; // mm, default 225
   rotation?: number; // degrees
-  padWidth?: number; // mm
-  padLength?: number; // mm
+  padWidth?: number; // mm, minimum pad size (the pad is designed from the load)
+  padLength?: number; // mm, minimum
   label?: string; // e.g. "C1"
 }
 
@@ -62,6 +201,117 @@ export interface Slab {
   label?: string; // e.g. "S1"
 }
 
+export type ConcreteGrade = 'C20' | 'C25' | 'C30';
+export type ConcreteElement = 'foundation' | 'column' | 'beam' | 'slab' | 'lintel';
+
+export interface ConcreteMix {
+  grade: ConcreteGrade;
+  wcRatio?: number; // free water/cement ratio (defaults by grade)
+}
+
+export interface ConcreteMaterials {
+  element: ConcreteElement;
+  mix: string; // e.g. "C25, w/c 0.55" or "1:2:4"
+  volume: number; // m3 compacted
+  cementKg: number;
+  cementBags: number; // 50kg
+  sandTons: number;
+  aggregateTons: number; // granite
+  waterLiters: number;
+}
+
+export interface SlabDesignRules {
+  barDiameters: number[]; // mm, main bar sizes to try, smallest first
+  distributionBarDiameter: number; // mm
+  minSpacing: number; // mm, practical minimum for placing concrete
+  maxSpacing: number; // mm
+  spacingStep: number; // mm, spacings are rounded down to this
+  cover: number; // mm
+  fcu: number; // N/mm2 concrete
+  fy: number; // N/mm2 steel
+  imposedLoad: number; // kN/m2
+  finishesLoad: number; // kN/m2
+  lapFactor: number; // lap length in bar diameters
+  stockLength: number; // m, bar length supplied
+}
+
+export type SlabSpanType = 'one-way' | 'two-way';
+
+export interface SlabBarSet {
+  mark: string; // e.g. "S1-1", "S1-1C", "S1-T1"
+  position: 'bottom' | 'top';
+  role: 'main' | 'secondary' | 'distribution' | 'support';
+  diameter: number; // mm
+  spacing: number; // mm
+  count: number;
+  length: number; // m per bar, incl. laps and cranks
+  laps: number; // Laps per bar
+  cranked: boolean;
+  bendHeight?: number; // mm, crank rise or support bar leg
+}
+
+export interface SlabDesign {
+  slabId: string;
+  label: string;
+  type: SlabSpanType;
+  lx: number; // m, short span
+  ly: number; // m, long span
+  supportedEdges: number; // edges bearing on a beam or wall
+  ultimateLoad: number; // kN/m2
+  momentX: number; // kNm/m, short span
+  momentY: number; // kNm/m, long span
+  asRequiredX: number; // mm2/m
+  asRequiredY: number; // mm2/m
+  bars: SlabBarSet[];
+}
+
+export type RoofType = 'gable' | 'hip' | 'flat';
+
+export interface Roof {
+  id: string;
+  type: RoofType;
+  pitch: number; // degrees (ignored for flat roofs)
+  overhang: number; // mm beyond the outer wall face (flat roofs stop at the parapet)
+  rafterSpacing?: number; // mm, default 600
+  purlinSpacing?: number; // mm, default 900
+  sheetCoverWidth?: number; // mm effective cover of one long-span sheet, default 1000
+}
+
+export interface RoofTakeoff {
+  type: RoofType;
+  planArea: number; // sq meters incl. overhang
+  slopedArea: number; // sq meters of covering
+  rise: number; // meters, eaves to ridge
+  ridgeLength: number; // meters
+  hipLength: number; // meters (all hips)
+  valleyLength?: number; // meters (all valleys, hip roofs on L/T/U plans)
+  rafterLength: number; // meters (common + jack rafters)
+  tieLength: number; // meters (truss tie beams, king posts and struts)
+  purlinLength: number; // meters
+  sheetCount: number; // long-span sheets, cut to slope length
+  sheetLength: number; // meters of sheet
+  ridgeCapCount: number;
+  fasciaLength: number; // meters along the eaves
+  bargeLength: number; // meters along gable verges
+  gutterLength: number; // meters
+  copingLength?: number; // meters of parapet coping (flat roofs)
+  outletCount?: number; // rainwater outlets through the parapet (flat roofs)
+  warning?: string; // Outline not set out; ridge, truss and eaves items are withheld
+}
+
+export interface Level {
+  id: string;
+  name: string; // e.g. "Ground Floor", "First Floor"
+  floorToFloorHeight?: number; // mm, includes the slab above (default: wall height + floor thickness)
+  walls: Wall[];
+  openings: Opening[];
+  columns: Column[];
+  beams: Beam[];
+  slabs: Slab[];
+  labels: ProjectLabel[];
+  roof?: Roof; // Roof over this level's outer wall loop
+}
+
 export interface SectionLine {
   id: string;
   start: Point;
@@ -69,11 +319,122 @@ export interface SectionLine {
   label: string; // e.g., "A-A", "B-B"
 }
 
+export interface BeamBars {
+  count: number;
+  diameter: number; // mm
+}
+
+export interface BeamDesign {
+  beamId: string;
+  label: string;
+  span: number; // m
+  slabLoad: number; // kN/m ultimate, from tributary areas
+  wallLoad: number; // kN/m ultimate, walls of the level above on the beam line
+  selfWeight: number; // kN/m ultimate
+  ultimateLoad: number; // kN/m total
+  moment: number; // kNm, mid-span
+  shear: number; // kN, at supports
+  effectiveDepth: number; // mm
+  asRequired: number; // mm2, tension (bottom)
+  asCompression: number; // mm2, top, 0 when singly reinforced
+  bottom: BeamBars;
+  top: BeamBars;
+  links: { diameter: number, legs: number, spacing: number }; // mm
+  shearStress: number; // N/mm2
+  spanDepthRatio: number;
+  allowableSpanDepth: number;
+  adequate: boolean;
+  issues: string[];
+}
+
+// Load takedown: every load in kN, factored with the design code's combination
+export type LoadSourceType = 'slab' | 'beam' | 'column' | 'wall' | 'self-weight';
+
+export interface LoadContribution {
+  source: string; // Member the load comes from, e.g. "B1", "C1 (First Floor)"
+  type: LoadSourceType;
+  load: number; // kN
+}
+
+export interface ColumnLoad {
+  columnId: string;
+  label: string;
+  level?: string; // Level name (multi-storey projects)
+  position: Point; // px, to find the column below
+  contributions: LoadContribution[];
+  axialLoad: number; // kN at the column base, including the floors above
+}
+
+export interface WallLoad {
+  wallId: string;
+  label: string;
+  level?: string;
+  start: Point; // px
+  end: Point; // px
+  contributions: LoadContribution[];
+  totalLoad: number; // kN at the wall base
+  lineLoad: number; // kN/m run
+}
+
+export interface LoadTakedown {
+  columns: ColumnLoad[];
+  walls: WallLoad[];
+  unresolved: LoadContribution[]; // Loads landing on nothing below (e.g. a column on a slab)
+}
+
+// Footing sized from the traced loads and the soil bearing capacity
+export interface FoundationDesign {
+  memberId: string; // Column (pad) or wall (strip) carried
+  label: string; // e.g. "F1"
+  member: string; // Label of the column or wall, e.g. "C1"
+  type: 'pad' | 'strip';
+  serviceLoad: number; // kN (pad) or kN/m (strip)
+  ultimateLoad: number; // kN (pad) or kN/m (strip)
+  width: number; // mm
+  length: number; // mm (strips: the run net of junctions with other strips)
+  thickness: number; // mm
+  bearingPressure: number; // kN/m2 gross, at service load
+  asRequired?: number; // mm2 bottom steel each way (pads)
+  punchingStress?: number; // N/mm2 on the 1.5d perimeter (pads)
+  shearCapacity?: number; // N/mm2, vc (pads)
+  adequate: boolean;
+  issues: string[];
+}
+
+// BS 8666 shape codes used in the bar bending schedule
+// 00 straight, 11 one bend (L), 21 two bends (U), 41 cranked, 51 closed link
+export type BarShapeCode = '00' | '11' | '21' | '41' | '51';
+export type BarMemberType = 'column' | 'beam' | 'lintel' | 'slab';
+
+export interface BarScheduleEntry {
+  mark: string; // e.g. "C1-01"
+  member: string; // Member label, e.g. "C1"
+  memberType: BarMemberType;
+  shapeCode: BarShapeCode;
+  diameter: number; // mm
+  dimensions: Partial<Record<'A' | 'B' | 'C' | 'D' | 'E', number>>; // mm, per BS 8666 shape
+  count: number; // Bars in the member
+  cutLength: number; // mm per bar, incl. hooks and laps, rounded up to 25mm
+  laps: number; // Laps per bar
+  hooks: number; // Hooks per bar
+  totalLength: number; // m
+  mass: number; // kg
+}
+
+export interface BarTotal {
+  diameter: number; // mm
+  totalLength: number; // m
+  mass: number; // kg
+  stockBars: number; // Stock lengths to buy, after cutting optimisation
+  wastePercent: number; // Offcuts as a share of the stock bought
+}
+
 export interface ProjectSettings {
   blockLength: number;
   blockHeight: number;
   blockThickness: number; // mm (Width of the block, e.g. 225 or 150)
   floorThickness: number; // mm
+  blindingThickness?: number; // mm, default 50 (lean concrete under floor slab)
   floorCount?: number; // Number of floors (1 = Bungalow, 2 = G+1, etc.)
   mortarThickness: number; // mm
   wallHeightDefault: number; // mm
@@ -81,6 +442,13 @@ export interface ProjectSettings {
   // DPC Settings (Implicit in wall length/thickness, but could add specific DPC material later)
 
   // Lintel Settings
+  windowSillHeight?: number; // mm, default 900
+  openingSpecs?: OpeningSpec[]; // Door and window types for the schedule
+  blockCountMethod?: 'volume' | 'layout'; // CSG volume ratio (default) or course-by-course layout
+  internalPlasterThickness?: number; // mm, default 12
+  externalRenderThickness?: number; // mm, default 20
+  plasterRatio?: number; // sand parts per cement for internal plaster (1:x), default 6
+  renderRatio?: number; // sand parts per cement for external render (1:x), default 4
   lintelType: 'chain' | 'opening';
   lintelOverhang: number; // mm
   lintelWidth: number; // mm (section width, typically same as wall thickness)
@@ -101,15 +469,23 @@ export interface ProjectSettings {
   mortarRatio: number; // e.g. 6 for 1:6
 
   // Floor & Foundation Settings
-  floorMixRatio: string; // e.g. "1:2:4"
+  floorMixRatio: string; // e.g. "1:2:4", every element when mixes are nominal
+  concreteMixMethod?: 'nominal' | 'design'; // Nominal volume ratio, or grade-based mix design (default nominal)
+  concreteMixes?: Partial<Record<ConcreteElement, ConcreteMix>>; // Grade and w/c per element (mix design)
   foundationType: 'strip' | 'pad';
-  foundationWidth: number; // mm (for Strip)
   foundationDepth: number; // mm
-  padLength: number; // mm
-  padWidth: number; // mm
+  soilBearingCapacity?: number; // kN/m2 allowable at the founding depth (default 150)
+  designCode?: DesignCodeId; // Code for load factors and safety checks (default BS 8110)
+
+  defaultRoomFinishes?: RoomFinishes; // Applied to rooms without label overrides
+  slabDesign?: Partial<SlabDesignRules>; // Overrides for suspended slab design
+  floorFinishRules?: Partial<FloorFinishRules>; // Overrides for the screed and tiling takeoff
+  paintRules?: Partial<PaintRules>; // Overrides for the paint systems and colours
 
   sections?: SectionLine[]; // Array of defined section lines
   showSafetyWarnings?: boolean; // Toggle for structural safety overlays
+  lateralAnalysis?: boolean; // Check shear walls, torsion and openings for wind and seismic loads
+  lateralLimits?: Partial<LateralLimits>; // Overrides for the lateral check
   showTributaryAreas?: boolean; // Toggle for tributary area visualization
 }
 
@@ -125,9 +501,12 @@ export interface ToolSettings {
   columnHeight: number; // mm
   wallType: WallType; // 'external' = 225mm, 'partition' = 150mm
   displayUnit: DisplayUnit; // Unit for display and input (default: mm)
+  archWidth?: number; // mm (default 900)
+  archSpringHeight?: number; // mm, floor to springing line (default 2100)
+  archRise?: number; // mm, springing line to crown (default semicircular)
 }
 
-export type ToolMode = 'select' | 'wall' | 'door' | 'window' | 'column' | 'beam' | 'slab' | 'eraser' | 'pan' | 'text' | 'section';
+export type ToolMode = 'select' | 'wall' | 'arc' | 'door' | 'window' | 'arch' | 'column' | 'beam' | 'slab' | 'eraser' | 'pan' | 'text' | 'section';
 
 export interface CalculationResult {
   totalWallArea: number; // sq meters
@@ -136,18 +515,35 @@ export interface CalculationResult {
   netArea: number; // sq meters
   blockCount: number; // 9-inch blocks
   blockCount6Inch: number; // 6-inch blocks
+  blockLayout?: { // Present when blocks are counted course by course
+    fullBlocks: number;
+    cutBlocks: number;
+    volumeBlockCount9Inch: number; // CSG count, for comparison
+    volumeBlockCount6Inch: number;
+  };
   estimatedDuration?: number; // days
   complexityScore?: number; // multiplier (1.0 = base)
-  paintArea: number; // sq meters (both sides)
+  paintArea: number; // sq meters (walls, ceilings and render painted)
   // Lintel Results
   concreteVolume: number;
+  floorArea: number; // sq meters (sum of clear room areas)
   floorConcreteVolume: number;
+  blindingVolume: number; // cubic meters
+  rooms: Room[];
   reinforcementMainLength: number;
 
   reinforcementStirrupLength: number;
+  archFormworkArea?: number; // sq meters, curved soffit under arch rings
 
   // Column Results
   columnConcreteVolume: number;
+  columnBreakdown: {
+    embeddedCount: number; // columns overlapping a wall
+    freestandingCount: number; // columns clear of all walls
+    embeddedVolume: number; // m3 concrete
+    freestandingVolume: number; // m3 concrete
+    masonryDeducted: number; // m3 of wall replaced by columns
+  };
   columnReinforcement: {
     mainLength: number;
     stirrupLength: number;
@@ -160,6 +556,24 @@ export interface CalculationResult {
   sandTons: number;
   waterLiters: number;
 
+  // Roof (levels with a roof only)
+  roof?: RoofTakeoff;
+
+  // Plaster & Render (separate from block laying mortar)
+  plaster: {
+    internalArea: number; // sq meters, incl. reveals
+    externalArea: number; // sq meters, incl. reveals
+    revealArea: number; // sq meters
+    internalVolume: number; // cubic meters (wet)
+    externalVolume: number; // cubic meters (wet)
+    cementBags: number;
+    sandTons: number; // plaster (soft) sand
+  };
+
+  // Floor finishes per room: screed, tiles, terrazzo, wet-room wall tiling
+  floorFinishes?: FloorFinishTakeoff;
+  paintSchedule?: PaintScheduleEntry[];
+
   // Floor & Foundation Materials
   floorMaterials: {
     cementBags: number;
@@ -167,11 +581,13 @@ export interface CalculationResult {
     aggregateTons: number;
   };
   foundationVolume: number;
+  foundationDesigns: FoundationDesign[]; // Ground level footings
   foundationMaterials: {
     cementBags: number;
     sandTons: number;
     aggregateTons: number;
   };
+  concreteMaterials: ConcreteMaterials[]; // Per element, from its mix
   // Beam Results
   beamConcreteVolume: number;
   beamReinforcement: {
@@ -187,27 +603,84 @@ export interface CalculationResult {
     mainLength: number; // Bottom X+Y
     topLength: number; // Top X+Y (Distribution)
   };
+  slabDesigns: SlabDesign[];
+  beamDesigns: BeamDesign[];
+
+  // Bar bending schedule (every column, beam, lintel and slab bar)
+  barSchedule: BarScheduleEntry[];
+
+  // Door and window schedule, one row per type and size
+  openingSchedule?: OpeningScheduleEntry[];
+
+  // Load path: slab to beam to column and wall, accumulated down the floors
+  loadTakedown: LoadTakedown;
 
   safetyReport?: SafetyReport;
+  levels?: LevelResult[]; // Per-level breakdown (multi-storey projects)
 }
 
+export interface LevelResult {
+  levelId: string;
+  name: string;
+  result: CalculationResult;
+}
+
+export type DesignCodeId = 'BS8110' | 'EC2' | 'ACI318';
+
 export type SafetyStatus = 'safe' | 'warning' | 'critical';
 
 export interface SafetyIssue {
-  type: 'span' | 'slenderness' | 'load';
+  type: 'span' | 'slenderness' | 'load' | 'deflection' | 'support' | 'lateral' | 'opening';
   message: string;
   value?: number;
   limit?: number;
+  clause: string; // Code clause the limit comes from, e.g. "BS 8110-1 3.8.1.3"
+}
+
+export interface MemberSafety {
+  label?: string;
+  status: SafetyStatus;
+  issues: SafetyIssue[];
+  load?: number;
+  capacity?: number;
 }
 
 export interface SafetyReport {
   overallScore: number; // 0-100
-  columns: Record<string, {
-    status: SafetyStatus;
-    issues: SafetyIssue[];
-    load?: number;
-    capacity?: number;
-  }>;
+  designCode?: string; // Name of the code checked against
+  columns: Record<string, MemberSafety>;
+  beams: Record<string, MemberSafety>;
+  slabs: Record<string, MemberSafety>;
+  walls: Record<string, MemberSafety>;
+  lintels: Record<string, MemberSafety>; // Keyed by opening id
+  lateral: LateralReport[]; // One per level when the lateral check is on
+}
+
+export interface LateralLimits {
+  minWallRatio: number; // % of floor area, shear wall cross-section in each direction
+  maxEccentricity: number; // fraction of the plan dimension, mass to rigidity centre
+  maxOpeningRatio: number; // % of a wall's face
+  minPierLength: number; // mm, shorter piers between openings are not counted
+}
+
+export interface LateralDirection {
+  direction: 'x' | 'y'; // Direction of the load
+  shearWallLength: number; // m of piers resisting it
+  shearWallArea: number; // m2 cross-section of those piers
+  wallRatio: number; // % of floor area
+  eccentricity: number; // m, across the load direction
+  eccentricityRatio: number; // of the plan dimension across the load direction
+}
+
+export interface LateralReport {
+  levelId?: string;
+  level?: string; // Level name (multi-storey projects)
+  floorArea: number; // m2
+  massCentre: Point; // px
+  rigidityCentre: Point; // px
+  directions: LateralDirection[];
+  status: SafetyStatus;
+  issues: SafetyIssue[];
 }
 
 export interface ViewportTransform {
@@ -310,6 +783,7 @@ export interface ProjectData {
     beams: Beam[];
     slabs: Slab[];
     labels?: ProjectLabel[];
+    levels?: Level[]; // All storeys; walls/openings/... above mirror the ground level
   };
   gnnReady?: GNNData; // Compiled Graph Data for AI Training
   settings: ProjectSettings;
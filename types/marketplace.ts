@@ -38,7 +38,17 @@ export type MaterialType =
     | 'granite_ton'
     | 'reinforcement_12mm'
     | 'reinforcement_16mm'
-    | 'binding_wire';
+    | 'binding_wire'
+    | 'timber_frame'
+    | 'steel_frame'
+    | 'aluminium_frame'
+    | 'glazing'
+    | 'ironmongery'
+    | 'burglary_bars'
+    | 'paint_emulsion'
+    | 'paint_textured'
+    | 'paint_gloss'
+    | 'paint_primer';
 
 export interface SupplierPrice {
     id: string;
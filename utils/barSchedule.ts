@@ -0,0 +1,221 @@
+import { Column, Beam, Wall, Opening, ProjectSettings, SlabDesign, BeamDesign, BarScheduleEntry, BarShapeCode, BarMemberType, BarTotal } from '../types';
+import { distance, getWallLength } from './geometry';
+import { resolveSlabRules } from './slabDesign';
+import { planAllCutting } from './cuttingStock';
+import { getArchGeometry, ARCH_EXTRA_BARS } from './openingCsg';
+
+const SCALE = 0.05; // Must match Canvas scale
+const COVER = 25; // mm, same as the structural details
+const LAP_FACTOR = 40; // Lap length in bar diameters
+const LINK_SPACING = 200; // mm, lintels (as the engine)
+const BEAM_BAR_LEG = 12; // × bar diameter, end anchorage legs
+const STARTER_FOOT = 300; // mm, column bar foot into the foundation
+
+/**
+ * BAR BENDING SCHEDULE (BS 8666)
+ *
+ * Lists every bar in the level's columns, beams, lintels and suspended slabs
+ * by member, with its shape code and dimensions. Cut lengths follow the
+ * BS 8666 formulae (bend deductions on minimum formers, 10d per link hook),
+ * add a lap wherever a bar exceeds the stock length (the slab rules'), and
+ * are rounded up to the next 25mm. Slab bars come from the slab designs.
+ */
+
+/** Minimum former radius (BS 8666 Table 2). */
+const formerRadius = (d: number) => (d <= 16 ? 2 : 3.5) * d;
+
+/** Developed length of a shape (mm) before laps. */
+const shapeLength = (code: BarShapeCode, dims: BarScheduleEntry['dimensions'], d: number): number => {
+    const { A = 0, B = 0, C = 0, D = 0, E = 0 } = dims;
+    const r = formerRadius(d);
+    switch (code) {
+        case '00': return A;
+        case '11': return A + B - 0.5 * r - d;
+        case '21': return A + B + C - r - 2 * d;
+        case '41': return A + B + C + D + E - 2 * r - 4 * d;
+        case '51': return 2 * (A + B) + 20 * d;
+    }
+};
+
+const roundUp25 = (mm: number) => Math.ceil(mm / 25) * 25;
+
+/** Unit mass of a bar (kg/m). */
+export const barUnitMass = (d: number) => (d * d) / 162;
+
+const makeEntry = (
+    mark: string,
+    member: string,
+    memberType: BarMemberType,
+    shapeCode: BarShapeCode,
+    diameter: number,
+    dimensions: BarScheduleEntry['dimensions'],
+    count: number,
+    stockLength: number, // mm
+    cut?: { length: number, laps: number } // Precomputed cut length (mm) and laps
+): BarScheduleEntry => {
+    let length = cut ? cut.length : shapeLength(shapeCode, dimensions, diameter);
+    let laps = cut ? cut.laps : 0;
+    if (!cut && shapeCode !== '51' && length > stockLength) {
+        laps = Math.ceil(length / stockLength) - 1;
+        length += laps * LAP_FACTOR * diameter;
+    }
+    const cutLength = roundUp25(length);
+    const totalLength = (cutLength / 1000) * count;
+    return {
+        mark,
+        member,
+        memberType,
+        shapeCode,
+        diameter,
+        dimensions,
+        count,
+        cutLength,
+        laps,
+        hooks: shapeCode === '51' ? 2 : 0,
+        totalLength,
+        mass: totalLength * barUnitMass(diameter)
+    };
+};
+
+/** Length of the stock bars supplied (mm), as the slab designs lap to. */
+export const stockBarLength = (settings: ProjectSettings): number => resolveSlabRules(settings).stockLength * 1000;
+
+/** Numbers the bars within a member: C1-01, C1-02, ... */
+const markFor = (member: string, n: number) => `${member}-${String(n).padStart(2, '0')}`;
+
+/**
+ * Builds the bar bending schedule for one level.
+ * @param isGroundLevel - Ground columns start from the foundation with a foot
+ */
+export const buildBarSchedule = (
+    columns: Column[],
+    beams: Beam[],
+    walls: Wall[],
+    openings: Opening[],
+    slabDesigns: SlabDesign[],
+    beamDesigns: BeamDesign[],
+    settings: ProjectSettings,
+    isGroundLevel: boolean = true
+): BarScheduleEntry[] => {
+    const entries: BarScheduleEntry[] = [];
+    const mainD = settings.mainBarDiameter || 12;
+    const linkD = settings.stirrupBarDiameter || 8;
+    const mainCount = settings.mainBarCount || 4;
+    const height = settings.wallHeightDefault;
+    const stockLength = stockBarLength(settings);
+
+    // Columns: vertical bars lapped onto the lift above, closed links
+    columns.forEach((col, i) => {
+        const member = col.label?.trim() || `C${i + 1}`;
+        const lap = LAP_FACTOR * mainD;
+        if (isGroundLevel) {
+            entries.push(makeEntry(markFor(member, 1), member, 'column', '11', mainD,
+                { A: (settings.foundationDepth || 0) + height + lap, B: STARTER_FOOT }, mainCount, stockLength));
+        } else {
+            entries.push(makeEntry(markFor(member, 1), member, 'column', '00', mainD, { A: height + lap }, mainCount, stockLength));
+        }
+        const linkCount = Math.ceil(height / (settings.columnStirrupSpacing || 200));
+        entries.push(makeEntry(markFor(member, 2), member, 'column', '51', linkD,
+            { A: col.width - 2 * COVER, B: col.height - 2 * COVER }, linkCount, stockLength));
+    });
+
+    // Beams: bottom and top bars as designed, with anchorage legs, closed links
+    beams.forEach((beam, i) => {
+        const design = beamDesigns.find(d => d.beamId === beam.id);
+        const member = design?.label || beam.label?.trim() || `B${i + 1}`;
+        const length = distance(beam.start, beam.end) / SCALE;
+        const bottom = design?.bottom || { count: 2, diameter: mainD };
+        const top = design?.top || { count: 2, diameter: mainD };
+        const links = design?.links || { diameter: linkD, spacing: LINK_SPACING };
+        const barShape = (d: number) => ({ A: BEAM_BAR_LEG * d, B: length - 2 * COVER, C: BEAM_BAR_LEG * d });
+        entries.push(makeEntry(markFor(member, 1), member, 'beam', '21', bottom.diameter, barShape(bottom.diameter), bottom.count, stockLength));
+        entries.push(makeEntry(markFor(member, 2), member, 'beam', '21', top.diameter, barShape(top.diameter), top.count, stockLength));
+        entries.push(makeEntry(markFor(member, 3), member, 'beam', '51', links.diameter,
+            { A: beam.width - 2 * COVER, B: beam.depth - 2 * COVER }, Math.ceil(length / links.spacing), stockLength));
+    });
+
+    // Lintels: one per opening, or a chain along every wall. Arches get a ring
+    // whose bars are curved to the arch on site, scheduled straight at their
+    // developed length, with ARCH_EXTRA_BARS over the usual count.
+    const lintelDepth = settings.lintelDepth || 225;
+    const overhang = settings.lintelOverhang || 150;
+    const addLintel = (member: string, span: number, width: number, bars: number = mainCount, links: number = span) => {
+        entries.push(makeEntry(markFor(member, 1), member, 'lintel', '00', mainD, { A: span - 2 * COVER }, bars, stockLength));
+        entries.push(makeEntry(markFor(member, 2), member, 'lintel', '51', linkD,
+            { A: width - 2 * COVER, B: lintelDepth - 2 * COVER }, Math.ceil(links / LINK_SPACING), stockLength));
+    };
+    if (settings.lintelType === 'chain') {
+        walls.forEach((wall, i) => addLintel(`CL${i + 1}`, getWallLength(wall) / SCALE, wall.thickness));
+    }
+    openings.forEach((o, i) => {
+        const host = walls.find(w => w.id === o.wallId);
+        if (!host) return;
+        const arch = getArchGeometry(o, settings);
+        if (arch) {
+            const ring = 2 * arch.angle * (arch.radius + lintelDepth / 2);
+            addLintel(`AR${i + 1}`, ring + 2 * overhang, host.thickness, mainCount + ARCH_EXTRA_BARS, ring);
+        } else if (settings.lintelType !== 'chain') {
+            addLintel(`L${i + 1}`, o.width + 2 * overhang, host.thickness);
+        }
+    });
+
+    // Slabs: bars as detailed by the slab design
+    const slabLap = resolveSlabRules(settings).lapFactor;
+    slabDesigns.forEach(design => {
+        design.bars.forEach(bar => {
+            const cut = { length: bar.length * 1000, laps: bar.laps };
+            const developed = cut.length - bar.laps * slabLap * bar.diameter;
+            const rise = bar.bendHeight || 0;
+            if (bar.cranked) {
+                // Bent up over the supports at a tenth of the span, 45° cranks
+                const end = 0.1 * developed;
+                const incline = rise * Math.SQRT2;
+                const bottom = developed - 2 * end - 2 * incline;
+                entries.push(makeEntry(bar.mark, design.label, 'slab', '41', bar.diameter,
+                    { A: end, B: incline, C: bottom, D: incline, E: end }, bar.count, stockLength, cut));
+            } else if (bar.role === 'support' && rise > 0) {
+                entries.push(makeEntry(bar.mark, design.label, 'slab', '21', bar.diameter,
+                    { A: rise, B: developed - 2 * rise, C: rise }, bar.count, stockLength, cut));
+            } else {
+                entries.push(makeEntry(bar.mark, design.label, 'slab', '00', bar.diameter, { A: developed }, bar.count, stockLength, cut));
+            }
+        });
+    });
+
+    return entries;
+};
+
+/** Totals by bar diameter, in kg and in stock bars as cut by the optimiser. */
+export const summariseBarSchedule = (entries: BarScheduleEntry[], settings: ProjectSettings): BarTotal[] =>
+    planAllCutting(entries, stockBarLength(settings)).map(plan => {
+        const bars = entries.filter(e => e.diameter === plan.diameter);
+        return {
+            diameter: plan.diameter,
+            totalLength: bars.reduce((sum, e) => sum + e.totalLength, 0),
+            mass: bars.reduce((sum, e) => sum + e.mass, 0),
+            stockBars: plan.stockBars,
+            wastePercent: plan.wastePercent
+        };
+    });
+
+const csvCell = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** The schedule as CSV, one row per bar mark, followed by the totals. */
+export const barScheduleToCsv = (entries: BarScheduleEntry[], settings: ProjectSettings): string => {
+    const header = ['Member', 'Bar Mark', 'Type', 'Shape Code', 'Dia (mm)', 'No. of Bars', 'Cut Length (mm)',
+        'A', 'B', 'C', 'D', 'E', 'Laps', 'Hooks', 'Total Length (m)', 'Mass (kg)'];
+    const rows = entries.map(e => [
+        e.member, e.mark, e.memberType, e.shapeCode, e.diameter, e.count, e.cutLength,
+        ...(['A', 'B', 'C', 'D', 'E'] as const).map(k => e.dimensions[k] !== undefined ? Math.round(e.dimensions[k]!) : ''),
+        e.laps, e.hooks, e.totalLength.toFixed(2), e.mass.toFixed(2)
+    ]);
+    const stockM = stockBarLength(settings) / 1000;
+    const totals = summariseBarSchedule(entries, settings).map(t => [
+        'TOTAL', `Y${t.diameter}`, '', '', t.diameter, '', '', '', '', '', '', '', '', `${t.stockBars} x ${stockM}m`,
+        t.totalLength.toFixed(2), t.mass.toFixed(2)
+    ]);
+    return [header, ...rows, ...totals].map(row => row.map(csvCell).join(',')).join('\n');
+};
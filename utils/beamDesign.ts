@@ -0,0 +1,195 @@
+import { Beam, Slab, Wall, WallLoad, ProjectSettings, BeamDesign, BeamBars } from '../types';
+import { distance, getClosestPointOnLine, getWallHeightAt } from './geometry';
+import { TributaryArea } from './structuralAnalysis';
+import { resolveSlabRules, slabUltimateLoad } from './slabDesign';
+import { getDesignCode, ultimateLoad as factored, bendingSteel } from './designCodes';
+import { gradeStrength } from './mixDesign';
+
+const SCALE = 0.05; // Must match Canvas scale
+const CONCRETE_DENSITY = 24; // kN/m3
+const MASONRY_DENSITY = 18; // kN/m3, rendered sandcrete blockwork
+const COVER = 25; // mm, same as the bar schedule
+const FYV = 250; // N/mm2, mild steel links
+const BAR_SIZES = [12, 16, 20, 25]; // mm
+const MIN_STEEL_RATIO = 0.0013; // BS 8110 Table 3.25
+
+/**
+ * BEAM DESIGN (simply supported, to the project's design code)
+ *
+ * Loads per metre run, factored with the design code's combination:
+ * - Slab: the tributary polygons the slab sheds onto the beam, at the
+ *   slab's own weight plus finishes and imposed load, spread over the span.
+ * - Walls: the walls of the level above standing on the beam line (beams
+ *   sit at the level soffit, so the level's own walls are below them), at
+ *   their traced line load over the length they overlap.
+ * - Self-weight of the user-set section.
+ * The section is then checked in bending (compression steel above the
+ * singly reinforced limit), shear (links from vc) and span/depth, with the
+ * code's formulas and partial factors.
+ */
+
+/** Smallest bar arrangement (two bars or more) providing the area and fitting the width. */
+const chooseBars = (area: number, width: number, linkD: number): BeamBars | undefined => {
+    let best: BeamBars | undefined;
+    BAR_SIZES.forEach(diameter => {
+        const barArea = Math.PI * diameter * diameter / 4;
+        const count = Math.max(2, Math.ceil(area / barArea));
+        const clear = Math.max(diameter, 25); // Clear gap between bars, 20mm aggregate + 5
+        const fits = count * diameter + (count - 1) * clear <= width - 2 * (COVER + linkD);
+        if (fits && (!best || count * barArea < best.count * Math.PI * best.diameter * best.diameter / 4)) {
+            best = { count, diameter };
+        }
+    });
+    return best;
+};
+
+const barsArea = (bars: BeamBars) => bars.count * Math.PI * bars.diameter * bars.diameter / 4;
+
+/** Length (m) of a wall standing on the beam line; zero unless parallel and on the line. */
+export const wallOverlapOnBeam = (beam: Pick<Beam, 'start' | 'end' | 'width'>, wall: Pick<Wall, 'start' | 'end' | 'thickness' | 'bulge'>): number => {
+    const length = distance(beam.start, beam.end);
+    const wallLength = distance(wall.start, wall.end);
+    if (length === 0 || wallLength === 0 || wall.bulge) return 0; // A curved wall never runs along a beam
+    const ux = (beam.end.x - beam.start.x) / length;
+    const uy = (beam.end.y - beam.start.y) / length;
+    const cross = Math.abs(ux * (wall.end.y - wall.start.y) - uy * (wall.end.x - wall.start.x)) / wallLength;
+    if (cross > 0.05) return 0; // Not parallel
+
+    const mid = { x: (wall.start.x + wall.end.x) / 2, y: (wall.start.y + wall.end.y) / 2 };
+    const { point } = getClosestPointOnLine(mid, beam.start, beam.end);
+    const offset = distance(mid, point) / SCALE;
+    if (offset > Math.max(beam.width, wall.thickness) / 2 + 50) return 0; // Off the beam line
+
+    // Overlap of the wall's run with the beam's
+    const s0 = (wall.start.x - beam.start.x) * ux + (wall.start.y - beam.start.y) * uy;
+    const s1 = (wall.end.x - beam.start.x) * ux + (wall.end.y - beam.start.y) * uy;
+    return Math.max(0, Math.min(length, Math.max(s0, s1)) - Math.max(0, Math.min(s0, s1))) / SCALE / 1000;
+};
+
+/** Masonry weight (kN/m run of wall, characteristic). */
+export const masonryLineLoad = (wall: Wall, settings: ProjectSettings): number =>
+    (wall.thickness / 1000) * (getWallHeightAt(wall, 0.5, settings.wallHeightDefault) / 1000) * MASONRY_DENSITY;
+
+/** Load of the walls above on the beam line (kN, ultimate). */
+const wallLoadOnBeam = (beam: Beam, wallsAbove: WallLoad[]): number =>
+    wallsAbove.reduce((sum, w) =>
+        sum + wallOverlapOnBeam(beam, { start: w.start, end: w.end, thickness: beam.width }) * w.lineLoad, 0);
+
+/**
+ * Designs one beam.
+ * @param tributaries - Slab areas shed onto this and other beams
+ * @param wallsAbove - Traced loads of the walls on the level above; those along the beam line load it
+ */
+export const designBeam = (
+    beam: Beam,
+    index: number,
+    tributaries: TributaryArea[],
+    slabs: Slab[],
+    wallsAbove: WallLoad[],
+    settings: ProjectSettings
+): BeamDesign => {
+    const rules = resolveSlabRules(settings);
+    const fcu = gradeStrength('beam', settings) ?? rules.fcu;
+    const label = beam.label?.trim() || `B${index + 1}`;
+    const span = distance(beam.start, beam.end) / SCALE / 1000; // m
+    const b = beam.width;
+    const h = beam.depth;
+    const issues: string[] = [];
+
+    // 1. Loads (kN/m, ultimate)
+    const slabTotal = tributaries
+        .filter(t => t.supportType === 'beam' && t.supportId === beam.id)
+        .reduce((sum, t) => {
+            const slab = slabs.find(s => s.id === t.slabId);
+            return sum + t.area * slabUltimateLoad(slab?.thickness || 150, settings);
+        }, 0);
+    const slabLoad = span > 0 ? slabTotal / span : 0;
+    const code = getDesignCode(settings);
+    const wallLoad = span > 0 ? wallLoadOnBeam(beam, wallsAbove) / span : 0;
+    const selfWeight = factored(code, CONCRETE_DENSITY * (b / 1000) * (h / 1000));
+    const ultimateLoad = slabLoad + wallLoad + selfWeight;
+
+    // 2. Simply supported actions
+    const moment = ultimateLoad * span * span / 8;
+    const shear = ultimateLoad * span / 2;
+
+    // 3. Bending
+    const linkD = settings.stirrupBarDiameter || 8;
+    const dTop = COVER + linkD + 12 / 2;
+    const M = moment * 1e6;
+    const asMin = MIN_STEEL_RATIO * b * h;
+    const largest = BAR_SIZES[BAR_SIZES.length - 1];
+
+    // Effective depth to the centre of the bottom bars chosen; a larger bar
+    // lowers d, so the section is re-designed until the choice settles
+    const trial = (diameter: number) => {
+        const d = h - COVER - linkD - diameter / 2;
+        const bending = bendingSteel(code, M, b, d, dTop, fcu, rules.fy);
+        const asRequired = Math.max(asMin, bending.tension);
+        const bottomFits = chooseBars(asRequired, b, linkD);
+        const bottom = bottomFits || { count: Math.ceil(asRequired / barsArea({ count: 1, diameter: largest })), diameter: largest };
+        return { d, bending, asRequired, bottomFits, bottom };
+    };
+    let guess = BAR_SIZES[0];
+    let section = trial(guess);
+    while (section.bottom.diameter > guess) {
+        guess = section.bottom.diameter;
+        section = trial(guess);
+    }
+    const { d, bending, asRequired, bottomFits, bottom } = section;
+    const asCompression = bending.compression;
+    if (asCompression > 0) {
+        issues.push(`Doubly reinforced (K = ${bending.K.toFixed(3)} > ${code.flexure.kLimit})`);
+    }
+    if (asRequired + asCompression > 0.04 * b * h) {
+        issues.push(`Steel exceeds 4% of the section; deepen the beam`);
+    }
+    if (!bottomFits) {
+        issues.push(`${Math.ceil(asRequired)}mm² tension steel does not fit in ${b}mm width`);
+    }
+    const top = chooseBars(Math.max(asCompression, asMin / 2), b, linkD) || { count: 2, diameter: 12 };
+
+    // 4. Shear
+    const shearStress = shear * 1000 / (b * d);
+    const { vc, vMax } = code.shear(100 * barsArea(bottom) / (b * d), d, fcu);
+    if (shearStress > vMax) {
+        issues.push(`Shear stress ${shearStress.toFixed(2)} > ${vMax.toFixed(2)} N/mm²; enlarge the section`);
+    }
+    const asvPerSv = code.shearLinks(shearStress, vc, b, FYV, fcu);
+    const asv = 2 * Math.PI * linkD * linkD / 4;
+    const spacing = Math.max(75, Math.floor(Math.min(asv / asvPerSv, 0.75 * d) / 25) * 25);
+
+    // 5. Deflection (the code's basic span/depth with the tension steel modification factor)
+    const basic = code.spanDepth('beam', span * 1000, h, d);
+    const allowableSpanDepth = basic.limit * code.spanDepthModifier.factor(rules.fy, asRequired, barsArea(bottom), M, b, d);
+    const spanDepthRatio = basic.value;
+    if (spanDepthRatio > allowableSpanDepth) {
+        issues.push(`Span/depth ${spanDepthRatio.toFixed(1)} > ${allowableSpanDepth.toFixed(1)}; deflection`);
+    }
+
+    const adequate = !!bottomFits && shearStress <= vMax && spanDepthRatio <= allowableSpanDepth
+        && asRequired + asCompression <= 0.04 * b * h;
+
+    return {
+        beamId: beam.id,
+        label,
+        span,
+        slabLoad,
+        wallLoad,
+        selfWeight,
+        ultimateLoad,
+        moment,
+        shear,
+        effectiveDepth: d,
+        asRequired,
+        asCompression,
+        bottom,
+        top,
+        links: { diameter: linkD, legs: 2, spacing },
+        shearStress,
+        spanDepthRatio,
+        allowableSpanDepth,
+        adequate,
+        issues
+    };
+};
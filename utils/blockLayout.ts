@@ -0,0 +1,236 @@
+import { Wall, Opening, Column, ProjectSettings } from '../types';
+import { distance, getClosestPointOnWall, getWallArc, getWallLength, getWallPointAt, getWallHeightAt, isPointOnSegment } from './geometry';
+import { getOpeningRect, getOpeningSpanAt } from './openingCsg';
+
+const SCALE = 0.05; // Must match Canvas scale
+const NODE_TOLERANCE = 1; // px, same as the engine's junction count
+
+/**
+ * BLOCK LAYOUT (COURSE-BY-COURSE)
+ *
+ * Lays blocks the way a mason does, as a check on the CSG volume count.
+ * 1. Each wall is built in courses of blockHeight + mortar.
+ * 2. Stretcher bond: joints repeat every blockLength + mortar, offset by
+ *    half a block on alternate courses.
+ * 3. Junctions interlock: at corners the walls take turns running through,
+ *    at T-junctions the abutting wall bonds through on alternate courses
+ *    and the through wall leaves a pocket for it.
+ * 4. Openings and sloping (gable) tops cut the courses; any block shorter
+ *    or lower than a full block is counted as a cut.
+ * Arc walls are laid along their centreline.
+ */
+
+export interface LaidBlock {
+    s: number; // mm along the wall from its start
+    z: number; // mm above floor
+    length: number; // mm (block only, excluding joint)
+    height: number; // mm
+    cut: boolean;
+}
+
+export interface WallLayout {
+    wallId: string;
+    length: number; // mm, centreline
+    courses: number;
+    blocks: LaidBlock[];
+    fullBlocks: number;
+    cutBlocks: number;
+    blocksRequired: number; // full blocks + cuts (two small cuts per block)
+}
+
+export interface BlockLayoutResult {
+    walls: WallLayout[];
+    fullBlocks: number;
+    cutBlocks: number;
+    blocks9Inch: number;
+    blocks6Inch: number;
+}
+
+type Span = [number, number];
+
+interface EndCondition {
+    partner: Wall;
+    throughOnEven: boolean; // This wall runs through the junction on even courses
+}
+
+interface Pocket {
+    s: number; // Station of the abutting wall's centreline
+    width: number; // Abutting wall thickness
+}
+
+const samePoint = (a: { x: number, y: number }, b: { x: number, y: number }) =>
+    Math.abs(a.x - b.x) < NODE_TOLERANCE && Math.abs(a.y - b.y) < NODE_TOLERANCE;
+
+// Collinear walls meeting end to end simply continue, they do not interlock
+const isParallel = (a: Wall, b: Wall) => {
+    const ax = a.end.x - a.start.x;
+    const ay = a.end.y - a.start.y;
+    const bx = b.end.x - b.start.x;
+    const by = b.end.y - b.start.y;
+    const lengths = Math.hypot(ax, ay) * Math.hypot(bx, by);
+    return lengths === 0 || Math.abs(ax * by - ay * bx) / lengths < 0.05;
+};
+
+// A point on the run of a wall, straight or curved
+const isOnRun = (p: { x: number, y: number }, w: Wall) => getWallArc(w)
+    ? distance(p, getClosestPointOnWall(p, w).point) < NODE_TOLERANCE
+    : isPointOnSegment(p, w.start, w.end, NODE_TOLERANCE);
+
+/** How a wall end meets the rest of the plan (free ends return undefined). */
+const getEndCondition = (wall: Wall, end: 'start' | 'end', walls: Wall[]): EndCondition | undefined => {
+    const p = wall[end];
+    const index = walls.indexOf(wall);
+
+    // Corner: another wall ends here too. The earlier wall runs through on even courses.
+    const corner = walls
+        .filter(w => w !== wall && !isParallel(w, wall) && (samePoint(w.start, p) || samePoint(w.end, p)))
+        .sort((a, b) => b.thickness - a.thickness)[0];
+    if (corner) return { partner: corner, throughOnEven: index < walls.indexOf(corner) };
+
+    // T-junction: this wall stops on the run of another. It bonds through on odd courses.
+    const through = walls.find(w => w !== wall && !isParallel(w, wall) && isOnRun(p, w));
+    if (through) return { partner: through, throughOnEven: false };
+
+    return undefined;
+};
+
+/** Pockets left in a through wall for walls abutting it at T-junctions. */
+const getPockets = (wall: Wall, walls: Wall[]): Pocket[] => {
+    const length = getWallLength(wall) / SCALE;
+    const pockets: Pocket[] = [];
+    walls.forEach(w => {
+        if (w === wall || isParallel(w, wall)) return;
+        [w.start, w.end].forEach(p => {
+            if (samePoint(p, wall.start) || samePoint(p, wall.end)) return;
+            if (!isOnRun(p, wall)) return;
+            pockets.push({ s: getClosestPointOnWall(p, wall).t * length, width: w.thickness });
+        });
+    });
+    return pockets;
+};
+
+/** Stretches of a wall taken up by columns built into it. */
+const getColumnGaps = (wall: Wall, columns: Column[]): Span[] => {
+    const length = getWallLength(wall) / SCALE;
+    const gaps: Span[] = [];
+    columns.forEach(col => {
+        const { point, t } = getClosestPointOnWall({ x: col.x, y: col.y }, wall);
+        const offset = distance(point, { x: col.x, y: col.y }) / SCALE;
+        const wallAngle = getWallPointAt(wall, t * length * SCALE).angle;
+        const delta = (col.rotation || 0) * (Math.PI / 180) - wallAngle;
+        const along = Math.abs(Math.cos(delta)) * col.width / 2 + Math.abs(Math.sin(delta)) * col.height / 2;
+        const across = Math.abs(Math.sin(delta)) * col.width / 2 + Math.abs(Math.cos(delta)) * col.height / 2;
+        if (offset >= wall.thickness / 2 + across) return; // Clear of the wall
+        gaps.push([t * length - along, t * length + along]);
+    });
+    return gaps;
+};
+
+/** Removes a gap from a set of spans. */
+const subtractGap = (spans: Span[], [g0, g1]: Span): Span[] => spans.flatMap(([a, b]): Span[] => {
+    if (g1 <= a || g0 >= b) return [[a, b]];
+    const kept: Span[] = [];
+    if (g0 > a) kept.push([a, g0]);
+    if (g1 < b) kept.push([g1, b]);
+    return kept;
+});
+
+/**
+ * Lays out one wall course by course.
+ * @param walls - All walls on the level, for junction interlocking
+ */
+export const layoutWall = (wall: Wall, walls: Wall[], openings: Opening[], settings: ProjectSettings, columns: Column[] = []): WallLayout => {
+    const length = getWallLength(wall) / SCALE;
+    const blockLength = settings.blockLength;
+    const blockHeight = settings.blockHeight;
+    const mortar = settings.mortarThickness;
+    const unit = blockLength + mortar;
+    const courseHeight = blockHeight + mortar;
+
+    const heightAt = (s: number) => getWallHeightAt(wall, length > 0 ? s / length : 0, settings.wallHeightDefault);
+    const maxHeight = Math.max(heightAt(0), heightAt(length));
+    const courses = Math.ceil(maxHeight / courseHeight);
+
+    const startCondition = getEndCondition(wall, 'start', walls);
+    const endCondition = getEndCondition(wall, 'end', walls);
+    const pockets = getPockets(wall, walls);
+    const hosted = openings.filter(o => o.wallId === wall.id);
+    const columnGaps = getColumnGaps(wall, columns);
+
+    // Run through the junction to the partner's far face, or stop at its near face
+    const extension = (condition: EndCondition | undefined, course: number) => {
+        if (!condition) return 0;
+        const through = (course % 2 === 0) === condition.throughOnEven;
+        return (through ? 1 : -1) * condition.partner.thickness / 2;
+    };
+
+    const blocks: LaidBlock[] = [];
+
+    for (let course = 0; course < courses; course++) {
+        const z = course * courseHeight;
+        let spans: Span[] = [[-extension(startCondition, course), length + extension(endCondition, course)]];
+
+        // Pockets: abutting walls bond through on odd courses
+        if (course % 2 === 1) {
+            pockets.forEach(p => { spans = subtractGap(spans, [p.s - p.width / 2, p.s + p.width / 2]); });
+        }
+
+        columnGaps.forEach(gap => { spans = subtractGap(spans, gap); });
+
+        // Openings covering most of this course interrupt it, arch heads
+        // by their width at mid-course
+        hosted.forEach(o => {
+            const r = getOpeningRect(o, settings);
+            const covered = Math.min(r.z1, z + courseHeight) - Math.max(r.z0, z);
+            if (covered > courseHeight / 2) spans = subtractGap(spans, getOpeningSpanAt(o, z + courseHeight / 2, settings));
+        });
+
+        // Sloping top: keep the part of the course below the wall top
+        const h0 = heightAt(0);
+        const h1 = heightAt(length);
+        if (h0 !== h1) {
+            const sCross = ((z - h0) / (h1 - h0)) * length;
+            spans = subtractGap(spans, h1 > h0 ? [-Infinity, sCross] : [sCross, Infinity]);
+        } else if (z >= h0) {
+            spans = [];
+        }
+
+        // Stretcher bond: joints on a fixed grid, offset by half a block on odd courses
+        const offset = (course % 2) * unit / 2;
+        spans.forEach(([a, b]) => {
+            for (let joint = Math.floor((a - offset) / unit) * unit + offset; joint < b; joint += unit) {
+                const s0 = Math.max(a, joint);
+                const s1 = Math.min(b, joint + unit);
+                const pieceLength = Math.min(blockLength, s1 - s0);
+                if (pieceLength <= mortar) continue; // Filled with mortar
+
+                const top = Math.min(heightAt(s0), heightAt(s1));
+                const height = Math.min(blockHeight, Math.max(heightAt(s0), heightAt(s1)) - z);
+                const cut = s1 - s0 < unit - 1e-6 || top < z + blockHeight;
+                blocks.push({ s: s0, z, length: pieceLength, height, cut });
+            }
+        });
+    }
+
+    const fullBlocks = blocks.filter(b => !b.cut).length;
+    const cuts = blocks.filter(b => b.cut);
+    const largeCuts = cuts.filter(b => b.length > blockLength / 2).length;
+    const blocksRequired = fullBlocks + largeCuts + Math.ceil((cuts.length - largeCuts) / 2);
+
+    return { wallId: wall.id, length, courses, blocks, fullBlocks, cutBlocks: cuts.length, blocksRequired };
+};
+
+/** Lays out every wall on a level and totals blocks by thickness. */
+export const layoutBlocks = (walls: Wall[], openings: Opening[], settings: ProjectSettings, columns: Column[] = []): BlockLayoutResult => {
+    const layouts = walls.map(w => layoutWall(w, walls, openings, settings, columns));
+    const result: BlockLayoutResult = { walls: layouts, fullBlocks: 0, cutBlocks: 0, blocks9Inch: 0, blocks6Inch: 0 };
+
+    layouts.forEach((layout, i) => {
+        result.fullBlocks += layout.fullBlocks;
+        result.cutBlocks += layout.cutBlocks;
+        if (walls[i].thickness > 150) result.blocks9Inch += layout.blocksRequired;
+        else result.blocks6Inch += layout.blocksRequired;
+    });
+
+    return result;
+};
@@ -0,0 +1,137 @@
+import { BarScheduleEntry } from '../types';
+
+const DEFAULT_STOCK_LENGTH = 12000; // mm, as sold by suppliers
+
+/**
+ * CUTTING STOCK (REINFORCEMENT)
+ *
+ * Packs the cut list from the bar schedule into stock lengths, one diameter
+ * at a time, with best-fit decreasing: the longest cut goes first, into the
+ * stock bar it leaves the shortest offcut in, or a new bar if none fits.
+ * Bars longer than the stock length are supplied as full lengths lapped to
+ * a closing piece, so only the closing piece is packed.
+ * Identical stock bars are grouped into patterns for the fabricator.
+ */
+
+export interface StockCut {
+    mark: string;
+    length: number; // mm
+}
+
+export interface CuttingPattern {
+    cuts: StockCut[]; // Longest first
+    offcut: number; // mm
+    repeat: number; // Stock bars cut to this pattern
+}
+
+export interface CuttingPlan {
+    diameter: number; // mm
+    stockLength: number; // mm
+    stockBars: number; // To buy
+    usedLength: number; // m
+    wasteLength: number; // m
+    wastePercent: number;
+    patterns: CuttingPattern[];
+}
+
+interface OpenBar {
+    cuts: StockCut[];
+    remaining: number; // mm
+}
+
+/** Cut list (mm) for one diameter, with lapped bars split into stock lengths. */
+const expandCuts = (entries: BarScheduleEntry[], stockLength: number): { cuts: StockCut[], fullBars: StockCut[] } => {
+    const cuts: StockCut[] = [];
+    const fullBars: StockCut[] = [];
+    entries.forEach(e => {
+        const fullPerBar = Math.floor(e.cutLength / stockLength);
+        const closing = e.cutLength - fullPerBar * stockLength;
+        for (let i = 0; i < e.count; i++) {
+            for (let j = 0; j < fullPerBar; j++) fullBars.push({ mark: e.mark, length: stockLength });
+            if (closing > 0) cuts.push({ mark: e.mark, length: closing });
+        }
+    });
+    return { cuts, fullBars };
+};
+
+/** Groups identical stock bars into patterns. */
+const toPatterns = (bars: OpenBar[]): CuttingPattern[] => {
+    const patterns = new Map<string, CuttingPattern>();
+    bars.forEach(bar => {
+        const key = bar.cuts.map(c => `${c.mark}:${c.length}`).join('|');
+        const pattern = patterns.get(key);
+        if (pattern) pattern.repeat++;
+        else patterns.set(key, { cuts: bar.cuts, offcut: bar.remaining, repeat: 1 });
+    });
+    return [...patterns.values()].sort((a, b) => b.repeat - a.repeat || a.offcut - b.offcut);
+};
+
+/**
+ * Plans the cutting of one diameter's bars from stock lengths.
+ * @param kerf - Material lost per cut (mm); zero for shear-cut rebar
+ */
+export const planCutting = (entries: BarScheduleEntry[], diameter: number, stockLength: number = DEFAULT_STOCK_LENGTH, kerf: number = 0): CuttingPlan => {
+    const { cuts, fullBars } = expandCuts(entries.filter(e => e.diameter === diameter), stockLength);
+    cuts.sort((a, b) => b.length - a.length);
+
+    const bars: OpenBar[] = fullBars.map(c => ({ cuts: [c], remaining: 0 }));
+    const open: OpenBar[] = [];
+    cuts.forEach(cut => {
+        let best: OpenBar | undefined;
+        open.forEach(bar => {
+            const fits = bar.remaining >= cut.length + kerf;
+            if (fits && (!best || bar.remaining < best.remaining)) best = bar;
+        });
+        if (!best) {
+            best = { cuts: [], remaining: stockLength };
+            open.push(best);
+        }
+        best.cuts.push(cut);
+        best.remaining -= cut.length + kerf;
+    });
+    // The last cut in a bar leaves the offcut, not a kerf
+    open.forEach(bar => { bar.remaining = Math.min(stockLength, bar.remaining + kerf); });
+    bars.push(...open);
+
+    const stockBars = bars.length;
+    const usedLength = [...cuts, ...fullBars].reduce((sum, c) => sum + c.length, 0) / 1000;
+    const purchased = stockBars * stockLength / 1000;
+    const wasteLength = Math.max(0, purchased - usedLength);
+
+    return {
+        diameter,
+        stockLength,
+        stockBars,
+        usedLength,
+        wasteLength,
+        wastePercent: purchased > 0 ? (wasteLength / purchased) * 100 : 0,
+        patterns: toPatterns(bars)
+    };
+};
+
+/** Cutting plans for every diameter in the schedule, smallest first. */
+export const planAllCutting = (entries: BarScheduleEntry[], stockLength: number = DEFAULT_STOCK_LENGTH): CuttingPlan[] =>
+    [...new Set(entries.map(e => e.diameter))]
+        .sort((a, b) => a - b)
+        .map(d => planCutting(entries, d, stockLength));
+
+/** Cuts in a pattern as fabricator text, e.g. "9 × B1-03 (1325)". */
+export const describePattern = (pattern: CuttingPattern): string => {
+    const groups: { cut: StockCut, n: number }[] = [];
+    pattern.cuts.forEach(cut => {
+        const group = groups.find(g => g.cut.mark === cut.mark && g.cut.length === cut.length);
+        if (group) group.n++;
+        else groups.push({ cut, n: 1 });
+    });
+    return groups.map(g => `${g.n > 1 ? `${g.n} × ` : ''}${g.cut.mark} (${g.cut.length})`).join(' + ');
+};
+
+/** Cutting plans as CSV, one row per pattern. */
+export const cuttingPlansToCsv = (plans: CuttingPlan[]): string => {
+    const rows = [['Dia (mm)', 'Stock Bars', 'Cuts (mark and length in mm)', 'Offcut (mm)']];
+    plans.forEach(plan => {
+        plan.patterns.forEach(p => rows.push([String(plan.diameter), String(p.repeat), describePattern(p), String(p.offcut)]));
+        rows.push([String(plan.diameter), String(plan.stockBars), `TOTAL (waste ${plan.wastePercent.toFixed(1)}%)`, (plan.wasteLength * 1000).toFixed(0)]);
+    });
+    return rows.map(row => row.map(cell => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(',')).join('\n');
+};
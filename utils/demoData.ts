@@ -32,10 +32,7 @@ const STANDARD_SETTINGS: ProjectSettings = {
     mortarRatio: 6,
     floorMixRatio: "1:2:4",
     foundationType: 'strip',
-    foundationWidth: 675,
-    foundationDepth: 900,
-    padLength: 1000,
-    padWidth: 1000
+    foundationDepth: 900
 };
 
 export const DEMO_PROJECTS: Record<string, DemoProject> = {
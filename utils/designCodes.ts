@@ -0,0 +1,202 @@
+import { ProjectSettings, DesignCodeId } from '../types';
+
+export type SpanDepthMember = 'beam' | 'one-way' | 'two-way' | 'cantilever';
+
+/**
+ * DESIGN CODES
+ *
+ * Everything the safety engine, the load takedown and member design take
+ * from a code of practice: the ultimate load combination, material partial
+ * factors, bending and shear of rectangular sections, the column
+ * slenderness limit and axial capacity, span/depth limits for beams,
+ * lintels and slabs, the slenderness limit of masonry walls (from the
+ * masonry code used alongside) and the seismic rules behind the lateral
+ * check, each with the clause it comes from so
+ * reports can cite it. Material grades stay project settings (cube
+ * strength fcu and steel yield fy); codes working to cylinder strength
+ * convert with fck = 0.8 fcu. ACI strength reduction factors φ are held as
+ * their inverse so they divide like partial factors.
+ */
+
+export interface ClauseValue {
+    value: number;
+    limit: number;
+    clause: string;
+}
+
+export interface DesignCode {
+    id: DesignCodeId;
+    name: string;
+    loadFactors: { dead: number, imposed: number };
+    loadClause: string;
+    /** Concrete in flexure and compression, concrete in shear, reinforcement. */
+    partialFactors: { concrete: number, shear: number, steel: number };
+    materialClause: string;
+    /** Concrete strength the section formulas work to, from the cube strength. */
+    concreteStrength: (fcu: number) => number;
+    /** Singly reinforced limit K' on K = M / (f b d²), and the lever arm z/d for K. */
+    flexure: { kLimit: number, leverArm: (K: number) => number, clause: string };
+    /** Shear stress (N/mm2) carried by the concrete for tension steel ρ (%) at effective depth d, and the upper limit. */
+    shear: (rho: number, d: number, fcu: number) => { vc: number, vMax: number };
+    /** Link area over spacing (mm2/mm) for shear stress v on width b, links of yield fyv. */
+    shearLinks: (v: number, vc: number, b: number, fyv: number, fcu: number) => number;
+    shearClause: string;
+    /** Column slenderness against the short braced column limit. */
+    slenderness: (clearHeight: number, minDimension: number, axialLoad: number, area: number, fcu: number) => ClauseValue;
+    /** Axial capacity of a short braced column (kN). */
+    columnCapacity: (concreteArea: number, steelArea: number, fcu: number, fy: number) => number;
+    capacityClause: string;
+    /** Simply supported span/depth ratio against the basic limit (span and depths in mm). */
+    spanDepth: (member: SpanDepthMember, span: number, overallDepth: number, effectiveDepth: number) => ClauseValue;
+    /** Factor on the basic span/depth limit for the tension steel provided (M in Nmm, b and d in mm). */
+    spanDepthModifier: { factor: (fy: number, asRequired: number, asProvided: number, M: number, b: number, d: number) => number, clause: string };
+    /** Effective height or length over effective thickness of a masonry wall. */
+    masonrySlenderness: { limit: number, clause: string };
+    /** Clauses behind the lateral check's (configurable) limits. */
+    lateralClauses: { wallRatio: string, torsion: string, openings: string };
+}
+
+const BS_FACTORS = { concrete: 1.5, shear: 1.25, steel: 1.05 };
+
+const BS8110: DesignCode = {
+    id: 'BS8110',
+    name: 'BS 8110-1:1997',
+    loadFactors: { dead: 1.4, imposed: 1.6 },
+    loadClause: 'BS 8110-1 Table 2.1',
+    partialFactors: BS_FACTORS,
+    materialClause: 'BS 8110-1 Table 2.2',
+    concreteStrength: fcu => fcu,
+    // No redistribution
+    flexure: { kLimit: 0.156, leverArm: K => Math.min(0.95, 0.5 + Math.sqrt(Math.max(0, 0.25 - K / 0.9))), clause: 'BS 8110-1 3.4.4.4' },
+    shear: (rho, d, fcu) => ({
+        vc: 0.79 * Math.cbrt(Math.min(3, Math.max(0.15, rho))) * Math.pow(Math.max(1, 400 / d), 0.25) / BS_FACTORS.shear * Math.cbrt(Math.min(fcu, 40) / 25),
+        vMax: Math.min(0.8 * Math.sqrt(fcu), 5)
+    }),
+    // Nominal links up to vc + 0.4 (Table 3.7)
+    shearLinks: (v, vc, b, fyv) => Math.max(0.4, v - vc) * b / (fyv / BS_FACTORS.steel),
+    shearClause: 'BS 8110-1 3.4.5, Tables 3.7 and 3.8',
+    slenderness: (height, h) => ({ value: height / h, limit: 15, clause: 'BS 8110-1 3.8.1.3' }),
+    // Eq. 39: short braced column with nominal eccentricity
+    columnCapacity: (Ac, Asc, fcu, fy) => (0.35 * fcu * Ac + 0.67 * fy * Asc) / 1000,
+    capacityClause: 'BS 8110-1 3.8.4.4 Eq. 39',
+    spanDepth: (member, span, h, d) => ({ value: span / d, limit: member === 'cantilever' ? 7 : 20, clause: 'BS 8110-1 Table 3.9' }),
+    spanDepthModifier: {
+        factor: (fy, asRequired, asProvided, M, b, d) => {
+            const fs = (2 / 3) * fy * asRequired / asProvided;
+            return Math.min(2, 0.55 + (477 - fs) / (120 * (0.9 + M / (b * d * d))));
+        },
+        clause: 'BS 8110-1 Table 3.10'
+    },
+    masonrySlenderness: { limit: 27, clause: 'BS 5628-1 28.3.1' },
+    // No seismic part in BS; the UK annex to Eurocode 8 applies
+    lateralClauses: { wallRatio: 'EN 1998-1 9.7.2, Table 9.3', torsion: 'EN 1998-1 4.2.3.2(6)', openings: 'EN 1998-1 9.7.2 (project limit)' }
+};
+
+const EC2_FACTORS = { concrete: 1.5, shear: 1.5, steel: 1.15 };
+
+const EC2: DesignCode = {
+    id: 'EC2',
+    name: 'EN 1992-1-1 (Eurocode 2)',
+    loadFactors: { dead: 1.35, imposed: 1.5 },
+    loadClause: 'EN 1990 Eq. 6.10, Table A1.2(B)',
+    partialFactors: EC2_FACTORS,
+    materialClause: 'EN 1992-1-1 Table 2.1N',
+    concreteStrength: fcu => 0.8 * fcu,
+    // Rectangular stress block, no redistribution
+    flexure: { kLimit: 0.167, leverArm: K => Math.min(0.95, 0.5 * (1 + Math.sqrt(Math.max(0, 1 - 3.53 * K)))), clause: 'EN 1992-1-1 6.1, 3.1.7' },
+    // Members with links: VRd,c from the tension steel, VRd,max with θ = 45° and z = 0.9d
+    shear: (rho, d, fcu) => {
+        const fck = 0.8 * fcu;
+        const k = Math.min(2, 1 + Math.sqrt(200 / d));
+        const vMin = 0.035 * Math.pow(k, 1.5) * Math.sqrt(fck);
+        const nu = 0.6 * (1 - fck / 250);
+        return {
+            vc: Math.max(vMin, (0.18 / EC2_FACTORS.shear) * k * Math.cbrt(Math.min(2, rho) * fck)),
+            vMax: 0.45 * nu * fck / EC2_FACTORS.concrete
+        };
+    },
+    // Variable strut, cot θ = 2.5; links carry the whole shear, at least the minimum ratio
+    shearLinks: (v, vc, b, fyv, fcu) => Math.max(0.08 * Math.sqrt(0.8 * fcu) / fyv, v / (0.9 * 2.5 * fyv / EC2_FACTORS.steel)) * b,
+    shearClause: 'EN 1992-1-1 6.2.2, 6.2.3, 9.2.2(5)',
+    // Simplified limit with the recommended A = 0.7, B = 1.1, C = 0.7
+    slenderness: (height, h, load, area, fcu) => {
+        const fcd = 0.85 * 0.8 * fcu / EC2_FACTORS.concrete;
+        const n = Math.max(load * 1000 / (area * fcd), 0.01);
+        return { value: height * Math.sqrt(12) / h, limit: 20 * 0.7 * 1.1 * 0.7 / Math.sqrt(n), clause: 'EN 1992-1-1 5.8.3.1' };
+    },
+    columnCapacity: (Ac, Asc, fcu, fy) => (0.85 * 0.8 * fcu / EC2_FACTORS.concrete * Ac + fy / EC2_FACTORS.steel * Asc) / 1000,
+    capacityClause: 'EN 1992-1-1 6.1, 3.1.6',
+    // K = 1, lightly stressed (ρ = 0.5%)
+    spanDepth: (member, span, h, d) => ({ value: span / d, limit: member === 'cantilever' ? 8 : 20, clause: 'EN 1992-1-1 Table 7.4N' }),
+    // 310/σs taken as As,prov/As,req for fyk = 500, at most 1.5
+    spanDepthModifier: {
+        factor: (fy, asRequired, asProvided) => Math.min(1.5, (500 / fy) * asProvided / asRequired),
+        clause: 'EN 1992-1-1 7.4.2(2), Eq. 7.17'
+    },
+    masonrySlenderness: { limit: 27, clause: 'EN 1996-1-1 5.5.1.4' },
+    lateralClauses: { wallRatio: 'EN 1998-1 9.7.2, Table 9.3', torsion: 'EN 1998-1 4.2.3.2(6)', openings: 'EN 1998-1 9.7.2 (project limit)' }
+};
+
+// φ = 0.65 compression-controlled (tied columns), 0.75 shear, 0.9 tension-controlled flexure
+const ACI_FACTORS = { concrete: 1 / 0.65, shear: 1 / 0.75, steel: 1 / 0.9 };
+
+const ACI318: DesignCode = {
+    id: 'ACI318',
+    name: 'ACI 318-19',
+    loadFactors: { dead: 1.2, imposed: 1.6 },
+    loadClause: 'ACI 318-19 Table 5.3.1 Eq. 5.3.1b',
+    partialFactors: ACI_FACTORS,
+    materialClause: 'ACI 318-19 Table 21.2.1, 21.2.2',
+    concreteStrength: fcu => 0.8 * fcu,
+    // Whitney block, β1 = 0.85: φMn = 0.9 × 0.85 f'c b a (d - a/2); K' at the tension-controlled limit c = 0.375d
+    flexure: { kLimit: 0.205, leverArm: K => Math.min(0.95, 1 - (1 - Math.sqrt(Math.max(0, 1 - 2 * K / 0.765))) / 2), clause: 'ACI 318-19 22.2, 21.2.2' },
+    shear: (rho, d, fcu) => {
+        const root = Math.sqrt(0.8 * fcu);
+        return { vc: 0.17 * root / ACI_FACTORS.shear, vMax: (0.17 + 0.66) * root / ACI_FACTORS.shear };
+    },
+    shearLinks: (v, vc, b, fyv, fcu) => Math.max(
+        Math.max(0.062 * Math.sqrt(0.8 * fcu), 0.35) / fyv,
+        (v - vc) / (fyv / ACI_FACTORS.shear)
+    ) * b,
+    shearClause: 'ACI 318-19 22.5.5.1, 22.5.1.2, 9.6.3.4',
+    // Braced column, k = 1, r = 0.3h, M1/M2 taken as zero
+    slenderness: (height, h) => ({ value: height / (0.3 * h), limit: 34, clause: 'ACI 318-19 6.2.5.1' }),
+    // φPn,max for tied columns
+    columnCapacity: (Ac, Asc, fcu, fy) => 0.8 * (0.85 * 0.8 * fcu * (Ac - Asc) + fy * Asc) / ACI_FACTORS.concrete / 1000,
+    capacityClause: 'ACI 318-19 22.4.2.1, Table 22.4.2.1',
+    // Minimum overall depth, normal weight concrete, fy = 420 MPa
+    spanDepth: (member, span, h) => {
+        if (member === 'beam') return { value: span / h, limit: 16, clause: 'ACI 318-19 Table 9.3.1.1' };
+        if (member === 'two-way') return { value: span / h, limit: 33, clause: 'ACI 318-19 Table 8.3.1.1' };
+        return { value: span / h, limit: member === 'cantilever' ? 10 : 20, clause: 'ACI 318-19 Table 7.3.1.1' };
+    },
+    // Table limits are for fy = 420; other grades scale the depth by 0.4 + fy/700
+    spanDepthModifier: {
+        factor: fy => 1 / (0.4 + fy / 700),
+        clause: 'ACI 318-19 Table 9.3.1.1(a)'
+    },
+    masonrySlenderness: { limit: 18, clause: 'TMS 402-16 Table A.5.2.1' },
+    lateralClauses: { wallRatio: 'ASCE 7-16 12.2 (project limit)', torsion: 'ASCE 7-16 Table 12.3-1, Type 1a', openings: 'ASCE 7-16 12.3 (project limit)' }
+};
+
+export const DESIGN_CODES: Record<DesignCodeId, DesignCode> = { BS8110, EC2, ACI318 };
+
+/** The project's design code (BS 8110 unless set). */
+export const getDesignCode = (settings: ProjectSettings): DesignCode => DESIGN_CODES[settings.designCode || 'BS8110'] || BS8110;
+
+/** Factored load from characteristic dead and imposed loads. */
+export const ultimateLoad = (code: DesignCode, dead: number, imposed: number = 0): number =>
+    code.loadFactors.dead * dead + code.loadFactors.imposed * imposed;
+
+/** Steel (mm2) for a rectangular section in bending, compression steel above the singly reinforced limit. */
+export const bendingSteel = (code: DesignCode, M: number, b: number, d: number, dTop: number, fcu: number, fy: number) => {
+    const f = code.concreteStrength(fcu);
+    const fyd = fy / code.partialFactors.steel;
+    const { kLimit, leverArm } = code.flexure;
+    const K = M / (f * b * d * d);
+    if (K <= kLimit) {
+        return { K, tension: M / (fyd * leverArm(K) * d), compression: 0 };
+    }
+    const compression = (K - kLimit) * f * b * d * d / (fyd * (d - dTop));
+    return { K, tension: kLimit * f * b * d * d / (fyd * leverArm(kLimit) * d) + compression, compression };
+};
@@ -1,8 +1,31 @@
-import { Wall, Opening, ProjectSettings, CalculationResult, Column, SafetyReport, SafetyStatus, SafetyIssue, Beam, Slab } from '../types';
-import { distance, calculateFloorArea, calculatePolygonArea, getAngle, wallToPolygon, computeUnion, computeDifference, calculateMultiPolygonArea } from './geometry';
+import { Wall, Opening, ProjectSettings, CalculationResult, Column, SafetyReport, SafetyStatus, SafetyIssue, MemberSafety, Beam, Slab, ProjectLabel, Level, LevelResult, Roof, LoadTakedown, BeamDesign, SlabDesign, LateralReport } from '../types';
+import { distance, calculatePolygonArea, getAngle, wallToPolygon, columnToPolygon, computeUnion, computeDifference, computeIntersection, calculateMultiPolygonArea, addToUnion, polygonCentroid, getClosestPointOnLine, getClosestPointOnWall, getWallLength, getWallHeightAt, MultiPolygon } from './geometry';
+import { detectRooms } from './roomDetection';
+import { computeOpeningVoid, getArchGeometry, getOpeningArea, ARCH_EXTRA_BARS } from './openingCsg';
+import { layoutBlocks } from './blockLayout';
+import { computePlasterTakeoff } from './plasterTakeoff';
+import { calculateRoofTakeoff } from './roofDesign';
+import { designSlab, getSlabBarLength, resolveSlabRules } from './slabDesign';
+import { buildBarSchedule } from './barSchedule';
+import { buildOpeningSchedule } from './openingSchedule';
+import { computeFloorFinishes } from './floorFinishes';
+import { buildPaintSchedule } from './paintSchedule';
+import { designBeam, wallOverlapOnBeam } from './beamDesign';
+import { calculateTributaryAreas, TributaryArea } from './structuralAnalysis';
+import { traceLoads } from './loadTakedown';
+import { designFoundations, getFoundationVolume } from './foundationDesign';
+import { getDesignCode } from './designCodes';
+import { analyzeLateral, resolveLateralLimits, wallOpeningRatio } from './lateralAnalysis';
+import { nominalMixMaterials, concreteMaterialsFor, gradeStrength } from './mixDesign';
+import { getLevelWallHeight } from './levels';
 
 // CONSTANTS
 const SCALE = 0.05; // Must match Canvas scale for decoding length
+// Column spacing worth a warning, and beyond which the frame is critical (m). A
+// rule of thumb for this building type, not a code limit: beams and slabs are
+// checked against their code's span/depth ratios below.
+const COLUMN_SPACING_LIMITS = { warning: 4.5, critical: 5.5 };
+const COLUMN_SPACING_CLAUSE = 'Project limit (column spacing)';
 
 /**
  * THE ESTIMATION ENGINE (CSG V2)
@@ -37,56 +60,106 @@ const countIntersections = (walls: Wall[]): number => {
     return intersections;
 };
 
-// Helper: Calculate Concrete Materials (Cement, Sand, Aggregate)
-const calculateConcreteMaterials = (volume: number, mixRatio: string = "1:2:4") => {
-    const parts = mixRatio.split(':').map(Number);
-    const cementPart = parts[0] || 1;
-    const sandPart = parts[1] || 2;
-    const aggPart = parts[2] || 4;
-    const totalParts = cementPart + sandPart + aggPart;
-
-    const dryVolume = volume * 1.54; // Safety factor for shrinkage
-
-    const cementVol = (cementPart / totalParts) * dryVolume;
-    const sandVol = (sandPart / totalParts) * dryVolume;
-    const aggVol = (aggPart / totalParts) * dryVolume;
-
-    return {
-        cementBags: (cementVol / 0.035), // 50kg bag = 0.035m3
-        sandTons: sandVol * 1.6, // Density 1600kg/m3
-        aggregateTons: aggVol * 1.5 // Density 1500kg/m3
+// --- STRUCTURAL SAFETY ENGINE ---
+// Limits and capacity formulas come from the project's design code; every issue cites its clause
+const JOINT_TOLERANCE = 50; // mm, a cross wall or column this close to the wall line restrains it
+
+const worse = (a: SafetyStatus, b: SafetyStatus): SafetyStatus =>
+    a === 'critical' || b === 'critical' ? 'critical' : a === 'warning' || b === 'warning' ? 'warning' : 'safe';
+
+/** Positions (mm from the start) where cross walls or columns restrain a wall against buckling along its length. */
+const wallRestraints = (wall: Wall, walls: Wall[], columns: Column[]): number[] => {
+    const length = getWallLength(wall) / SCALE;
+    if (length === 0) return [];
+    const chord = distance(wall.start, wall.end);
+    const ux = (wall.end.x - wall.start.x) / chord;
+    const uy = (wall.end.y - wall.start.y) / chord;
+    const offset = (p: { x: number, y: number }, host: Wall) => {
+        const { point, t } = getClosestPointOnWall(p, host);
+        return { gap: distance(p, point) / SCALE, t };
     };
+
+    const stops: number[] = [];
+    walls.forEach(other => {
+        if (other.id === wall.id) return;
+        const otherLength = distance(other.start, other.end);
+        if (otherLength === 0) return;
+        const sine = Math.abs(ux * (other.end.y - other.start.y) - uy * (other.end.x - other.start.x)) / otherLength;
+        if (sine < 0.5) return; // Within 30° of parallel: not a cross wall
+
+        // Cross wall ending on this wall
+        [other.start, other.end].forEach(p => {
+            const { gap, t } = offset(p, wall);
+            if (gap <= wall.thickness / 2 + JOINT_TOLERANCE) stops.push(t * length);
+        });
+        // This wall ending on the cross wall
+        [wall.start, wall.end].forEach((p, i) => {
+            if (offset(p, other).gap <= other.thickness / 2 + JOINT_TOLERANCE) stops.push(i * length);
+        });
+    });
+    columns.forEach(col => {
+        const { gap, t } = offset({ x: col.x, y: col.y }, wall);
+        if (gap <= wall.thickness / 2 + JOINT_TOLERANCE) stops.push(t * length);
+    });
+    return stops.sort((a, b) => a - b);
 };
 
-// --- STRUCTURAL SAFETY ENGINE ---
-const analyzeStructuralSafety = (columns: Column[], walls: Wall[], settings: ProjectSettings): SafetyReport => {
+const analyzeStructuralSafety = (
+    columns: Column[],
+    beams: Beam[],
+    slabs: Slab[],
+    walls: Wall[],
+    openings: Opening[],
+    settings: ProjectSettings,
+    loads: LoadTakedown,
+    beamDesigns: BeamDesign[],
+    slabDesigns: SlabDesign[],
+    tributaries: TributaryArea[],
+    lateral?: LateralReport
+): SafetyReport => {
+    const code = getDesignCode(settings);
+    const rules = resolveSlabRules(settings);
+    const { fy } = rules;
+    const fcu = gradeStrength('column', settings) ?? rules.fcu;
     const report: SafetyReport = {
         overallScore: 100,
-        columns: {}
+        designCode: code.name,
+        columns: {},
+        beams: {},
+        slabs: {},
+        walls: {},
+        lintels: {},
+        lateral: lateral ? [lateral] : []
     };
 
     let criticalCount = 0;
     let warningCount = 0;
-    const totalColumns = columns.length;
-
-    if (totalColumns === 0) return report;
+    const tally = (record: Record<string, MemberSafety>, id: string, entry: MemberSafety) => {
+        if (entry.status === 'critical') criticalCount++;
+        else if (entry.status === 'warning') warningCount++;
+        record[id] = entry;
+    };
 
     columns.forEach(col => {
         const issues: SafetyIssue[] = [];
         let status: SafetyStatus = 'safe';
-        let load = 0;
-        let capacity = 0;
+
+        // Axial load traced down from the slabs, beams and floors above
+        const traced = loads.columns.find(c => c.columnId === col.id);
+        const load = traced?.axialLoad || 0;
+        const Ac = col.width * col.height;
 
         // 1. Slenderness Check
         const minDim = Math.min(col.width, col.height);
-        const slenderness = settings.wallHeightDefault / minDim;
+        const slenderness = code.slenderness(settings.wallHeightDefault, minDim, load, Ac, fcu);
 
-        if (slenderness > 15) {
+        if (slenderness.value > slenderness.limit) {
             issues.push({
                 type: 'slenderness',
-                message: `Too Slender (Ratio ${slenderness.toFixed(1)} > 15)`,
-                value: slenderness,
-                limit: 15
+                message: `Too Slender (Ratio ${slenderness.value.toFixed(1)} > ${slenderness.limit.toFixed(1)})`,
+                value: slenderness.value,
+                limit: slenderness.limit,
+                clause: slenderness.clause
             });
             status = 'warning';
         }
@@ -100,46 +173,43 @@ const analyzeStructuralSafety = (columns: Column[], walls: Wall[], settings: Pro
         });
 
         const spanM = minDist / 1000;
+        const { warning: spanWarning, critical: spanCritical } = COLUMN_SPACING_LIMITS;
         if (minDist !== Infinity) {
-            if (spanM > 5.5) {
+            if (spanM > spanCritical) {
                 issues.push({
                     type: 'span',
-                    message: `Span ${spanM.toFixed(1)}m > 5.5m (Critical)`,
+                    message: `Span ${spanM.toFixed(1)}m > ${spanCritical}m (Critical)`,
                     value: spanM,
-                    limit: 5.5
+                    limit: spanCritical,
+                    clause: COLUMN_SPACING_CLAUSE
                 });
                 status = 'critical';
-            } else if (spanM > 4.5) {
+            } else if (spanM > spanWarning) {
                 issues.push({
                     type: 'span',
-                    message: `Span ${spanM.toFixed(1)}m > 4.5m (Warning)`,
+                    message: `Span ${spanM.toFixed(1)}m > ${spanWarning}m (Warning)`,
                     value: spanM,
-                    limit: 4.5
+                    limit: spanWarning,
+                    clause: COLUMN_SPACING_CLAUSE
                 });
                 status = 'warning';
             }
         }
 
-        // 3. Tributary Area & Axial Load Check
-        const tributaryArea = (spanM * spanM) * 0.6;
-        const loadPerFloor = 12; // kN/m2
-        const floors = settings.floorCount || 1;
-        load = tributaryArea * loadPerFloor * floors;
-
-        // Capacity
-        const Ac = col.width * col.height;
+        // 3. Axial Load Check
         const barCount = settings.mainBarCount || 4;
         const barDia = settings.mainBarDiameter || 12;
         const Asc = barCount * (Math.PI * Math.pow(barDia / 2, 2));
 
-        capacity = (0.35 * 25 * Ac + 0.67 * 410 * Asc) / 1000;
+        const capacity = code.columnCapacity(Ac, Asc, fcu, fy);
 
         if (load > capacity) {
             issues.push({
                 type: 'load',
                 message: `Overloaded! ${Math.ceil(load)}kN > ${Math.ceil(capacity)}kN`,
                 value: load,
-                limit: capacity
+                limit: capacity,
+                clause: code.capacityClause
             });
             status = 'critical';
         } else if (load > capacity * 0.85) {
@@ -147,17 +217,201 @@ const analyzeStructuralSafety = (columns: Column[], walls: Wall[], settings: Pro
                 type: 'load',
                 message: `High Stress (${Math.ceil(load)}kN)`,
                 value: load,
-                limit: capacity
+                limit: capacity,
+                clause: code.capacityClause
             });
             if (status !== 'critical') status = 'warning';
         }
 
-        if (status === 'critical') criticalCount++;
-        else if (status === 'warning') warningCount++;
+        tally(report.columns, col.id, { label: traced?.label, status, issues, load, capacity });
+    });
 
-        report.columns[col.id] = { status, issues, load, capacity };
+    // Beams: span/depth against the code's basic ratio, deflection from the designed tension steel
+    beams.forEach(beam => {
+        const design = beamDesigns.find(d => d.beamId === beam.id);
+        if (!design || design.span === 0) return;
+        const issues: SafetyIssue[] = [];
+        let status: SafetyStatus = 'safe';
+
+        const ratio = code.spanDepth('beam', design.span * 1000, beam.depth, design.effectiveDepth);
+        if (ratio.value > ratio.limit) {
+            issues.push({
+                type: 'span',
+                message: `Span/depth ${ratio.value.toFixed(1)} > ${ratio.limit}`,
+                value: ratio.value,
+                limit: ratio.limit,
+                clause: ratio.clause
+            });
+            status = 'warning';
+        }
+        if (design.spanDepthRatio > design.allowableSpanDepth) {
+            issues.push({
+                type: 'deflection',
+                message: `Deflection: span/depth ${design.spanDepthRatio.toFixed(1)} > ${design.allowableSpanDepth.toFixed(1)} with tension steel`,
+                value: design.spanDepthRatio,
+                limit: design.allowableSpanDepth,
+                clause: `${ratio.clause}, ${code.spanDepthModifier.clause}`
+            });
+            status = 'critical';
+        }
+
+        tally(report.beams, beam.id, { label: design.label, status, issues, load: design.ultimateLoad });
     });
 
+    // Slabs: span/thickness on the short span, and edges with nothing underneath
+    const supports = [
+        ...beams.map(b => ({ start: b.start, end: b.end })),
+        ...walls.map(w => ({ start: w.start, end: w.end }))
+    ];
+    slabDesigns.forEach(design => {
+        const slab = slabs.find(s => s.id === design.slabId);
+        if (!slab) return;
+        const issues: SafetyIssue[] = [];
+        let status: SafetyStatus = 'safe';
+        const h = slab.thickness || 150;
+        const mainBar = design.bars.find(b => b.position === 'bottom' && b.role === 'main')?.diameter || rules.barDiameters[0];
+        const d = h - rules.cover - mainBar / 2;
+
+        if (design.supportedEdges === 0) {
+            issues.push({
+                type: 'support',
+                message: 'No beam or wall under any edge',
+                clause: code.spanDepth(design.type, 0, h, d).clause
+            });
+            tally(report.slabs, slab.id, { label: design.label, status: 'critical', issues, load: design.ultimateLoad });
+            return;
+        }
+
+        const ratio = code.spanDepth(design.type, design.lx * 1000, h, d);
+        if (ratio.value > ratio.limit) {
+            issues.push({
+                type: 'span',
+                message: `Span/depth ${ratio.value.toFixed(1)} > ${ratio.limit} (${h}mm thick)`,
+                value: ratio.value,
+                limit: ratio.limit,
+                clause: ratio.clause
+            });
+            status = 'warning';
+        }
+
+        // Unsupported edges cantilever from the nearest beam or wall
+        tributaries.filter(t => t.slabId === slab.id && t.cantilever).forEach(t => {
+            const mid = { x: (t.edge[0].x + t.edge[1].x) / 2, y: (t.edge[0].y + t.edge[1].y) / 2 };
+            const reach = Math.min(...supports.map(sp => distance(mid, getClosestPointOnLine(mid, sp.start, sp.end).point) / SCALE));
+            const cantilever = code.spanDepth('cantilever', reach, h, d);
+            const edgeLength = distance(t.edge[0], t.edge[1]) / SCALE / 1000;
+            const exceeded = cantilever.value > cantilever.limit;
+            issues.push({
+                type: exceeded ? 'span' : 'support',
+                message: exceeded
+                    ? `Unsupported ${edgeLength.toFixed(1)}m edge cantilevers ${(reach / 1000).toFixed(1)}m (span/depth ${cantilever.value.toFixed(1)} > ${cantilever.limit})`
+                    : `Unsupported ${edgeLength.toFixed(1)}m edge: detail as a ${(reach / 1000).toFixed(1)}m cantilever`,
+                value: cantilever.value,
+                limit: cantilever.limit,
+                clause: cantilever.clause
+            });
+            status = worse(status, exceeded ? 'critical' : 'warning');
+        });
+
+        tally(report.slabs, slab.id, { label: design.label, status, issues, load: design.ultimateLoad });
+    });
+
+    // Masonry walls: slenderness over the height, and over the length between cross walls and piers
+    const masonry = code.masonrySlenderness;
+    walls.forEach((wall, i) => {
+        const length = getWallLength(wall) / SCALE;
+        if (length === 0 || wall.thickness <= 0) return;
+        const issues: SafetyIssue[] = [];
+        let status: SafetyStatus = 'safe';
+        const t = wall.thickness; // Single leaf
+
+        // A floor or beam bearing on the wall gives enhanced resistance at the top
+        const enhanced = tributaries.some(tr => tr.supportType === 'wall' && tr.supportId === wall.id)
+            || beams.some(b => wallOverlapOnBeam(b, wall) > 0);
+        const effectiveHeight = (enhanced ? 0.75 : 1) * getWallHeightAt(wall, 0.5, settings.wallHeightDefault);
+
+        // Panels between restraints; free ends count double
+        const stops = wallRestraints(wall, walls, columns);
+        let effectiveLength = Infinity;
+        if (stops.length > 0) {
+            effectiveLength = Math.max(2 * stops[0], 2 * (length - stops[stops.length - 1]));
+            for (let k = 1; k < stops.length; k++) effectiveLength = Math.max(effectiveLength, stops[k] - stops[k - 1]);
+        }
+
+        const heightRatio = effectiveHeight / t;
+        const lengthRatio = effectiveLength / t;
+        if (heightRatio > masonry.limit) {
+            // The lesser of effective height and length governs
+            const restrained = lengthRatio <= masonry.limit;
+            issues.push({
+                type: 'slenderness',
+                message: restrained
+                    ? `Height/thickness ${heightRatio.toFixed(1)} > ${masonry.limit}; relies on cross walls`
+                    : `Too Slender (height/thickness ${heightRatio.toFixed(1)} > ${masonry.limit})`,
+                value: heightRatio,
+                limit: masonry.limit,
+                clause: masonry.clause
+            });
+            status = restrained ? 'warning' : 'critical';
+        }
+        if (lengthRatio > masonry.limit) {
+            issues.push({
+                type: 'slenderness',
+                message: stops.length === 0
+                    ? `No cross walls or piers along ${(length / 1000).toFixed(1)}m`
+                    : `Unrestrained length ${(effectiveLength / 1000).toFixed(1)}m > ${(masonry.limit * t / 1000).toFixed(1)}m; add a cross wall or pier`,
+                value: lengthRatio,
+                limit: masonry.limit,
+                clause: masonry.clause
+            });
+            status = worse(status, 'warning');
+        }
+
+        // Openings weaken the wall as a shear wall
+        if (lateral) {
+            const openingRatio = wallOpeningRatio(wall, openings, settings);
+            const { maxOpeningRatio } = resolveLateralLimits(settings);
+            if (openingRatio > maxOpeningRatio) {
+                issues.push({
+                    type: 'opening',
+                    message: `Openings ${openingRatio.toFixed(0)}% of the wall face > ${maxOpeningRatio}%`,
+                    value: openingRatio,
+                    limit: maxOpeningRatio,
+                    clause: code.lateralClauses.openings
+                });
+                status = worse(status, 'warning');
+            }
+        }
+
+        const load = loads.walls.find(w => w.wallId === wall.id);
+        tally(report.walls, wall.id, { label: load?.label || `W${i + 1}`, status, issues, load: load?.lineLoad });
+    });
+
+    // Lintels over openings: effective span (clear opening plus d) against depth.
+    // Arch rings carry their load in compression, so only straight lintels are checked.
+    const lintelDepth = settings.lintelDepth || 225;
+    const lintelD = lintelDepth - 25 - (settings.stirrupBarDiameter || 8) - (settings.mainBarDiameter || 12) / 2;
+    openings.forEach((o, i) => {
+        if (!walls.some(w => w.id === o.wallId)) return;
+        const issues: SafetyIssue[] = [];
+        const span = Math.min(o.width + lintelD, o.width + 2 * (settings.lintelOverhang || 150));
+        const ratio = code.spanDepth('beam', span, lintelDepth, lintelD);
+        const isArch = !!getArchGeometry(o, settings);
+        if (ratio.value > ratio.limit && !isArch) {
+            issues.push({
+                type: 'span',
+                message: `Span ${(span / 1000).toFixed(2)}m: span/depth ${ratio.value.toFixed(1)} > ${ratio.limit} at ${lintelDepth}mm deep`,
+                value: ratio.value,
+                limit: ratio.limit,
+                clause: ratio.clause
+            });
+        }
+        tally(report.lintels, o.id, { label: `${isArch ? 'AR' : 'L'}${i + 1}`, status: issues.length > 0 ? 'warning' : 'safe', issues });
+    });
+
+    if (lateral?.status === 'critical') criticalCount++;
+    else if (lateral?.status === 'warning') warningCount++;
+
     let score = 100 - (criticalCount * 20) - (warningCount * 5);
     report.overallScore = Math.max(0, score);
 
@@ -170,29 +424,46 @@ export const calculateEstimates = (
     columns: Column[],
     beams: Beam[],
     slabs: Slab[],
-    settings: ProjectSettings
+    settings: ProjectSettings,
+    labels: ProjectLabel[] = [],
+    options: { isGroundLevel?: boolean, roof?: Roof, loadsAbove?: LoadTakedown } = {}
 ): CalculationResult => {
 
+    // Ground bearing floor and foundations only exist under the ground level
+    const isGroundLevel = options.isGroundLevel ?? true;
+
     const wallHeightM = settings.wallHeightDefault / 1000;
 
     // --- CSG PROCESSING: Boolean Operations ---
     console.log('🏗️ CSG Engine: Constructing Solid Geometry...');
 
     // 1. Separate Structural (9") and Partition (6") Walls
-    const walls9 = walls.filter(w => w.thickness > 150);
-    const walls6 = walls.filter(w => w.thickness <= 150);
-
-    // 2. Generate Polygons
-    const polys9 = walls9.map(wallToPolygon);
-    const polys6 = walls6.map(wallToPolygon);
-
-    // 3. Compute Unions (Resolves overlaps within same type)
-    const union9 = computeUnion(polys9);
-    const union6 = computeUnion(polys6);
-
-    // 4. Compute Difference (Trim Partitions against Structural)
-    // Structure takes precedence over Partition
-    const union6Clean = computeDifference(union6, union9);
+    // Taller walls first, so a junction between walls of different heights
+    // is built up to the taller one.
+    const peakHeight = (w: Wall) => Math.max(
+        getWallHeightAt(w, 0, settings.wallHeightDefault),
+        getWallHeightAt(w, 1, settings.wallHeightDefault)
+    );
+    const byHeight = (a: Wall, b: Wall) => peakHeight(b) - peakHeight(a);
+    const walls9 = walls.filter(w => w.thickness > 150).sort(byHeight);
+    const walls6 = walls.filter(w => w.thickness <= 150).sort(byHeight);
+
+    // 2-4. Claim Footprints (Union + Difference in one pass)
+    // Each wall owns the part of its polygon not already claimed, so L, T and
+    // Cross junctions are counted once. Structure takes precedence over Partition.
+    // Column footprints are then cut out, so only the real overlap is deducted.
+    const columnUnion = computeUnion(columns.map(columnToPolygon));
+    let footprint: MultiPolygon = [];
+    const claimFootprint = (wall: Wall) => {
+        const poly = wallToPolygon(wall);
+        const claimed = computeDifference([poly], footprint);
+        footprint = addToUnion(footprint, poly);
+        return { wall, claimed, owned: computeDifference(claimed, columnUnion) };
+    };
+    const pieces9 = walls9.map(claimFootprint);
+    const union9 = computeDifference(footprint, columnUnion);
+    const pieces6 = walls6.map(claimFootprint);
+    const union6Clean = pieces6.flatMap(p => p.owned);
 
     // 5. Calculate Geometric Footprint Areas (Plan View m2)
     const areaPlan9 = calculateMultiPolygonArea(union9);
@@ -202,43 +473,51 @@ export const calculateEstimates = (
     console.log(`  Partition Footprint: ${areaPlan6.toFixed(2)}m²`);
 
     // 6. Calculate Gross Volumes (m3)
-    const grossVol9 = areaPlan9 * wallHeightM;
-    const grossVol6 = areaPlan6 * wallHeightM;
+    // Each owned piece is extruded to its wall's height at the piece centroid.
+    // Height varies linearly along a gable, so this integrates it exactly.
+    const extrude = (wall: Wall, pieces: MultiPolygon) => pieces.reduce((sum, poly) => {
+        const [cx, cy] = polygonCentroid(poly);
+        const { t } = getClosestPointOnWall({ x: cx * SCALE, y: cy * SCALE }, wall);
+        const heightM = getWallHeightAt(wall, t, settings.wallHeightDefault) / 1000;
+        return sum + calculateMultiPolygonArea([poly]) * heightM;
+    }, 0);
+    const grossVol9 = pieces9.reduce((sum, p) => sum + extrude(p.wall, p.owned), 0);
+    const grossVol6 = pieces6.reduce((sum, p) => sum + extrude(p.wall, p.owned), 0);
+    const masonryDeducted = Math.max(0, [...pieces9, ...pieces6].reduce((sum, p) => sum + extrude(p.wall, p.claimed), 0) - grossVol9 - grossVol6);
 
     // --- Deductions (Openings, Columns, Lintels) ---
 
-    // Openings: Calculate Volume of void
+    // Openings: Cut the opening prisms out of each host wall's solid
     let openingVol9 = 0;
     let openingVol6 = 0;
     let totalOpeningArea = 0;
     let totalOpeningWidth = 0;
 
     openings.forEach(o => {
-        const areaM2 = (o.width * o.height) / 1e6;
-        totalOpeningArea += areaM2;
         totalOpeningWidth += o.width / 1000;
+        if (!walls.some(w => w.id === o.wallId)) totalOpeningArea += getOpeningArea(o);
+    });
 
-        const hostWall = walls.find(w => w.id === o.wallId);
-        if (hostWall) {
-            const vol = areaM2 * (hostWall.thickness / 1000);
-            if (hostWall.thickness > 150) openingVol9 += vol;
-            else openingVol6 += vol;
-        }
+    [...pieces9, ...pieces6].forEach(({ wall, owned }) => {
+        const hosted = openings.filter(o => o.wallId === wall.id);
+        if (hosted.length === 0) return;
+
+        const { area, volume } = computeOpeningVoid(wall, hosted, owned, settings);
+        totalOpeningArea += area;
+        if (wall.thickness > 150) openingVol9 += volume;
+        else openingVol6 += volume;
     });
 
-    // Columns: Calculate Volume (Assumed same concrete material, replaces blocks)
-    // In strict CSG, we should subtract column footprints from wall unions. 
-    // Here we subtract volume for simplicity as columns are often embedded.
+    // Columns: Concrete volume per storey, split by whether the column sits in a wall.
+    // Wall masonry is already net of column footprints (step 4).
     let totalColumnArea = 0; // Footprint area for UI
-    let columnVolDeduction = 0;
-
-    // We only deduct if column is INSIDE a wall. 
-    // Simple Approximation: Subtract total column volume? 
-    // Risk: If column overlaps with NOTHING (freestanding), we shouldn't subtract from wall volume.
-    // However, usually columns are in walls. 
-    // Let's stick to Volume Subtraction but bounded by Wall Volume? 
-    // Better: Just report Column Volume separately, and deduct it from Block Volume IF it intersects?
-    // For this implementation, we will perform a global deduction of column volume from 9" walls (Structural).
+    const columnBreakdown = {
+        embeddedCount: 0,
+        freestandingCount: 0,
+        embeddedVolume: 0,
+        freestandingVolume: 0,
+        masonryDeducted
+    };
 
     let columnConcreteVolume = 0;
     let colReinforcementMain = 0;
@@ -252,7 +531,15 @@ export const calculateEstimates = (
         const dM = col.height / 1000;
         const vol = wM * dM * wallHeightM;
         columnConcreteVolume += vol;
-        columnVolDeduction += vol; // Assume embedded in structural walls
+
+        const overlap = calculateMultiPolygonArea(computeIntersection([columnToPolygon(col)], footprint));
+        if (overlap > 1e-6) {
+            columnBreakdown.embeddedCount++;
+            columnBreakdown.embeddedVolume += vol;
+        } else {
+            columnBreakdown.freestandingCount++;
+            columnBreakdown.freestandingVolume += vol;
+        }
 
         totalColumnArea += (wM * dM);
 
@@ -274,14 +561,14 @@ export const calculateEstimates = (
     let lintelVol6 = 0;
 
     if (settings.lintelType === 'chain') {
-        const len9 = grossVol9 / (thick9 * wallHeightM);
-        const len6 = grossVol6 / (thick6 * wallHeightM);
+        const len9 = areaPlan9 / thick9;
+        const len6 = areaPlan6 / thick6;
         lintelVol9 = len9 * thick9 * lintelDepthM;
         lintelVol6 = len6 * thick6 * lintelDepthM;
     } else {
         openings.forEach(o => {
             const hostWall = walls.find(w => w.id === o.wallId);
-            if (hostWall) {
+            if (hostWall && !getArchGeometry(o, settings)) {
                 const lintelSpanM = (o.width / 1000) + (2 * lintelOverhangM);
                 const wallThickM = hostWall.thickness / 1000;
                 const lintelVol = lintelSpanM * wallThickM * lintelDepthM;
@@ -295,19 +582,40 @@ export const calculateEstimates = (
         });
     }
 
+    // Arch openings: a curved ring of lintel depth over the intrados instead of a
+    // straight lintel (under the band in chain mode), cast on curved formwork.
+    // Its bars plus ARCH_EXTRA_BARS are bent to the ring and anchored an overhang
+    // into the piers past each springing.
+    let archRingLength = 0;
+    let archBarLength = 0;
+    let archFormworkArea = 0;
+    openings.forEach(o => {
+        const hostWall = walls.find(w => w.id === o.wallId);
+        const arch = getArchGeometry(o, settings);
+        if (!hostWall || !arch) return;
+        const wallThickM = hostWall.thickness / 1000;
+        const ringLengthM = 2 * arch.angle * (arch.radius / 1000 + lintelDepthM / 2); // Along the ring's centreline
+        const ringVol = ringLengthM * wallThickM * lintelDepthM;
+        if (hostWall.thickness > 150) {
+            lintelVol9 += ringVol;
+        } else {
+            lintelVol6 += ringVol;
+        }
+        archRingLength += ringLengthM;
+        archBarLength += (ringLengthM + 2 * lintelOverhangM) * (settings.mainBarCount + ARCH_EXTRA_BARS);
+        archFormworkArea += (arch.intrados / 1000) * wallThickM;
+    });
+
     // --- Net Volumes ---
-    // Net = Gross - Openings - Columns - Lintels (if deduction enabled)
+    // Net = Gross - Openings - Lintels (if deduction enabled); columns already cut out
     // Ensure not negative
     const deductLintel = settings.deductLintelFromBlocks ?? false;  // Default: no deduction
-    const netVol9 = Math.max(0, grossVol9 - openingVol9 - columnVolDeduction - (deductLintel ? lintelVol9 : 0));
+    const netVol9 = Math.max(0, grossVol9 - openingVol9 - (deductLintel ? lintelVol9 : 0));
     const netVol6 = Math.max(0, grossVol6 - openingVol6 - (deductLintel ? lintelVol6 : 0));
 
-    // Calculate effective wall lengths for foundation/reinforcement calculations
-    const effectiveLen9 = grossVol9 / (thick9 * wallHeightM);
-    const effectiveLen6 = grossVol6 / (thick6 * wallHeightM);
-
-    // Total lintel length (for reinforcement) = sum of (opening width + 2×overhang)
+    // Total lintel length (for reinforcement) = sum of (opening width + 2×overhang), arches apart
     const totalLintelLength = openings.reduce((sum, o) => {
+        if (getArchGeometry(o, settings)) return sum;
         const lintelSpanM = (o.width / 1000) + (2 * lintelOverhangM);
         return sum + lintelSpanM;
     }, 0);
@@ -327,22 +635,31 @@ export const calculateEstimates = (
     const rawBlocks9Inch = netVol9 / unitVol9;
     const rawBlocks6Inch = netVol6 / unitVol6;
 
-    const blockCount9Inch = Math.ceil(rawBlocks9Inch * (1 + settings.wastagePercentage / 100));
-    const blockCount6Inch = Math.ceil(rawBlocks6Inch * (1 + settings.wastagePercentage / 100));
+    const volumeBlockCount9Inch = Math.ceil(rawBlocks9Inch * (1 + settings.wastagePercentage / 100));
+    const volumeBlockCount6Inch = Math.ceil(rawBlocks6Inch * (1 + settings.wastagePercentage / 100));
+
+    // Layout mode: count what the masons lay course by course instead
+    const layout = settings.blockCountMethod === 'layout' ? layoutBlocks(walls, openings, settings, columns) : undefined;
+    const blockCount9Inch = layout ? Math.ceil(layout.blocks9Inch * (1 + settings.wastagePercentage / 100)) : volumeBlockCount9Inch;
+    const blockCount6Inch = layout ? Math.ceil(layout.blocks6Inch * (1 + settings.wastagePercentage / 100)) : volumeBlockCount6Inch;
+    const blockLayout = layout && {
+        fullBlocks: layout.fullBlocks,
+        cutBlocks: layout.cutBlocks,
+        volumeBlockCount9Inch,
+        volumeBlockCount6Inch
+    };
 
     // Backward comp types
     const blockCount = blockCount9Inch + blockCount6Inch;
-    const totalWallArea = (areaPlan9 + areaPlan6) / thick9 * wallHeightM; // Approx surface area
+    const totalWallArea = (grossVol9 + grossVol6) / thick9; // Approx surface area
     const netArea = (netVol9 / thick9) + (netVol6 / thick6); // Approx elevation area
 
     // --- Other Material Calcs ---
-    const paintArea = netArea * 2;
-
     // Lintel (Concrete & Steel)
     const concreteVolume = lintelVol9 + lintelVol6;
-    const reinforcementMainLength = totalLintelLength * settings.mainBarCount;
+    const reinforcementMainLength = totalLintelLength * settings.mainBarCount + archBarLength;
     const stirrupPerimeter = (thick9 + lintelDepthM) * 2; // Approx using 9" width
-    const stirrupCount = Math.ceil(totalLintelLength / 0.2);
+    const stirrupCount = Math.ceil((totalLintelLength + archRingLength) / 0.2);
     const reinforcementStirrupLength = stirrupCount * stirrupPerimeter;
 
     // Mortar
@@ -367,24 +684,34 @@ export const calculateEstimates = (
     const sandTons = (sandVol * 1.6) * materialWastage;
     const waterLiters = (cementBags * 50 * 0.5) * 1.1;
 
-    // Floor
-    const floorArea = calculateFloorArea(walls, 0.02);
-    const floorConcreteVolume = floorArea * (settings.floorThickness / 1000);
-    const floorMaterials = calculateConcreteMaterials(floorConcreteVolume, settings.floorMixRatio || "1:2:4");
-
-    // Foundation
-    let foundationVolume = 0;
-    if (settings.foundationType === 'pad') {
-        const pW = (settings.padWidth || 1000) / 1000;
-        const pL = (settings.padLength || 1000) / 1000;
-        const depth = (settings.foundationDepth || 900) / 1000;
-        foundationVolume = columns.length * pW * pL * depth;
-    } else {
-        // Strip: Length * Width * Depth
-        const stripLen = effectiveLen9 + effectiveLen6; // Use effective length derived from CSG volume
-        foundationVolume = stripLen * (settings.foundationWidth / 1000) * (settings.foundationDepth / 1000);
-    }
-    const foundationMaterials = calculateConcreteMaterials(foundationVolume, settings.floorMixRatio || "1:2:4");
+    // Plaster & Render: internal and external faces of the wall union
+    const plaster = computePlasterTakeoff(footprint, walls, openings, settings);
+
+    // Roof over the outer wall loop
+    const roof = options.roof ? calculateRoofTakeoff(walls, options.roof, footprint) : undefined;
+
+    // Floor (Ground slab + blinding over the clear area of every enclosed room)
+    const rooms = detectRooms(walls, {
+        openings,
+        labels,
+        settings,
+        wallUnion: footprint
+    });
+    const floorArea = rooms.reduce((sum, r) => sum + r.area, 0);
+    const floorFinishes = computeFloorFinishes(rooms, settings);
+
+    // Paint: room walls and ceilings by colour, the rest of the plaster, the render
+    const paintSchedule = buildPaintSchedule(rooms, plaster, settings);
+    const paintArea = paintSchedule.reduce((sum, e) => sum + e.area, 0);
+    const floorConcreteVolume = isGroundLevel ? floorArea * (settings.floorThickness / 1000) : 0;
+    const blindingVolume = isGroundLevel ? floorArea * ((settings.blindingThickness ?? 50) / 1000) : 0;
+    const slabMaterials = concreteMaterialsFor('slab', floorConcreteVolume, settings);
+    const blindingMaterials = nominalMixMaterials(blindingVolume, "1:3:6");
+    const floorMaterials = {
+        cementBags: slabMaterials.cementBags + blindingMaterials.cementBags,
+        sandTons: slabMaterials.sandTons + blindingMaterials.sandTons,
+        aggregateTons: slabMaterials.aggregateTons + blindingMaterials.aggregateTons
+    };
 
     // Labor
     const complexityScore = 1 + (countIntersections(walls) * 0.05) + (openings.length * 0.1);
@@ -392,36 +719,73 @@ export const calculateEstimates = (
     const effectiveDailyOutput = baseDailyOutput / complexityScore;
     const estimatedDuration = blockCount / effectiveDailyOutput;
 
-    // Beams (Simplified - keep existing)
+    // Beams: designed for the slab areas they carry and walls on their line
+    const tributaries = calculateTributaryAreas(beams, slabs, walls);
     let beamConcreteVolume = 0;
     let beamReinforcementMain = 0;
     let beamReinforcementStirrup = 0;
     let beamStirrupCountTotal = 0;
-    beams.forEach(beam => {
+    const beamDesigns = beams.map((beam, index) => {
+        const design = designBeam(beam, index, tributaries, slabs, options.loadsAbove?.walls ?? [], settings);
         const lenM = distance(beam.start, beam.end) / SCALE / 1000;
         const wM = beam.width / 1000;
         const dM = beam.depth / 1000;
         beamConcreteVolume += lenM * wM * dM;
-        beamReinforcementMain += lenM * 4;
-        const sCount = Math.ceil(lenM / 0.2);
+        beamReinforcementMain += lenM * (design.bottom.count + design.top.count);
+        const sCount = Math.ceil(lenM / (design.links.spacing / 1000));
         beamStirrupCountTotal += sCount;
         beamReinforcementStirrup += sCount * ((wM + dM) * 2);
+        return design;
     });
 
     // Slabs
     let slabAreaTotal = 0;
     let slabConcreteVolume = 0;
     let slabReinforcementMain = 0;
-    slabs.forEach(slab => {
+    let slabReinforcementTop = 0;
+    const slabDesigns = slabs.map((slab, index) => {
         const areaPx = calculatePolygonArea(slab.points);
         const areaM = (areaPx * (1 / SCALE) * (1 / SCALE)) / 1e6;
         slabAreaTotal += areaM;
         slabConcreteVolume += areaM * ((slab.thickness || 150) / 1000);
-        slabReinforcementMain += areaM * 12;
+
+        // Spans and bars from the beams and walls the slab bears on
+        const design = designSlab(slab, index, beams, walls, settings);
+        slabReinforcementMain += getSlabBarLength(design, 'bottom');
+        slabReinforcementTop += getSlabBarLength(design, 'top');
+        return design;
     });
 
-    // Safety
-    const safetyReport = analyzeStructuralSafety(columns, walls, settings);
+    // Bar bending schedule for every reinforced member
+    const barSchedule = buildBarSchedule(columns, beams, walls, openings, slabDesigns, beamDesigns, settings, isGroundLevel);
+
+    // Load path down to the columns and walls, with the level above stacked on
+    const loadTakedown = traceLoads(columns, beams, walls, slabs, tributaries, beamDesigns, settings, options.loadsAbove);
+
+    // Foundation: footings sized for the loads reaching the ground (upper levels bear on the structure below)
+    const foundationDesigns = isGroundLevel ? designFoundations(columns, walls, loadTakedown, settings) : [];
+    const foundationVolume = getFoundationVolume(foundationDesigns);
+    const foundationConcrete = concreteMaterialsFor('foundation', foundationVolume, settings);
+    const foundationMaterials = {
+        cementBags: foundationConcrete.cementBags,
+        sandTons: foundationConcrete.sandTons,
+        aggregateTons: foundationConcrete.aggregateTons
+    };
+
+    // Concrete materials per element, each from its own mix
+    const concreteMaterials = [
+        foundationConcrete,
+        concreteMaterialsFor('column', columnConcreteVolume, settings),
+        concreteMaterialsFor('beam', beamConcreteVolume, settings),
+        concreteMaterialsFor('slab', slabConcreteVolume + floorConcreteVolume, settings),
+        concreteMaterialsFor('lintel', concreteVolume, settings)
+    ].filter(m => m.volume > 0);
+
+    // Safety, with the lateral check when asked for
+    const lateral = settings.lateralAnalysis && walls.length > 0
+        ? analyzeLateral(walls, openings, slabs, rooms, slabAreaTotal || floorArea, settings)
+        : undefined;
+    const safetyReport = analyzeStructuralSafety(columns, beams, slabs, walls, openings, settings, loadTakedown, beamDesigns, slabDesigns, tributaries, lateral);
 
     return {
         totalWallArea, // Approx
@@ -430,12 +794,20 @@ export const calculateEstimates = (
         netArea,
         blockCount,
         blockCount6Inch,
+        blockLayout,
         paintArea,
         concreteVolume,
+        floorArea,
         floorConcreteVolume,
+        blindingVolume,
+        rooms,
+        floorFinishes,
+        paintSchedule,
         reinforcementMainLength,
         reinforcementStirrupLength,
+        archFormworkArea,
         columnConcreteVolume,
+        columnBreakdown,
         columnReinforcement: {
             mainLength: colReinforcementMain,
             stirrupLength: colReinforcementStirrup,
@@ -445,9 +817,13 @@ export const calculateEstimates = (
         cementBags,
         sandTons,
         waterLiters,
+        roof,
+        plaster,
         floorMaterials,
         foundationVolume,
+        foundationDesigns,
         foundationMaterials,
+        concreteMaterials,
         beamConcreteVolume,
         beamReinforcement: {
             mainLength: beamReinforcementMain,
@@ -458,10 +834,91 @@ export const calculateEstimates = (
         slabConcreteVolume,
         slabReinforcement: {
             mainLength: slabReinforcementMain,
-            topLength: 0
+            topLength: slabReinforcementTop
         },
+        slabDesigns,
+        beamDesigns,
+        barSchedule,
+        openingSchedule: buildOpeningSchedule(openings, settings),
+        loadTakedown,
         estimatedDuration,
         complexityScore,
         safetyReport
     };
 };
+
+// --- MULTI-STOREY AGGREGATION ---
+
+// Adds two values field by field (numbers summed, lists concatenated)
+const mergeValues = (a: unknown, b: unknown, key: string = ''): unknown => {
+    if (typeof a === 'number' && typeof b === 'number') {
+        if (key === 'overallScore') return Math.min(a, b);
+        if (key === 'complexityScore') return Math.max(a, b);
+        return a + b;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) return [...a, ...b];
+    if (a && b && typeof a === 'object' && typeof b === 'object') {
+        const left = a as Record<string, unknown>;
+        const right = b as Record<string, unknown>;
+        const merged: Record<string, unknown> = { ...left };
+        Object.keys(right).forEach(k => {
+            merged[k] = k in left ? mergeValues(left[k], right[k], k) : right[k];
+        });
+        return merged;
+    }
+    return b ?? a;
+};
+
+// Totals two levels' results
+const mergeResults = (a: CalculationResult, b: CalculationResult): CalculationResult =>
+    mergeValues(a, b) as CalculationResult;
+
+/**
+ * Estimates every level of a multi-storey project and totals them.
+ * Each level uses its own floor-to-floor height for walls and columns.
+ * Levels are worked from the top down, so each one carries the column and
+ * wall loads of the levels above.
+ */
+export const calculateProjectEstimates = (levels: Level[], settings: ProjectSettings): CalculationResult => {
+    const levelResults: LevelResult[] = [];
+    let loadsAbove: LoadTakedown | undefined;
+    for (let index = levels.length - 1; index >= 0; index--) {
+        const level = levels[index];
+        const levelSettings: ProjectSettings = {
+            ...settings,
+            wallHeightDefault: getLevelWallHeight(level, settings)
+        };
+        const result = calculateEstimates(
+            level.walls,
+            level.openings,
+            level.columns,
+            level.beams,
+            level.slabs,
+            levelSettings,
+            level.labels,
+            { isGroundLevel: index === 0, roof: level.roof, loadsAbove }
+        );
+        if (levels.length > 1) {
+            // Keep rooms distinguishable once levels are combined
+            result.rooms = result.rooms.map(r => ({ ...r, id: `${level.id}_${r.id}`, name: `${r.name} (${level.name})` }));
+            result.floorFinishes?.rooms.forEach(r => { r.roomId = `${level.id}_${r.roomId}`; r.name = `${r.name} (${level.name})`; });
+            result.barSchedule = result.barSchedule.map(e => ({ ...e, mark: `${level.name}/${e.mark}`, member: `${e.member} (${level.name})` }));
+            result.loadTakedown.columns.forEach(c => { c.level = level.name; });
+            result.loadTakedown.walls.forEach(w => { w.level = level.name; });
+            result.safetyReport.lateral.forEach(l => { l.level = level.name; });
+        }
+        result.safetyReport.lateral.forEach(l => { l.levelId = level.id; });
+        loadsAbove = result.loadTakedown;
+        levelResults.unshift({ levelId: level.id, name: level.name, result });
+    }
+
+    if (levelResults.length === 0) {
+        return { ...calculateEstimates([], [], [], [], [], settings), levels: [] };
+    }
+
+    const total: CalculationResult = levelResults
+        .map(l => l.result)
+        .reduce((acc, r) => mergeResults(acc, r));
+
+    return { ...total, levels: levelResults };
+};
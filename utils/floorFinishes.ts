@@ -0,0 +1,179 @@
+import { Room, Point, ProjectSettings, FloorFinish, FloorFinishRules, FloorFinishTakeoff, RoomFloorTakeoff, TileSize } from '../types';
+import { computeIntersection, calculateMultiPolygonArea, isPointInPolygon, Position } from './geometry';
+
+const SCALE = 0.05; // Must match Canvas scale
+const DRY_VOLUME_FACTOR = 1.27; // Wet screed -> dry materials (bulking + voids)
+const TERRAZZO_RATIO = 2; // Marble chips per cement (1:x)
+const ADHESIVE_BAG = 20; // kg
+const GROUT_DENSITY = 1.6; // kg/dm3
+const MIN_CUT = 0.02; // Pieces under this share of a tile are left to the grout
+const WALL_CUT_ALLOWANCE = 10; // %, wall tiles are counted by area, not laid out
+const TILE_THICKNESS: Record<'ceramic' | 'porcelain' | 'wall', number> = { ceramic: 8, porcelain: 10, wall: 6 }; // mm, the grout depth
+
+export const DEFAULT_TILE_SIZES: Record<'ceramic' | 'porcelain', TileSize> = {
+    ceramic: { width: 400, length: 400 },
+    porcelain: { width: 600, length: 600 }
+};
+
+export const DEFAULT_FLOOR_FINISH_RULES: FloorFinishRules = {
+    screedThickness: 40,
+    screedRatio: 4,
+    terrazzoThickness: 15,
+    jointWidth: 3,
+    tileWastage: 5,
+    adhesiveRate: 5,
+    wallTileSize: { width: 250, length: 400 }
+};
+
+/**
+ * FLOOR FINISHES
+ *
+ * Every room gets a sand-cement screed over its clear floor; the finish
+ * goes on top:
+ * - Tiles are set out square to the room's longest wall from its centre,
+ *   so the cuts at opposite walls match. Each tile position is clipped to
+ *   the clear floor: full tiles are laid whole, partly covered ones are
+ *   cut (one tile each), slivers are left to the grout. The breakage
+ *   allowance goes on top of the counted tiles.
+ * - Terrazzo is a cement and marble chip topping on the screed.
+ * - Wet rooms are wall tiled to their set height, counted by area.
+ * Adhesive is spread under every tile; grout fills the joints to the tile
+ * depth.
+ */
+
+/** Floor finish rules with the project overrides applied. */
+export const resolveFloorFinishRules = (settings: ProjectSettings): FloorFinishRules => ({
+    ...DEFAULT_FLOOR_FINISH_RULES,
+    ...settings.floorFinishRules
+});
+
+const isTiled = (finish: FloorFinish): finish is 'ceramic' | 'porcelain' => finish === 'ceramic' || finish === 'porcelain';
+
+/** The room's floor tile, or the default for its finish. */
+export const getTileSize = (room: Room): TileSize | undefined =>
+    isTiled(room.floorFinish) ? (room.tileSize || DEFAULT_TILE_SIZES[room.floorFinish]) : undefined;
+
+/** Grout (kg/m2) for a tile size, joint width and depth (mm). */
+const groutRate = (tile: TileSize, joint: number, depth: number) =>
+    ((tile.width + tile.length) / (tile.width * tile.length)) * joint * depth * GROUT_DENSITY;
+
+/**
+ * Whole and cut tiles covering a floor outline.
+ * @param outline - Clear floor loop (mm)
+ * @param tile - Tile length runs along the longest wall
+ */
+export const layoutFloorTiles = (outline: Point[], tile: TileSize, joint: number): { whole: number, cut: number } => {
+    if (outline.length < 3 || tile.width <= 0 || tile.length <= 0) return { whole: 0, cut: 0 };
+
+    // Work in the frame of the longest wall, about the room's centre
+    let angle = 0;
+    let longest = 0;
+    outline.forEach((p, i) => {
+        const q = outline[(i + 1) % outline.length];
+        const len = Math.hypot(q.x - p.x, q.y - p.y);
+        if (len > longest) {
+            longest = len;
+            angle = Math.atan2(q.y - p.y, q.x - p.x);
+        }
+    });
+    const cos = Math.cos(-angle);
+    const sin = Math.sin(-angle);
+    const local = outline.map(p => ({ x: p.x * cos - p.y * sin, y: p.x * sin + p.y * cos }));
+    const xs = local.map(p => p.x);
+    const ys = local.map(p => p.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+
+    // A joint on each centre line, tiles repeating out to the walls
+    const stepX = tile.length + joint;
+    const stepY = tile.width + joint;
+    const midX = (minX + maxX) / 2;
+    const midY = (minY + maxY) / 2;
+    const x0 = midX - Math.ceil((midX - minX) / stepX) * stepX;
+    const y0 = midY - Math.ceil((midY - minY) / stepY) * stepY;
+
+    const floor: Position[] = local.map(p => [p.x, p.y] as Position);
+    floor.push(floor[0]);
+    const tileArea = (tile.width * tile.length) / 1e6;
+
+    let whole = 0;
+    let cut = 0;
+    for (let x = x0; x < maxX; x += stepX) {
+        for (let y = y0; y < maxY; y += stepY) {
+            const corners = [{ x, y }, { x: x + tile.length, y }, { x: x + tile.length, y: y + tile.width }, { x, y: y + tile.width }];
+            // Inside with no wall corner poking in: laid whole without clipping
+            const cornersIn = corners.every(c => isPointInPolygon(c, local));
+            const vertexIn = local.some(p => p.x > x && p.x < x + tile.length && p.y > y && p.y < y + tile.width);
+            if (cornersIn && !vertexIn) {
+                whole++;
+                continue;
+            }
+            const piece: Position[] = [...corners, corners[0]].map(c => [c.x, c.y] as Position);
+            const share = calculateMultiPolygonArea(computeIntersection([[floor]], [[piece]])) / tileArea;
+            if (share > 1 - MIN_CUT) whole++;
+            else if (share > MIN_CUT) cut++;
+        }
+    }
+    return { whole, cut };
+};
+
+/** Screed, tiles, terrazzo, adhesive and grout for each room and in total. */
+export const computeFloorFinishes = (rooms: Room[], settings: ProjectSettings): FloorFinishTakeoff => {
+    const rules = resolveFloorFinishRules(settings);
+    const wastage = 1 + settings.wastagePercentage / 100;
+    const wallTile = rules.wallTileSize;
+    const wallTileArea = (wallTile.width * wallTile.length) / 1e6;
+
+    const takeoffs: RoomFloorTakeoff[] = rooms.map(room => {
+        const tile = getTileSize(room);
+        const layout = tile
+            ? layoutFloorTiles(room.clearPoints.map(p => ({ x: p.x / SCALE, y: p.y / SCALE })), tile, rules.jointWidth)
+            : { whole: 0, cut: 0 };
+        const floorTiles = Math.ceil((layout.whole + layout.cut) * (1 + rules.tileWastage / 100));
+        const wallTiles = room.wallTileArea > 0
+            ? Math.ceil((room.wallTileArea / wallTileArea) * (1 + (rules.tileWastage + WALL_CUT_ALLOWANCE) / 100))
+            : 0;
+        const tiledArea = tile ? room.area : 0;
+        const grout = (tile && isTiled(room.floorFinish) ? tiledArea * groutRate(tile, rules.jointWidth, TILE_THICKNESS[room.floorFinish]) : 0)
+            + room.wallTileArea * groutRate(wallTile, rules.jointWidth, TILE_THICKNESS.wall);
+        return {
+            roomId: room.id,
+            name: room.name,
+            floorFinish: room.floorFinish,
+            tileSize: tile,
+            wholeTiles: layout.whole,
+            cutTiles: layout.cut,
+            floorTiles,
+            wallTileArea: room.wallTileArea,
+            wallTiles,
+            screedVolume: room.area * rules.screedThickness / 1000,
+            terrazzoVolume: room.floorFinish === 'terrazzo' ? room.area * rules.terrazzoThickness / 1000 : 0,
+            adhesiveKg: (tiledArea + room.wallTileArea) * rules.adhesiveRate,
+            groutKg: grout
+        };
+    });
+
+    const sum = (key: keyof RoomFloorTakeoff) => takeoffs.reduce((acc, t) => acc + (t[key] as number), 0);
+    const screedVolume = sum('screedVolume');
+    const terrazzoVolume = sum('terrazzoVolume');
+
+    // Screed 1:x cement:sand, terrazzo 1:2 cement:chips, both by dry volume
+    const screedDry = screedVolume * DRY_VOLUME_FACTOR;
+    const terrazzoDry = terrazzoVolume * DRY_VOLUME_FACTOR;
+    const screedCement = screedDry / (1 + rules.screedRatio);
+    const terrazzoCement = terrazzoDry / (1 + TERRAZZO_RATIO);
+
+    return {
+        rooms: takeoffs,
+        tiledArea: takeoffs.reduce((acc, t, i) => acc + (t.tileSize ? rooms[i].area : 0), 0),
+        wallTileArea: sum('wallTileArea'),
+        floorTiles: sum('floorTiles'),
+        wallTiles: sum('wallTiles'),
+        screedVolume,
+        terrazzoVolume,
+        cementBags: (screedCement + terrazzoCement) / 0.035 * wastage, // 50kg bag = 0.035m3
+        sandTons: (screedDry - screedCement) * 1.6 * wastage, // Density 1600kg/m3
+        marbleChipsTons: (terrazzoDry - terrazzoCement) * 1.5 * wastage, // Density 1500kg/m3
+        adhesiveBags: Math.ceil(sum('adhesiveKg') * wastage / ADHESIVE_BAG),
+        groutKg: sum('groutKg') * wastage
+    };
+};
@@ -0,0 +1,248 @@
+import { Column, Wall, ProjectSettings, LoadTakedown, FoundationDesign } from '../types';
+import { distance, getClosestPointOnWall, getWallLength, getWallArc, wallToPolygon, computeDifference, addToUnion, calculateMultiPolygonArea, MultiPolygon } from './geometry';
+import { resolveSlabRules } from './slabDesign';
+import { getDesignCode, bendingSteel } from './designCodes';
+import { gradeStrength } from './mixDesign';
+
+const SCALE = 0.05; // Must match Canvas scale
+export const DEFAULT_SOIL_BEARING_CAPACITY = 150; // kN/m2, firm clay / medium dense sand
+const OVERBURDEN_DENSITY = 20; // kN/m3, footing and backfill above the founding level
+const COVER = 50; // mm, cast against blinding
+const BAR = 12; // mm, assumed for the effective depth
+const SIZE_STEP = 50; // mm, plan sizes
+const THICKNESS_STEP = 25; // mm
+export const MIN_PAD_SIZE = 600; // mm
+const MIN_PAD_THICKNESS = 300; // mm
+const MAX_PAD_THICKNESS = 1500; // mm
+const MIN_STRIP_WIDTH = 450; // mm
+const MIN_STRIP_THICKNESS = 200; // mm
+const MIN_STEEL_RATIO = 0.0013; // BS 8110 Table 3.25
+
+/**
+ * FOUNDATION DESIGN
+ *
+ * Sizes footings under the ground level from the traced loads:
+ * - Pads under columns: plan area from the service load over the net
+ *   allowable bearing pressure (allowable less the weight of footing and
+ *   backfill), then the thickness is increased until the pad passes shear
+ *   at the column face, punching shear on the 1.5d perimeter and beam shear
+ *   at d from the face (BS 8110 3.11), with the design code's bending and
+ *   concrete shear strength. A pad size set on a column is kept as
+ *   a minimum.
+ * - Strips under walls (strip foundations only): width from the wall line
+ *   load, plus any columns standing on the wall; plain concrete, at least as
+ *   thick as its projection beyond the wall (45° spread). Strips run on past
+ *   the wall ends, to the far side of a strip they meet or by their
+ *   projection at a free end, and each measures only the part of its plan
+ *   not already under a wider strip, so junctions are counted once.
+ */
+
+const roundUp = (value: number, step: number) => Math.ceil(value / step) * step;
+
+/** Factor from ultimate back to service load: midway between the code's dead and imposed factors. */
+const serviceFactor = (settings: ProjectSettings) => {
+    const { dead, imposed } = getDesignCode(settings).loadFactors;
+    return (dead + imposed) / 2;
+};
+
+/** Net allowable bearing pressure (kN/m2) at the founding depth. */
+const netBearing = (settings: ProjectSettings) =>
+    (settings.soilBearingCapacity || DEFAULT_SOIL_BEARING_CAPACITY) - OVERBURDEN_DENSITY * (settings.foundationDepth || 900) / 1000;
+
+/**
+ * Designs the pad under one column.
+ * @param ultimateLoad - Factored axial load at the column base (kN)
+ */
+export const designPad = (column: Column, label: string, member: string, ultimateLoad: number, settings: ProjectSettings): FoundationDesign => {
+    const rules = resolveSlabRules(settings);
+    const fcu = gradeStrength('foundation', settings) ?? rules.fcu;
+    const code = getDesignCode(settings);
+    const allowable = settings.soilBearingCapacity || DEFAULT_SOIL_BEARING_CAPACITY;
+    const depth = settings.foundationDepth || 900;
+    const issues: string[] = [];
+    const serviceLoad = ultimateLoad / serviceFactor(settings);
+
+    // 1. Plan size
+    let qNet = netBearing(settings);
+    if (qNet <= 0) {
+        issues.push(`Soil carries no more than the overburden at ${depth}mm`);
+        qNet = allowable;
+    }
+    const side = Math.max(
+        MIN_PAD_SIZE,
+        Math.max(column.width, column.height) + 2 * 150,
+        roundUp(Math.sqrt(serviceLoad / qNet) * 1000, SIZE_STEP)
+    );
+    const width = Math.max(side, column.padWidth || 0);
+    const length = Math.max(side, column.padLength || 0);
+    const bearingPressure = serviceLoad / (width * length / 1e6) + OVERBURDEN_DENSITY * depth / 1000;
+
+    // 2. Thickness from shear
+    const pu = ultimateLoad * 1000 / (width * length); // N/mm2
+    const cx = column.width;
+    const cy = column.height;
+    let thickness = MIN_PAD_THICKNESS;
+    let asRequired = 0;
+    let punchingStress = 0;
+    let shearCapacity = 0;
+    for (; thickness <= MAX_PAD_THICKNESS; thickness += THICKNESS_STEP) {
+        const d = thickness - COVER - BAR;
+
+        // Bending at the column face, worst direction
+        const a = Math.max(width - cx, length - cy) / 2;
+        const b = (width - cx) >= (length - cy) ? length : width;
+        const M = pu * b * a * a / 2;
+        asRequired = Math.max(bendingSteel(code, M, b, d, COVER, fcu, rules.fy).tension, MIN_STEEL_RATIO * b * thickness);
+        const { vc, vMax } = code.shear(100 * asRequired / (b * d), d, fcu);
+        shearCapacity = vc;
+
+        const faceStress = ultimateLoad * 1000 / (2 * (cx + cy) * d);
+
+        // Punching on the perimeter 1.5d from the column face, where it falls within the pad
+        const px = cx + 3 * d;
+        const py = cy + 3 * d;
+        punchingStress = px < width && py < length
+            ? (ultimateLoad * 1000 - pu * px * py) / (2 * (px + py) * d)
+            : 0;
+
+        // Beam shear across the full width at d from the face
+        const beamShear = a > d ? pu * b * (a - d) / (b * d) : 0;
+
+        if (faceStress <= vMax && punchingStress <= shearCapacity && beamShear <= shearCapacity) break;
+    }
+    if (thickness > MAX_PAD_THICKNESS) {
+        thickness = MAX_PAD_THICKNESS;
+        issues.push(`Fails shear at ${MAX_PAD_THICKNESS}mm thick; enlarge the column`);
+    }
+    if (bearingPressure > allowable * 1.001) {
+        issues.push(`Bearing ${bearingPressure.toFixed(0)} > ${allowable} kN/m²`);
+    }
+
+    return {
+        memberId: column.id,
+        label,
+        member,
+        type: 'pad',
+        serviceLoad,
+        ultimateLoad,
+        width,
+        length,
+        thickness,
+        bearingPressure,
+        asRequired,
+        punchingStress,
+        shearCapacity,
+        adequate: issues.length === 0,
+        issues
+    };
+};
+
+/**
+ * Designs the strip under one wall.
+ * @param ultimateLineLoad - Factored load along the wall (kN/m)
+ */
+export const designStrip = (wall: Wall, label: string, member: string, ultimateLineLoad: number, settings: ProjectSettings): FoundationDesign => {
+    const allowable = settings.soilBearingCapacity || DEFAULT_SOIL_BEARING_CAPACITY;
+    const depth = settings.foundationDepth || 900;
+    const issues: string[] = [];
+    const serviceLoad = ultimateLineLoad / serviceFactor(settings);
+
+    let qNet = netBearing(settings);
+    if (qNet <= 0) {
+        issues.push(`Soil carries no more than the overburden at ${depth}mm`);
+        qNet = allowable;
+    }
+    const width = Math.max(MIN_STRIP_WIDTH, wall.thickness + 2 * 100, roundUp(serviceLoad / qNet * 1000, SIZE_STEP));
+    const thickness = Math.max(MIN_STRIP_THICKNESS, roundUp((width - wall.thickness) / 2, THICKNESS_STEP));
+    const bearingPressure = serviceLoad / (width / 1000) + OVERBURDEN_DENSITY * depth / 1000;
+    if (bearingPressure > allowable * 1.001) {
+        issues.push(`Bearing ${bearingPressure.toFixed(0)} > ${allowable} kN/m²`);
+    }
+
+    return {
+        memberId: wall.id,
+        label,
+        member,
+        type: 'strip',
+        serviceLoad,
+        ultimateLoad: ultimateLineLoad,
+        width,
+        length: getWallLength(wall) / SCALE,
+        thickness,
+        bearingPressure,
+        adequate: issues.length === 0,
+        issues
+    };
+};
+
+/** Strip plan (mm), run on past each end of the wall. */
+const stripToPolygon = (wall: Wall, width: number, walls: Wall[]) => {
+    if (getWallArc(wall)) return wallToPolygon({ ...wall, thickness: width });
+    const length = distance(wall.start, wall.end);
+    if (length === 0) return wallToPolygon({ ...wall, thickness: width });
+    const ux = (wall.end.x - wall.start.x) / length;
+    const uy = (wall.end.y - wall.start.y) / length;
+    const runOn = (end: Wall['start']) => {
+        const meets = walls.some(w => w.id !== wall.id && distance(end, getClosestPointOnWall(end, w).point) / SCALE <= w.thickness / 2 + 1);
+        return (meets ? width / 2 : (width - wall.thickness) / 2) * SCALE;
+    };
+    const before = runOn(wall.start);
+    const after = runOn(wall.end);
+    return wallToPolygon({
+        ...wall,
+        start: { x: wall.start.x - ux * before, y: wall.start.y - uy * before },
+        end: { x: wall.end.x + ux * after, y: wall.end.y + uy * after },
+        thickness: width
+    });
+};
+
+/**
+ * Designs the footings of the ground level.
+ * Pad foundations put a pad under every column; strip foundations run a
+ * strip under every wall and only give pads to columns clear of the walls.
+ */
+export const designFoundations = (columns: Column[], walls: Wall[], loads: LoadTakedown, settings: ProjectSettings): FoundationDesign[] => {
+    const designs: FoundationDesign[] = [];
+    const strips = settings.foundationType !== 'pad';
+    const columnLoadsOnWalls = walls.map(() => 0);
+
+    columns.forEach((col, i) => {
+        const load = loads.columns.find(c => c.columnId === col.id);
+        const ultimate = load?.axialLoad || 0;
+        const hostIndex = strips
+            ? walls.findIndex(w => distance({ x: col.x, y: col.y }, getClosestPointOnWall({ x: col.x, y: col.y }, w).point) / SCALE <= w.thickness / 2)
+            : -1;
+        if (hostIndex >= 0) {
+            columnLoadsOnWalls[hostIndex] += ultimate;
+            return;
+        }
+        designs.push(designPad(col, `F${designs.length + 1}`, load?.label || col.label?.trim() || `C${i + 1}`, ultimate, settings));
+    });
+
+    if (strips) {
+        const stripDesigns: { wall: Wall, design: FoundationDesign }[] = [];
+        walls.forEach((wall, i) => {
+            const load = loads.walls.find(w => w.wallId === wall.id);
+            const lengthM = getWallLength(wall) / SCALE / 1000;
+            if (lengthM === 0) return;
+            const lineLoad = (load?.lineLoad || 0) + columnLoadsOnWalls[i] / lengthM;
+            const design = designStrip(wall, `F${designs.length + 1}`, load?.label || `W${i + 1}`, lineLoad, settings);
+            designs.push(design);
+            stripDesigns.push({ wall, design });
+        });
+
+        // Junctions: wider strips claim the overlap, the rest is measured once
+        let claimed: MultiPolygon = [];
+        [...stripDesigns].sort((a, b) => b.design.width - a.design.width).forEach(({ wall, design }) => {
+            const plan = stripToPolygon(wall, design.width, walls);
+            design.length = calculateMultiPolygonArea(computeDifference([plan], claimed)) * 1e6 / design.width;
+            claimed = addToUnion(claimed, plan);
+        });
+    }
+
+    return designs;
+};
+
+/** Concrete in the footings (m3). */
+export const getFoundationVolume = (designs: FoundationDesign[]): number =>
+    designs.reduce((sum, f) => sum + (f.width / 1000) * (f.length / 1000) * (f.thickness / 1000), 0);
@@ -1,5 +1,5 @@
 
-import { Point, Wall, SnapGuide } from '../types';
+import { Point, Wall, Column, Opening, SnapGuide } from '../types';
 import * as martinez from 'martinez-polygon-clipping';
 
 export const distance = (p1: Point, p2: Point): number => {
@@ -37,6 +37,151 @@ export const getClosestPointOnLine = (p: Point, start: Point, end: Point): { poi
   };
 };
 
+/**
+ * Masonry height (mm) of a wall at parameter t along it (0 = start, 1 = end).
+ * Interpolates sloping (gable) tops and adds any parapet above slab level.
+ */
+export const getWallHeightAt = (wall: Wall, t: number, defaultHeight: number): number => {
+  const startHeight = wall.height || defaultHeight;
+  const endHeight = wall.endHeight ?? startHeight;
+  const clamped = Math.max(0, Math.min(1, t));
+  return startHeight + (endHeight - startHeight) * clamped + (wall.parapetHeight || 0);
+};
+
+// --- Arc Walls ---
+
+const ARC_SEGMENT_ANGLE = Math.PI / 36; // Max sweep per chord when tessellating (5°)
+
+export interface WallArc {
+  centre: Point;
+  radius: number; // px
+  startAngle: number; // radians, of the start point about the centre
+  sweep: number; // radians, signed, from start to end
+}
+
+/**
+ * Circle of an arc wall, or null for a straight wall.
+ * The bulge is the sagitta (px): how far the arc midpoint stands off the
+ * chord, towards the normal (-dy, dx) of start → end when positive.
+ */
+export const getWallArc = (wall: Pick<Wall, 'start' | 'end' | 'bulge'>): WallArc | null => {
+  const chord = distance(wall.start, wall.end);
+  const bulge = wall.bulge || 0;
+  if (chord === 0 || Math.abs(bulge) < 0.01) return null;
+
+  const half = chord / 2;
+  const radius = (half * half + bulge * bulge) / (2 * Math.abs(bulge));
+  const nx = -(wall.end.y - wall.start.y) / chord;
+  const ny = (wall.end.x - wall.start.x) / chord;
+  const offset = bulge - Math.sign(bulge) * radius; // Centre from the chord midpoint, along the normal
+  const centre = {
+    x: (wall.start.x + wall.end.x) / 2 + nx * offset,
+    y: (wall.start.y + wall.end.y) / 2 + ny * offset
+  };
+
+  return {
+    centre,
+    radius,
+    startAngle: Math.atan2(wall.start.y - centre.y, wall.start.x - centre.x),
+    sweep: -Math.sign(bulge) * 4 * Math.atan(Math.abs(bulge) / half)
+  };
+};
+
+/** Bulge (px) of the arc from start to end that rises level with a point. */
+export const getArcBulge = (start: Point, end: Point, through: Point): number => {
+  const chord = distance(start, end);
+  if (chord === 0) return 0;
+  const rise = ((through.x - start.x) * -(end.y - start.y) + (through.y - start.y) * (end.x - start.x)) / chord;
+  return Math.round(rise * 100) / 100;
+};
+
+/** Centreline length of a wall (px), along the arc for curved walls. */
+export const getWallLength = (wall: Pick<Wall, 'start' | 'end' | 'bulge'>): number => {
+  const arc = getWallArc(wall);
+  return arc ? arc.radius * Math.abs(arc.sweep) : distance(wall.start, wall.end);
+};
+
+/**
+ * Point on a wall centreline at a distance (px) along it from the start,
+ * with the direction of travel there (radians).
+ */
+export const getWallPointAt = (wall: Wall, along: number): { point: Point, angle: number } => {
+  const arc = getWallArc(wall);
+  if (!arc) {
+    const length = distance(wall.start, wall.end);
+    const angle = Math.atan2(wall.end.y - wall.start.y, wall.end.x - wall.start.x);
+    if (length === 0) return { point: wall.start, angle };
+    const t = along / length;
+    return {
+      point: { x: wall.start.x + (wall.end.x - wall.start.x) * t, y: wall.start.y + (wall.end.y - wall.start.y) * t },
+      angle
+    };
+  }
+
+  const theta = arc.startAngle + arc.sweep * along / (arc.radius * Math.abs(arc.sweep));
+  return {
+    point: { x: arc.centre.x + arc.radius * Math.cos(theta), y: arc.centre.y + arc.radius * Math.sin(theta) },
+    angle: theta + Math.sign(arc.sweep) * Math.PI / 2
+  };
+};
+
+/** Closest point on a wall centreline, straight or curved; t runs 0 → 1 from start to end. */
+export const getClosestPointOnWall = (p: Point, wall: Wall): { point: Point, t: number } => {
+  const arc = getWallArc(wall);
+  if (!arc) return getClosestPointOnLine(p, wall.start, wall.end);
+
+  // Angle from the start, measured the way the arc turns
+  const span = Math.abs(arc.sweep);
+  const turned = (Math.atan2(p.y - arc.centre.y, p.x - arc.centre.x) - arc.startAngle) * Math.sign(arc.sweep);
+  const d = ((turned % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  const t = d <= span ? d / span : (d - span < 2 * Math.PI - d ? 1 : 0);
+  return { point: getWallPointAt(wall, t * arc.radius * span).point, t };
+};
+
+/** Centreline of a wall as a polyline (px): its two ends, or chords along the arc. */
+export const tessellateWall = (wall: Wall): Point[] => {
+  const arc = getWallArc(wall);
+  if (!arc) return [wall.start, wall.end];
+
+  const count = Math.max(2, Math.ceil(Math.abs(arc.sweep) / ARC_SEGMENT_ANGLE));
+  const length = arc.radius * Math.abs(arc.sweep);
+  const points = [wall.start];
+  for (let i = 1; i < count; i++) points.push(getWallPointAt(wall, length * i / count).point);
+  points.push(wall.end);
+  return points;
+};
+
+/**
+ * Splits arc walls into straight chord walls for the graph algorithms
+ * (junctions, faces, wall lines), moving their openings onto the chords.
+ * Straight walls and their openings pass through unchanged.
+ */
+export const explodeArcWalls = (walls: Wall[], openings: Opening[] = []): { walls: Wall[], openings: Opening[] } => {
+  const chords: Wall[] = [];
+  const moved: Opening[] = openings.filter(o => !walls.some(w => w.id === o.wallId && getWallArc(w)));
+
+  walls.forEach(wall => {
+    const arc = getWallArc(wall);
+    if (!arc) {
+      chords.push(wall);
+      return;
+    }
+
+    const points = tessellateWall(wall);
+    const step = getWallLength(wall) / (points.length - 1); // Arc length per chord
+    const pieces = points.slice(1).map((end, i) => ({ ...wall, id: `${wall.id}:${i}`, start: points[i], end, bulge: undefined }));
+    chords.push(...pieces);
+
+    openings.filter(o => o.wallId === wall.id).forEach(o => {
+      const i = Math.min(pieces.length - 1, Math.max(0, Math.floor(o.distanceFromStart / step)));
+      const scale = distance(pieces[i].start, pieces[i].end) / step;
+      moved.push({ ...o, wallId: pieces[i].id, distanceFromStart: (o.distanceFromStart - i * step) * scale });
+    });
+  });
+
+  return { walls: chords, openings: moved };
+};
+
 export const checkSnapToNodes = (cursor: Point, walls: Wall[], threshold: number = 15): { point: Point, type: 'endpoint' | 'midpoint' } | null => {
   // 1. Check Endpoints first (Higher priority)
   for (const wall of walls) {
@@ -204,10 +349,12 @@ export const isPointOnSegment = (p: Point, start: Point, end: Point, tolerance:
  * This ensures accurate block calculations regardless of drawing method.
  * 
  * @param walls - Array of walls to process
+ * @param verbose - Log each split (diagnostic scripts); off for the live estimate
  * @returns Array of walls with junctions properly split
  */
-export const detectAndSplitJunctions = (walls: Wall[]): Wall[] => {
+export const detectAndSplitJunctions = (walls: Wall[], verbose: boolean = true): Wall[] => {
   if (walls.length === 0) return walls;
+  const log = verbose ? console.log : () => {};
 
   let processedWalls = [...walls];
   const splitThreshold = 15; // px tolerance for detecting junctions (relaxed for better detection)
@@ -216,7 +363,7 @@ export const detectAndSplitJunctions = (walls: Wall[]): Wall[] => {
   let iterations = 0;
   const maxIterations = 10;
 
-  console.log(`🔍 detectAndSplitJunctions: Starting with ${walls.length} walls`);
+  log(`🔍 detectAndSplitJunctions: Starting with ${walls.length} walls`);
 
   while (hasSplits && iterations < maxIterations) {
     hasSplits = false;
@@ -244,7 +391,7 @@ export const detectAndSplitJunctions = (walls: Wall[]): Wall[] => {
           distToWallStart > endpointThreshold &&
           distToWallEnd > endpointThreshold
         ) {
-          console.log(`✂️ T-junction detected: Wall ${i} split by endpoint of wall ${j}, dist=${distToLineStart.toFixed(1)}px`);
+          log(`✂️ T-junction detected: Wall ${i} split by endpoint of wall ${j}, dist=${distToLineStart.toFixed(1)}px`);
           splitPoints.push({ t: closestStart.t, point: closestStart.point });
           hasSplits = true;
         }
@@ -261,7 +408,7 @@ export const detectAndSplitJunctions = (walls: Wall[]): Wall[] => {
           distToWallStartEnd > endpointThreshold &&
           distToWallEndEnd > endpointThreshold
         ) {
-          console.log(`✂️ T-junction detected: Wall ${i} split by endpoint of wall ${j}, dist=${distToLineEnd.toFixed(1)}px`);
+          log(`✂️ T-junction detected: Wall ${i} split by endpoint of wall ${j}, dist=${distToLineEnd.toFixed(1)}px`);
           splitPoints.push({ t: closestEnd.t, point: closestEnd.point });
           hasSplits = true;
         }
@@ -279,7 +426,7 @@ export const detectAndSplitJunctions = (walls: Wall[]): Wall[] => {
           if (distToWallStartCross > endpointThreshold && distToWallEndCross > endpointThreshold) {
             const wallLen = distance(wall.start, wall.end);
             const t = distToWallStartCross / wallLen;
-            console.log(`✂️ Cross-intersection detected: Walls ${i} and ${j} intersect`);
+            log(`✂️ Cross-intersection detected: Walls ${i} and ${j} intersect`);
             splitPoints.push({ t, point: intersection });
             hasSplits = true;
           }
@@ -311,7 +458,7 @@ export const detectAndSplitJunctions = (walls: Wall[]): Wall[] => {
           start: currentStart,
           end: wall.end
         });
-        console.log(`  Wall ${i} split into ${uniqueSplitPoints.length + 1} segments`);
+        log(`  Wall ${i} split into ${uniqueSplitPoints.length + 1} segments`);
       } else {
         nextWalls.push(wall);
       }
@@ -319,7 +466,7 @@ export const detectAndSplitJunctions = (walls: Wall[]): Wall[] => {
 
     processedWalls = nextWalls;
   }
-  console.log(`✅ detectAndSplitJunctions: Completed after ${iterations} iterations, ${processedWalls.length} walls`);
+  log(`✅ detectAndSplitJunctions: Completed after ${iterations} iterations, ${processedWalls.length} walls`);
   return processedWalls;
 };
 
@@ -408,13 +555,132 @@ export const buildGraph = (walls: Wall[]): { nodes: GraphNode[], adjacency: Map<
   return { nodes, adjacency };
 };
 
+/**
+ * Closes small drafting gaps by snapping dangling wall endpoints onto the
+ * nearest endpoint of another wall within the tolerance.
+ */
+const closeEndpointGaps = (walls: Wall[], tolerance: number): Wall[] => {
+  const fuseThreshold = 5;
+  const endpoints: { wallIndex: number; point: Point }[] = [];
+  walls.forEach((w, i) => {
+    endpoints.push({ wallIndex: i, point: w.start });
+    endpoints.push({ wallIndex: i, point: w.end });
+  });
+
+  const isDangling = (p: Point, wallIndex: number) =>
+    !endpoints.some(e => e.wallIndex !== wallIndex && distance(e.point, p) < fuseThreshold);
+
+  const snap = (p: Point, wallIndex: number): Point => {
+    if (!isDangling(p, wallIndex)) return p;
+    let best: Point | null = null;
+    let bestDist = tolerance;
+    endpoints.forEach(e => {
+      if (e.wallIndex === wallIndex) return;
+      const d = distance(e.point, p);
+      if (d < bestDist) {
+        bestDist = d;
+        best = e.point;
+      }
+    });
+    return best || p;
+  };
+
+  return walls.map((w, i) => ({ ...w, start: snap(w.start, i), end: snap(w.end, i) }));
+};
+
+/**
+ * Planar Face Extraction (Room Detection)
+ *
+ * Walks the planarized wall graph and returns every bounded face as a
+ * closed loop of centreline points (px).
+ * 1. Splits walls at T and cross junctions and closes small endpoint gaps.
+ * 2. Prunes dangling filaments (overshoots, stub walls).
+ * 3. Traces faces by always taking the next clockwise edge at each node.
+ * 4. Discards the unbounded outer face of every connected component.
+ *
+ * @param walls - Wall centrelines in px
+ * @param gapTolerance - Max endpoint gap (px) treated as closed
+ */
+export const extractPlanarFaces = (walls: Wall[], gapTolerance: number = 20): Point[][] => {
+  if (walls.length < 3) return [];
+
+  const planar = detectAndSplitJunctions(closeEndpointGaps(explodeArcWalls(walls).walls, gapTolerance), false);
+  const { nodes, adjacency } = buildGraph(planar);
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+
+  // Prune filaments: nodes of degree < 2 can never bound a face
+  let pruned = true;
+  while (pruned) {
+    pruned = false;
+    adjacency.forEach((neighbours, id) => {
+      if (neighbours.length < 2) {
+        neighbours.forEach(n => {
+          const back = adjacency.get(n);
+          if (back) adjacency.set(n, back.filter(b => b !== id));
+        });
+        adjacency.delete(id);
+        pruned = true;
+      }
+    });
+  }
+
+  // Sort neighbours of each node by angle
+  const sorted = new Map<string, string[]>();
+  adjacency.forEach((neighbours, id) => {
+    const origin = nodeById.get(id)!.point;
+    sorted.set(id, [...neighbours].sort((a, b) => {
+      const pa = nodeById.get(a)!.point;
+      const pb = nodeById.get(b)!.point;
+      return Math.atan2(pa.y - origin.y, pa.x - origin.x) - Math.atan2(pb.y - origin.y, pb.x - origin.x);
+    }));
+  });
+
+  const visited = new Set<string>();
+  const faces: Point[][] = [];
+
+  sorted.forEach((neighbours, startId) => {
+    neighbours.forEach(firstId => {
+      if (visited.has(`${startId}>${firstId}`)) return;
+
+      const loop: string[] = [];
+      let from = startId;
+      let to = firstId;
+      let guard = 0;
+
+      while (!visited.has(`${from}>${to}`) && guard++ < 10000) {
+        visited.add(`${from}>${to}`);
+        loop.push(from);
+
+        // At 'to', take the edge immediately clockwise from the one we arrived on
+        const around = sorted.get(to)!;
+        const idx = around.indexOf(from);
+        const next = around[(idx - 1 + around.length) % around.length];
+        from = to;
+        to = next;
+      }
+
+      if (loop.length < 3) return;
+      const points = loop.map(id => nodeById.get(id)!.point);
+
+      // Bounded faces wind opposite to the outer face of their component
+      let signed = 0;
+      for (let i = 0; i < points.length; i++) {
+        const j = (i + 1) % points.length;
+        signed += points[i].x * points[j].y - points[j].x * points[i].y;
+      }
+      if (signed / 2 > 1) faces.push(points);
+    });
+  });
+
+  return faces;
+};
+
 /**
  * Calculates the total enclosed floor area from a set of walls.
- * (Simplified placeholder to restore file validity - Logic pending full restoration if robust area needed)
+ * Measured to wall centrelines; the result is in px² multiplied by scale².
  */
 export const calculateFloorArea = (walls: Wall[], scale: number = 1): number => {
-  // TODO: Restore robust cycle finding logic if needed for Room Area
-  return 0;
+  return extractPlanarFaces(walls).reduce((sum, face) => sum + calculatePolygonArea(face), 0) * scale * scale;
 };
 
 export const calculatePolygonArea = (points: Point[]): number => {
@@ -427,6 +693,21 @@ export const calculatePolygonArea = (points: Point[]): number => {
   return Math.abs(area / 2);
 };
 
+/**
+ * Ray-casting point-in-polygon test.
+ */
+export const isPointInPolygon = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
 // --- CSG Geometric Processing (Section 2.4) ---
 
 
@@ -456,11 +737,27 @@ const ensureMultiPolygon = (geo: Geometry): MultiPolygon => {
 
 /**
  * Converts a Wall (Line Segment) into a physical footprint Polygon.
- * Applies width/2 offset perpendicular to the wall centerline.
+ * Applies width/2 offset perpendicular to the wall centerline; arc walls
+ * are offset radially, tessellated along the curve.
  * @param wall 
  * @returns Polygon (in mm coordinates)
  */
 export const wallToPolygon = (wall: Wall): Polygon => {
+  const arc = getWallArc(wall);
+  if (arc) {
+    const cx = arc.centre.x / SCALE;
+    const cy = arc.centre.y / SCALE;
+    const r = arc.radius / SCALE;
+    const faceAt = (p: Point, radius: number): Position => {
+      const a = Math.atan2(p.y - arc.centre.y, p.x - arc.centre.x);
+      return [cx + radius * Math.cos(a), cy + radius * Math.sin(a)];
+    };
+    const centreline = tessellateWall(wall);
+    const outer = centreline.map(p => faceAt(p, r + wall.thickness / 2));
+    const inner = centreline.map(p => faceAt(p, Math.max(0, r - wall.thickness / 2))).reverse();
+    return [[...outer, ...inner, outer[0]]];
+  }
+
   const x1 = wall.start.x / SCALE;
   const y1 = wall.start.y / SCALE;
   const x2 = wall.end.x / SCALE;
@@ -490,6 +787,45 @@ export const wallToPolygon = (wall: Wall): Polygon => {
   return [[c1, c2, c3, c4, c1]];
 };
 
+/**
+ * Converts a Column into its footprint Polygon, rotated about its centre
+ * the same way the Canvas draws it.
+ * @returns Polygon (in mm coordinates)
+ */
+export const columnToPolygon = (column: Column): Polygon => {
+  const cx = column.x / SCALE;
+  const cy = column.y / SCALE;
+  const hw = column.width / 2;
+  const hh = column.height / 2;
+  const rads = (column.rotation || 0) * (Math.PI / 180);
+  const cos = Math.cos(rads);
+  const sin = Math.sin(rads);
+
+  const corner = (x: number, y: number): Position => [cx + x * cos - y * sin, cy + x * sin + y * cos];
+  const c1 = corner(-hw, -hh);
+
+  return [[c1, corner(hw, -hh), corner(hw, hh), corner(-hw, hh), c1]];
+};
+
+/**
+ * Wall whose face a point (mm) lies on, with its position along the wall.
+ * Measured to the curve of arc walls, so a bay's faces never go to its neighbours.
+ */
+export const findFaceWall = (p: Position, walls: Wall[]): { wall: Wall, t: number } | undefined => {
+  const point = { x: p[0] * SCALE, y: p[1] * SCALE };
+  let best: { wall: Wall, t: number } | undefined;
+  let bestGap = Infinity;
+  walls.forEach(wall => {
+    const closest = getClosestPointOnWall(point, wall);
+    const gap = Math.abs(distance(closest.point, point) / SCALE - wall.thickness / 2);
+    if (gap < bestGap) {
+      bestGap = gap;
+      best = { wall, t: closest.t };
+    }
+  });
+  return best;
+};
+
 /**
  * Computes the Geometric Union of a set of polygons.
  * Resolves L, T, and Cross junctions mathematically.
@@ -508,6 +844,42 @@ export const computeUnion = (polygons: Polygon[]): MultiPolygon => {
   return result;
 };
 
+/**
+ * Adds one polygon to an existing union.
+ * Cheaper than recomputing the whole union when claiming walls one by one.
+ */
+export const addToUnion = (union: MultiPolygon, polygon: Polygon): MultiPolygon => {
+  if (union.length === 0) return [polygon];
+  return ensureMultiPolygon(martinez.union(union, polygon));
+};
+
+/**
+ * Area-weighted centroid of a polygon (holes subtracted), in its own units.
+ */
+export const polygonCentroid = (polygon: Polygon): Position => {
+  let sumA = 0;
+  let sumX = 0;
+  let sumY = 0;
+  polygon.forEach((ring, index) => {
+    let a = 0;
+    let cx = 0;
+    let cy = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+      const cross = ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+      a += cross;
+      cx += (ring[i][0] + ring[i + 1][0]) * cross;
+      cy += (ring[i][1] + ring[i + 1][1]) * cross;
+    }
+    // Normalise winding: outer ring adds, holes subtract
+    const sign = (index === 0 ? 1 : -1) * Math.sign(a || 1);
+    sumA += sign * a / 2;
+    sumX += sign * cx / 6;
+    sumY += sign * cy / 6;
+  });
+  if (sumA === 0) return polygon[0]?.[0] || [0, 0];
+  return [sumX / sumA, sumY / sumA];
+};
+
 /**
  * Computes Geometric Difference (Subject - Clipper).
  * Used to trim partition walls against structural walls.
@@ -531,6 +903,23 @@ export const computeDifference = (subject: MultiPolygon, clipper: MultiPolygon):
   }
 };
 
+/**
+ * Computes Geometric Intersection (Subject ∩ Clipper).
+ * Used to clip opening prisms to the wall they are cut from.
+ */
+export const computeIntersection = (subject: MultiPolygon, clipper: MultiPolygon): MultiPolygon => {
+  if (!subject || subject.length === 0) return [];
+  if (!clipper || clipper.length === 0) return [];
+
+  try {
+    const intersectResult = martinez.intersection(subject, clipper);
+    return ensureMultiPolygon(intersectResult);
+  } catch (e) {
+    console.warn("CSG Intersection failed:", e);
+    return [];
+  }
+};
+
 /**
  * Calculates the total area of a MultiPolygon in square meters.
  */
@@ -1,6 +1,7 @@
 
 import { Wall, Opening, GNNData, GNNNode, GNNEdge, Point, ProjectLabel, GNNSemanticLabel, Beam, Slab, GNNSlab } from '../types';
-import { distance, getLineIntersection, isPointOnSegment, calculatePolygonArea } from './geometry';
+import { distance, getLineIntersection, isPointOnSegment, calculatePolygonArea, explodeArcWalls } from './geometry';
+import { getOpeningArea } from './openingCsg';
 
 const SCALE = 0.05; // Pixel scale (needs to match Canvas)
 const WELD_THRESHOLD = 5; // Pixels (Points closer than this are merged into one Node)
@@ -10,6 +11,7 @@ const WELD_THRESHOLD = 5; // Pixels (Points closer than this are merged into one
  * 
  * Transforms visual lines into a topological graph.
  * 1. Planarization: Detects intersections and splits walls (Fixes "crossed lines" topology).
+ *    Arc walls are first split into chords along the curve.
  * 2. Welds vertices (removes floating point gaps).
  * 3. Indexes Nodes (0, 1, 2...).
  * 4. Builds Adjacency Matrix (Source -> Target).
@@ -19,6 +21,12 @@ const WELD_THRESHOLD = 5; // Pixels (Points closer than this are merged into one
 export const compileGraphData = (walls: Wall[], openings: Opening[], beams: Beam[] = [], slabs: Slab[] = [], labels: ProjectLabel[] = []): GNNData => {
 
   // --- STEP 0: PLANARIZATION (Split walls at intersections) ---
+  // Arc walls become runs of straight chords (with their openings), so the
+  // rest of the compiler only ever sees line segments.
+  const straight = explodeArcWalls(walls, openings);
+  walls = straight.walls;
+  openings = straight.openings;
+
   // We need to break long walls that cross other walls into segments so the graph has a node at the intersection.
 
   interface Segment {
@@ -233,7 +241,7 @@ export const compileGraphData = (walls: Wall[], openings: Opening[], beams: Beam
       const segmentLen = distance(seg.start, seg.end);
 
       if (Math.abs((distToSegmentStart + distToSegmentEnd) - segmentLen) < 1) {
-        openingArea += ((o.width * o.height) / 1e6);
+        openingArea += getOpeningArea(o);
         if (o.type === 'door') hasDoor = 1;
         if (o.type === 'window') hasWindow = 1;
       }
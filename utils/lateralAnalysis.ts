@@ -0,0 +1,308 @@
+import { Wall, Opening, Slab, Room, Point, ProjectSettings, LateralLimits, LateralReport, LateralDirection, SafetyIssue, SafetyStatus } from '../types';
+import { distance, buildGraph, getWallArc, getWallLength, getWallPointAt, tessellateWall, getWallHeightAt, polygonCentroid, calculatePolygonArea } from './geometry';
+import { getOpeningArea } from './openingCsg';
+import { masonryLineLoad } from './beamDesign';
+import { resolveSlabRules } from './slabDesign';
+import { getDesignCode } from './designCodes';
+
+const SCALE = 0.05; // Must match Canvas scale
+const CONCRETE_DENSITY = 24; // kN/m3
+const ROOF_LOAD = 0.5; // kN/m2, light roof and ceiling over rooms without a slab
+const COLLINEAR = 0.05; // Sine of the angle below which walls run on as one line
+const NODE_TOLERANCE = 5; // px, as the wall graph fuses endpoints
+
+export const DEFAULT_LATERAL_LIMITS: LateralLimits = {
+    minWallRatio: 2,
+    maxEccentricity: 0.1,
+    maxOpeningRatio: 35,
+    minPierLength: 600
+};
+
+/**
+ * LATERAL STABILITY (wind and seismic, simple masonry buildings)
+ *
+ * 1. Walls running on through a junction are chained into wall lines along
+ *    the wall graph, and each line is cut into piers between its openings;
+ *    piers shorter than the minimum do not count as shear walls. Arc walls
+ *    are cut into piers along the curve, in short pieces that each resist
+ *    along their own tangent.
+ * 2. A pier resists load along its own axis: its cross-section counts
+ *    cos²θ towards X and sin²θ towards Y. The shear-wall ratio is that
+ *    cross-section over the floor area, in each direction.
+ * 3. The rigidity centre (pier cross-sections about their positions) is
+ *    compared with the mass centre (floors and walls); the offset across a
+ *    load direction over the plan dimension is the torsional eccentricity.
+ * 4. Openings are checked per wall as a share of its face.
+ */
+
+/** Lateral limits with the project overrides applied. */
+export const resolveLateralLimits = (settings: ProjectSettings): LateralLimits => ({
+    ...DEFAULT_LATERAL_LIMITS,
+    ...settings.lateralLimits
+});
+
+/** Openings as a percentage of the wall's face. */
+export const wallOpeningRatio = (wall: Wall, openings: Opening[], settings: ProjectSettings): number => {
+    const face = (getWallLength(wall) / SCALE) * getWallHeightAt(wall, 0.5, settings.wallHeightDefault);
+    if (face <= 0) return 0;
+    const open = openings.filter(o => o.wallId === wall.id).reduce((sum, o) => sum + getOpeningArea(o) * 1e6, 0);
+    return 100 * open / face;
+};
+
+interface Pier {
+    length: number; // mm
+    area: number; // mm2 cross-section
+    mid: Point; // px
+    ux: number; // Unit direction
+    uy: number;
+}
+
+const unit = (wall: Wall) => {
+    const length = distance(wall.start, wall.end);
+    return { ux: (wall.end.x - wall.start.x) / length, uy: (wall.end.y - wall.start.y) / length };
+};
+
+/** Runs of collinear walls joined end to end at nodes of the wall graph. */
+const chainWalls = (walls: Wall[]): Wall[][] => {
+    const valid = walls.filter(w => distance(w.start, w.end) > 0);
+    const { nodes } = buildGraph(valid);
+    const nodeAt = (wall: Wall, p: Point) => nodes.find(n => n.edges.includes(wall) && distance(n.point, p) < NODE_TOLERANCE);
+    const runsOn = (a: Wall, b: Wall) => {
+        const ua = unit(a);
+        const ub = unit(b);
+        return Math.abs(ua.ux * ub.uy - ua.uy * ub.ux) < COLLINEAR;
+    };
+
+    const visited = new Set<string>();
+    const lines: Wall[][] = [];
+    valid.forEach(wall => {
+        if (visited.has(wall.id)) return;
+        visited.add(wall.id);
+        const line = [wall];
+        const extend = (tip: Point, add: (w: Wall) => void) => {
+            let current = wall;
+            for (;;) {
+                const node = nodeAt(current, tip);
+                const next = node?.edges.find(e => e !== current && !visited.has(e.id) && runsOn(e, current));
+                if (!node || !next) return;
+                visited.add(next.id);
+                add(next);
+                tip = distance(next.start, node.point) < distance(next.end, node.point) ? next.end : next.start;
+                current = next;
+            }
+        };
+        extend(wall.end, w => line.push(w));
+        extend(wall.start, w => line.unshift(w));
+        lines.push(line);
+    });
+    return lines;
+};
+
+/** Solid lengths of a wall line between its openings, merged across the walls of the line. */
+const linePiers = (line: Wall[], openings: Opening[], minLength: number): Pier[] => {
+    const origin = line[0].start;
+    const { ux, uy } = unit(line[0]);
+    const along = (p: Point) => ((p.x - origin.x) * ux + (p.y - origin.y) * uy) / SCALE; // mm
+
+    // Solid pieces of each wall, with the openings cut out
+    const pieces: { from: number, to: number, thickness: number }[] = [];
+    line.forEach(wall => {
+        const a = along(wall.start);
+        const b = along(wall.end);
+        const w = unit(wall);
+        const voids = openings
+            .filter(o => o.wallId === wall.id)
+            .map(o => {
+                const c = along({ x: wall.start.x + w.ux * o.distanceFromStart, y: wall.start.y + w.uy * o.distanceFromStart });
+                return [c - o.width / 2, c + o.width / 2];
+            })
+            .sort((p, q) => p[0] - q[0]);
+        let from = Math.min(a, b);
+        const end = Math.max(a, b);
+        voids.forEach(([v0, v1]) => {
+            if (v0 > from) pieces.push({ from, to: Math.min(v0, end), thickness: wall.thickness });
+            from = Math.max(from, v1);
+        });
+        if (end > from) pieces.push({ from, to: end, thickness: wall.thickness });
+    });
+    pieces.sort((p, q) => p.from - q.from);
+
+    // Pieces touching end to end form one pier
+    const piers: Pier[] = [];
+    let start = 0;
+    let to = -Infinity;
+    let area = 0;
+    const close = () => {
+        const length = to - start;
+        if (length >= minLength) {
+            const mid = (start + to) / 2 * SCALE;
+            piers.push({ length, area, mid: { x: origin.x + ux * mid, y: origin.y + uy * mid }, ux, uy });
+        }
+    };
+    pieces.forEach(p => {
+        if (p.to <= p.from) return;
+        if (p.from > to + 1) {
+            if (to > -Infinity) close();
+            start = p.from;
+            area = 0;
+        }
+        to = Math.max(to, p.to);
+        area += (p.to - p.from) * p.thickness;
+    });
+    if (to > -Infinity) close();
+    return piers;
+};
+
+/** Solid runs of an arc wall between its openings, in 5° pieces along the curve. */
+const arcPiers = (wall: Wall, openings: Opening[], minLength: number): Pier[] => {
+    const arc = getWallArc(wall);
+    if (!arc) return [];
+    const length = getWallLength(wall) / SCALE; // mm
+    const voids = openings
+        .filter(o => o.wallId === wall.id)
+        .map(o => [o.distanceFromStart / SCALE - o.width / 2, o.distanceFromStart / SCALE + o.width / 2])
+        .sort((p, q) => p[0] - q[0]);
+    const runs: [number, number][] = [];
+    let from = 0;
+    voids.forEach(([v0, v1]) => {
+        if (v0 > from) runs.push([from, Math.min(v0, length)]);
+        from = Math.max(from, v1);
+    });
+    if (length > from) runs.push([from, length]);
+
+    const step = (arc.radius / SCALE) * Math.PI / 36;
+    return runs.filter(([a, b]) => b - a >= minLength).flatMap(([a, b]) => {
+        const count = Math.ceil((b - a) / step);
+        const piece = (b - a) / count;
+        return Array.from({ length: count }, (_, i) => {
+            const { point, angle } = getWallPointAt(wall, (a + piece * (i + 0.5)) * SCALE);
+            return { length: piece, area: piece * wall.thickness, mid: point, ux: Math.cos(angle), uy: Math.sin(angle) };
+        });
+    });
+};
+
+/**
+ * Checks the lateral stability of one level.
+ * @param rooms - Room outlines, loaded as a light roof where the level has no slab
+ * @param floorArea - Floor area the shear walls are measured against (m2)
+ */
+export const analyzeLateral = (
+    walls: Wall[],
+    openings: Opening[],
+    slabs: Slab[],
+    rooms: Room[],
+    floorArea: number,
+    settings: ProjectSettings
+): LateralReport => {
+    const limits = resolveLateralLimits(settings);
+    const code = getDesignCode(settings);
+    const piers = [
+        ...chainWalls(walls.filter(w => !getWallArc(w))).flatMap(line => linePiers(line, openings, limits.minPierLength)),
+        ...walls.flatMap(w => arcPiers(w, openings, limits.minPierLength))
+    ];
+
+    // 1. Shear walls in each direction, and the rigidity centre
+    let areaX = 0;
+    let areaY = 0;
+    let lengthX = 0;
+    let lengthY = 0;
+    let momentX = 0; // Σ A·y of piers resisting X
+    let momentY = 0; // Σ A·x of piers resisting Y
+    piers.forEach(p => {
+        const area = p.area / 1e6; // m2
+        const cos2 = p.ux * p.ux;
+        const sin2 = p.uy * p.uy;
+        areaX += area * cos2;
+        areaY += area * sin2;
+        lengthX += p.length / 1000 * cos2;
+        lengthY += p.length / 1000 * sin2;
+        momentX += area * cos2 * p.mid.y;
+        momentY += area * sin2 * p.mid.x;
+    });
+
+    // 2. Mass centre: floors (or a light roof over the rooms) and walls
+    const rules = resolveSlabRules(settings);
+    let mass = 0;
+    let mx = 0;
+    let my = 0;
+    const addMass = (weight: number, points: Point[]) => {
+        if (points.length < 3 || weight <= 0) return;
+        const [cx, cy] = polygonCentroid([[...points, points[0]].map(p => [p.x, p.y])]);
+        mass += weight;
+        mx += weight * cx;
+        my += weight * cy;
+    };
+    const areaOf = (points: Point[]) => calculatePolygonArea(points) / (SCALE * SCALE) / 1e6; // m2
+    if (slabs.length > 0) {
+        slabs.forEach(slab => addMass(areaOf(slab.points) * (CONCRETE_DENSITY * (slab.thickness || 150) / 1000 + rules.finishesLoad), slab.points));
+    } else {
+        rooms.forEach(room => addMass(areaOf(room.points) * ROOF_LOAD, room.points));
+    }
+    walls.forEach(wall => {
+        const length = getWallLength(wall);
+        const weight = masonryLineLoad(wall, settings) * length / SCALE / 1000;
+        if (weight <= 0) return;
+        const mid = getWallPointAt(wall, length / 2).point; // Near enough the centroid of a shallow arc
+        mass += weight;
+        mx += weight * mid.x;
+        my += weight * mid.y;
+    });
+
+    const outline = walls.flatMap(tessellateWall);
+    const xs = outline.map(p => p.x);
+    const ys = outline.map(p => p.y);
+    const planX = xs.length > 0 ? (Math.max(...xs) - Math.min(...xs)) / SCALE / 1000 : 0; // m
+    const planY = ys.length > 0 ? (Math.max(...ys) - Math.min(...ys)) / SCALE / 1000 : 0;
+    const massCentre = mass > 0
+        ? { x: mx / mass, y: my / mass }
+        : { x: xs.length > 0 ? (Math.max(...xs) + Math.min(...xs)) / 2 : 0, y: ys.length > 0 ? (Math.max(...ys) + Math.min(...ys)) / 2 : 0 };
+    const rigidityCentre = {
+        x: areaY > 0 ? momentY / areaY : massCentre.x,
+        y: areaX > 0 ? momentX / areaX : massCentre.y
+    };
+
+    // 3. Ratios per load direction; eccentricity is measured across it
+    const direction = (dir: 'x' | 'y', length: number, area: number, offset: number, across: number): LateralDirection => {
+        const eccentricity = Math.abs(offset) / SCALE / 1000;
+        return {
+            direction: dir,
+            shearWallLength: length,
+            shearWallArea: area,
+            wallRatio: floorArea > 0 ? 100 * area / floorArea : 0,
+            eccentricity,
+            eccentricityRatio: across > 0 ? eccentricity / across : 0
+        };
+    };
+    const directions = [
+        direction('x', lengthX, areaX, massCentre.y - rigidityCentre.y, planY),
+        direction('y', lengthY, areaY, massCentre.x - rigidityCentre.x, planX)
+    ];
+
+    const issues: SafetyIssue[] = [];
+    let status: SafetyStatus = 'safe';
+    directions.forEach(d => {
+        const axis = d.direction.toUpperCase();
+        if (floorArea > 0 && d.wallRatio < limits.minWallRatio) {
+            issues.push({
+                type: 'lateral',
+                message: `Shear walls along ${axis}: ${d.wallRatio.toFixed(2)}% of floor area < ${limits.minWallRatio}%`,
+                value: d.wallRatio,
+                limit: limits.minWallRatio,
+                clause: code.lateralClauses.wallRatio
+            });
+            status = 'critical';
+        }
+        if (d.shearWallArea > 0 && d.eccentricityRatio > limits.maxEccentricity) {
+            issues.push({
+                type: 'lateral',
+                message: `Torsion under ${axis} load: eccentricity ${d.eccentricity.toFixed(2)}m is ${(100 * d.eccentricityRatio).toFixed(0)}% of the plan > ${(100 * limits.maxEccentricity).toFixed(0)}%`,
+                value: d.eccentricityRatio,
+                limit: limits.maxEccentricity,
+                clause: code.lateralClauses.torsion
+            });
+            if (status === 'safe') status = 'warning';
+        }
+    });
+
+    return { floorArea, massCentre, rigidityCentre, directions, status, issues };
+};
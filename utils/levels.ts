@@ -0,0 +1,62 @@
+import { Level, ProjectSettings, Wall } from '../types';
+import { generateId } from './geometry';
+
+const LEVEL_NAMES = ['Ground Floor', 'First Floor', 'Second Floor', 'Third Floor', 'Fourth Floor'];
+
+export const getLevelName = (index: number): string => LEVEL_NAMES[index] || `Level ${index}`;
+
+/**
+ * Floor-to-floor height of a level (mm).
+ * Falls back to the project wall height plus the suspended slab above it.
+ */
+export const getFloorToFloorHeight = (level: Level, settings: ProjectSettings): number => {
+    return level.floorToFloorHeight || (settings.wallHeightDefault + settings.floorThickness);
+};
+
+/** Storey wall height of a level (mm): floor-to-floor less the slab above. */
+export const getLevelWallHeight = (level: Level, settings: ProjectSettings): number => {
+    return getFloorToFloorHeight(level, settings) - settings.floorThickness;
+};
+
+/**
+ * Moves walls still at the previous storey height to the new one.
+ * Walls given their own height (gables, split levels) are left alone.
+ */
+export const retargetWallHeights = (walls: Wall[], from: number, to: number): Wall[] => {
+    if (from === to) return walls;
+    return walls.map(w => w.height === from && w.endHeight === undefined ? { ...w, height: to } : w);
+};
+
+/** Floor level of the level at `index` above the ground floor (mm). */
+export const getLevelElevation = (levels: Level[], index: number, settings: ProjectSettings): number => {
+    return levels.slice(0, index).reduce((sum, l) => sum + getFloorToFloorHeight(l, settings), 0);
+};
+
+/** Creates an empty storey to be stacked on top of the given levels. */
+export const createLevel = (existing: Level[]): Level => ({
+    id: generateId(),
+    name: getLevelName(existing.length),
+    walls: [],
+    openings: [],
+    columns: [],
+    beams: [],
+    slabs: [],
+    labels: []
+});
+
+/**
+ * Restores levels from a saved project graph.
+ * Older single-level files are wrapped into a ground floor.
+ */
+export const levelsFromGraph = (graph: Partial<Level> & { levels?: Level[] }): Level[] => {
+    if (graph.levels && graph.levels.length > 0) return graph.levels;
+    return [{
+        ...createLevel([]),
+        walls: graph.walls || [],
+        openings: graph.openings || [],
+        columns: graph.columns || [],
+        beams: graph.beams || [],
+        slabs: graph.slabs || [],
+        labels: graph.labels || []
+    }];
+};
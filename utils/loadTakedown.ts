@@ -0,0 +1,185 @@
+import { Column, Beam, Wall, Slab, Point, ProjectSettings, BeamDesign, LoadTakedown, LoadContribution, ColumnLoad, WallLoad } from '../types';
+import { distance, getClosestPointOnLine, getWallLength } from './geometry';
+import { TributaryArea } from './structuralAnalysis';
+import { slabUltimateLoad } from './slabDesign';
+import { wallOverlapOnBeam, masonryLineLoad } from './beamDesign';
+import { getDesignCode, ultimateLoad } from './designCodes';
+
+const SCALE = 0.05; // Must match Canvas scale
+const CONCRETE_DENSITY = 24; // kN/m3
+const BEARING_TOLERANCE = 100; // mm beyond the supporting member's half width
+
+/**
+ * LOAD TAKEDOWN
+ *
+ * Follows every load down through one level, factored with the design code's
+ * combination:
+ * 1. Slab areas shed onto walls load the wall (those onto beams are already
+ *    in the beam designs).
+ * 2. Each beam's end reactions (half its total load) go to the column or
+ *    wall the end bears on, or are split between the ends of the beam
+ *    carrying it.
+ * 3. Columns and walls of the level above are stacked onto the columns and
+ *    walls below them. A column on a transfer beam is a point load passed
+ *    on to the beam's supports; walls on beams are in the beam designs.
+ * 4. Column and masonry self-weight is added. Beams sit at the level
+ *    soffit, so the walls of this level stand below them.
+ * Loads with nothing underneath are reported as unresolved.
+ */
+
+/** Adds a contribution, merging it with an earlier one from the same source. */
+const addContribution = (list: LoadContribution[], contribution: LoadContribution) => {
+    if (contribution.load <= 0) return;
+    const existing = list.find(c => c.source === contribution.source && c.type === contribution.type);
+    if (existing) existing.load += contribution.load;
+    else list.push({ ...contribution });
+};
+
+const offsetFromLine = (p: Point, start: Point, end: Point) => distance(p, getClosestPointOnLine(p, start, end).point) / SCALE;
+
+const sourceName = (label: string, level?: string) => level ? `${label} (${level})` : label;
+
+/**
+ * Traces the loads of one level down to its columns and walls.
+ * @param above - Takedown of the level above, stacked onto this one
+ */
+export const traceLoads = (
+    columns: Column[],
+    beams: Beam[],
+    walls: Wall[],
+    slabs: Slab[],
+    tributaries: TributaryArea[],
+    beamDesigns: BeamDesign[],
+    settings: ProjectSettings,
+    above?: LoadTakedown
+): LoadTakedown => {
+    const code = getDesignCode(settings);
+    const heightM = settings.wallHeightDefault / 1000;
+    const unresolved: LoadContribution[] = [];
+
+    const columnLoads: ColumnLoad[] = columns.map((col, i) => ({
+        columnId: col.id,
+        label: col.label?.trim() || `C${i + 1}`,
+        position: { x: col.x, y: col.y },
+        contributions: [],
+        axialLoad: 0
+    }));
+    const wallLoads: WallLoad[] = walls.map((wall, i) => ({
+        wallId: wall.id,
+        label: `W${i + 1}`,
+        start: wall.start,
+        end: wall.end,
+        contributions: [],
+        totalLoad: 0,
+        lineLoad: 0
+    }));
+
+    /** Contributions of the column, else the wall, a point load bears on. */
+    const findBearer = (p: Point): LoadContribution[] | undefined => {
+        const ci = columns.findIndex(col =>
+            distance(p, { x: col.x, y: col.y }) / SCALE <= Math.max(col.width, col.height) / 2 + BEARING_TOLERANCE);
+        if (ci >= 0) return columnLoads[ci].contributions;
+        const wi = walls.findIndex(wall => offsetFromLine(p, wall.start, wall.end) <= wall.thickness / 2 + BEARING_TOLERANCE);
+        return wi >= 0 ? wallLoads[wi].contributions : undefined;
+    };
+
+    /** Sends a point load down to whatever carries it, via carrying beams if need be. */
+    const route = (p: Point, contribution: LoadContribution, via: Set<string> = new Set()) => {
+        const bearer = findBearer(p);
+        if (bearer) {
+            addContribution(bearer, contribution);
+            return;
+        }
+        const carrier = beams.find(b => !via.has(b.id) && offsetFromLine(p, b.start, b.end) <= b.width / 2 + BEARING_TOLERANCE);
+        if (!carrier) {
+            addContribution(unresolved, contribution);
+            return;
+        }
+        routeAlongBeam(carrier, getClosestPointOnLine(p, carrier.start, carrier.end).t, contribution, via);
+    };
+
+    /** Splits a load at position t along a beam between its ends by the lever rule. */
+    const routeAlongBeam = (beam: Beam, t: number, contribution: LoadContribution, via: Set<string> = new Set()) => {
+        const next = new Set(via).add(beam.id);
+        route(beam.start, { ...contribution, load: contribution.load * (1 - t) }, next);
+        route(beam.end, { ...contribution, load: contribution.load * t }, next);
+    };
+
+    // 1. Slab areas shed straight onto walls
+    tributaries.filter(t => t.supportType === 'wall').forEach(t => {
+        const wi = walls.findIndex(w => w.id === t.supportId);
+        const si = slabs.findIndex(s => s.id === t.slabId);
+        if (wi < 0 || si < 0) return;
+        addContribution(wallLoads[wi].contributions, {
+            source: slabs[si].label?.trim() || `S${si + 1}`,
+            type: 'slab',
+            load: t.area * slabUltimateLoad(slabs[si].thickness || 150, settings)
+        });
+    });
+
+    // 2. Beam reactions
+    beams.forEach(beam => {
+        const design = beamDesigns.find(d => d.beamId === beam.id);
+        if (!design) return;
+        const reaction = design.ultimateLoad * design.span / 2;
+        const contribution = { source: design.label, type: 'beam' as const, load: reaction };
+        const via = new Set([beam.id]);
+        route(beam.start, contribution, via);
+        route(beam.end, contribution, via);
+    });
+
+    // 3. The level above
+    above?.columns.forEach(upper => {
+        const contribution = { source: sourceName(upper.label, upper.level), type: 'column' as const, load: upper.axialLoad };
+        route(upper.position, contribution);
+    });
+    above?.walls.forEach(upper => {
+        const upperLength = distance(upper.start, upper.end) / SCALE / 1000;
+        if (upperLength === 0) return;
+        // Lengths over beams are in the beam designs and come down with the beam reactions
+        let carried = beams.reduce((sum, beam) =>
+            sum + wallOverlapOnBeam(beam, { start: upper.start, end: upper.end, thickness: beam.width }) / upperLength, 0);
+        carried = Math.min(1, carried);
+        walls.forEach((wall, i) => {
+            const overlap = wallOverlapOnBeam(
+                { start: wall.start, end: wall.end, width: wall.thickness },
+                { start: upper.start, end: upper.end, thickness: wall.thickness }
+            );
+            const share = Math.min(1 - carried, overlap / upperLength);
+            if (share <= 0) return;
+            carried += share;
+            addContribution(wallLoads[i].contributions, { source: sourceName(upper.label, upper.level), type: 'wall', load: upper.totalLoad * share });
+        });
+        if (carried < 0.99) {
+            addContribution(unresolved, { source: sourceName(upper.label, upper.level), type: 'wall', load: upper.totalLoad * (1 - carried) });
+        }
+    });
+
+    // 4. Self-weight
+    columns.forEach((col, i) => {
+        addContribution(columnLoads[i].contributions, {
+            source: 'Self-weight',
+            type: 'self-weight',
+            load: ultimateLoad(code, CONCRETE_DENSITY * (col.width / 1000) * (col.height / 1000) * heightM)
+        });
+    });
+    walls.forEach((wall, i) => {
+        const length = getWallLength(wall) / SCALE / 1000;
+        addContribution(wallLoads[i].contributions, {
+            source: 'Self-weight',
+            type: 'self-weight',
+            load: ultimateLoad(code, masonryLineLoad(wall, settings) * length)
+        });
+    });
+
+    columnLoads.forEach(c => {
+        c.axialLoad = c.contributions.reduce((sum, x) => sum + x.load, 0);
+    });
+    wallLoads.forEach((w, i) => {
+        const length = getWallLength(walls[i]) / SCALE / 1000;
+        w.totalLoad = w.contributions.reduce((sum, x) => sum + x.load, 0);
+        w.lineLoad = length > 0 ? w.totalLoad / length : 0;
+    });
+
+    return { columns: columnLoads, walls: wallLoads, unresolved };
+};
@@ -0,0 +1,118 @@
+import { ProjectSettings, ConcreteGrade, ConcreteElement, ConcreteMix, ConcreteMaterials } from '../types';
+
+const BAG_MASS = 50; // kg of cement
+const FREE_WATER = 205; // kg/m3, 20mm crushed granite with natural sand at 30-60mm slump
+const WET_DENSITY = 2400; // kg/m3, fully compacted
+const FINE_FRACTION = 0.38; // Sand share of the total aggregate
+const NOMINAL_WC = 0.5; // Water/cement of site-batched nominal mixes
+
+/** Target w/c and minimum cement content (kg/m3) by grade. */
+export const CONCRETE_GRADES: Record<ConcreteGrade, { fcu: number, wcRatio: number, minCement: number }> = {
+    C20: { fcu: 20, wcRatio: 0.60, minCement: 260 },
+    C25: { fcu: 25, wcRatio: 0.55, minCement: 280 },
+    C30: { fcu: 30, wcRatio: 0.50, minCement: 300 }
+};
+
+export const DEFAULT_ELEMENT_MIXES: Record<ConcreteElement, ConcreteMix> = {
+    foundation: { grade: 'C20' },
+    column: { grade: 'C25' },
+    beam: { grade: 'C25' },
+    slab: { grade: 'C25' },
+    lintel: { grade: 'C20' }
+};
+
+/**
+ * CONCRETE MIX DESIGN
+ *
+ * Nominal mixes split the dry volume (1.54 × wet) by the volume ratio.
+ * Designed mixes work per cubic metre of compacted concrete, after the DoE
+ * method:
+ * 1. Free water from the aggregate and workability.
+ * 2. Cement from the w/c ratio (the grade's unless set), at least the
+ *    grade's minimum content.
+ * 3. Total aggregate is the wet density less cement and water, split into
+ *    sand and granite by the fine aggregate share.
+ * Both carry the project wastage allowance. Designed mixes also set the
+ * concrete strength the element's structural design uses.
+ */
+
+/** Nominal volume-batched mix, e.g. "1:2:4". */
+export const nominalMixMaterials = (volume: number, mixRatio: string = "1:2:4") => {
+    const parts = mixRatio.split(':').map(Number);
+    const cementPart = parts[0] || 1;
+    const sandPart = parts[1] || 2;
+    const aggPart = parts[2] || 4;
+    const totalParts = cementPart + sandPart + aggPart;
+
+    const dryVolume = volume * 1.54; // Safety factor for shrinkage
+
+    const cementVol = (cementPart / totalParts) * dryVolume;
+    const sandVol = (sandPart / totalParts) * dryVolume;
+    const aggVol = (aggPart / totalParts) * dryVolume;
+
+    return {
+        cementBags: (cementVol / 0.035), // 50kg bag = 0.035m3
+        sandTons: sandVol * 1.6, // Density 1600kg/m3
+        aggregateTons: aggVol * 1.5 // Density 1500kg/m3
+    };
+};
+
+/** The element's mix, with the project overrides applied. */
+export const resolveMix = (element: ConcreteElement, settings: ProjectSettings): ConcreteMix => ({
+    ...DEFAULT_ELEMENT_MIXES[element],
+    ...settings.concreteMixes?.[element]
+});
+
+/** Strength (fcu, N/mm2) of the element's grade when mixes are designed; nominal mixes have no grade. */
+export const gradeStrength = (element: ConcreteElement, settings: ProjectSettings): number | undefined =>
+    settings.concreteMixMethod === 'design'
+        ? (CONCRETE_GRADES[resolveMix(element, settings).grade] || CONCRETE_GRADES.C25).fcu
+        : undefined;
+
+/** Proportions of a designed mix, kg per m3 of compacted concrete. */
+export const designMix = (mix: ConcreteMix) => {
+    const grade = CONCRETE_GRADES[mix.grade] || CONCRETE_GRADES.C25;
+    const wcRatio = Math.min(0.8, Math.max(0.35, mix.wcRatio || grade.wcRatio));
+    const cement = Math.max(FREE_WATER / wcRatio, grade.minCement);
+    const water = cement * wcRatio;
+    const aggregate = WET_DENSITY - cement - water;
+    return {
+        wcRatio,
+        cement,
+        water,
+        sand: aggregate * FINE_FRACTION,
+        granite: aggregate * (1 - FINE_FRACTION)
+    };
+};
+
+/** Materials for one element's concrete, by mix design or the nominal ratio. */
+export const concreteMaterialsFor = (element: ConcreteElement, volume: number, settings: ProjectSettings): ConcreteMaterials => {
+    if (settings.concreteMixMethod === 'design') {
+        const mix = resolveMix(element, settings);
+        const p = designMix(mix);
+        const batched = volume * (1 + settings.wastagePercentage / 100);
+        const cementKg = p.cement * batched;
+        return {
+            element,
+            mix: `${mix.grade}, w/c ${p.wcRatio.toFixed(2)}`,
+            volume,
+            cementKg,
+            cementBags: cementKg / BAG_MASS,
+            sandTons: p.sand * batched / 1000,
+            aggregateTons: p.granite * batched / 1000,
+            waterLiters: p.water * batched
+        };
+    }
+
+    const ratio = settings.floorMixRatio || "1:2:4";
+    const nominal = nominalMixMaterials(volume * (1 + settings.wastagePercentage / 100), ratio);
+    const cementKg = nominal.cementBags * BAG_MASS;
+    return {
+        element,
+        mix: ratio,
+        volume,
+        cementKg,
+        ...nominal,
+        waterLiters: cementKg * NOMINAL_WC
+    };
+};
@@ -0,0 +1,201 @@
+import { Wall, Opening, ProjectSettings } from '../types';
+import { getWallLength, getWallPointAt, getWallArc, getWallHeightAt, computeUnion, computeIntersection, calculateMultiPolygonArea, MultiPolygon, Polygon, Position } from './geometry';
+
+const SCALE = 0.05; // Must match Canvas scale
+const DEFAULT_WINDOW_SILL = 900; // mm
+const ARCH_SEGMENTS = 24; // Chords per arch head in elevation
+export const ARCH_EXTRA_BARS = 2; // Bars bent to the arch over the lintel's main bars
+
+/**
+ * OPENING CSG
+ *
+ * Cuts doors and windows out of the wall solids instead of deducting
+ * width × height × thickness per opening.
+ * 1. Each opening is a rectangle in its host wall's elevation
+ *    (s = mm along the wall from its start, z = mm above floor), with a
+ *    circular head for arches: the segment of rise h over the span, from
+ *    semicircular (h = span / 2) down to flat segmental arches.
+ * 2. The rectangles of one wall are unioned, so overlaps count once, and
+ *    clipped to the wall outline, so nothing is cut past the wall ends or top.
+ * 3. The elevation void is swept through the plan footprint the wall owns,
+ *    so the part of an opening at a junction owned by another wall is kept.
+ *    On arc walls s runs along the curve and the sweep follows it.
+ */
+
+export interface OpeningRect {
+    s0: number;
+    s1: number;
+    z0: number;
+    z1: number;
+}
+
+/** Sill height (mm) of an opening above its floor. */
+export const getSillHeight = (opening: Opening, settings?: ProjectSettings): number => {
+    if (opening.sillHeight !== undefined) return opening.sillHeight;
+    return opening.type === 'window' ? (settings?.windowSillHeight ?? DEFAULT_WINDOW_SILL) : 0;
+};
+
+/** Opening rectangle in its host wall's elevation (mm), unclipped. */
+export const getOpeningRect = (opening: Opening, settings?: ProjectSettings): OpeningRect => {
+    const centre = opening.distanceFromStart / SCALE;
+    const sill = getSillHeight(opening, settings);
+    return {
+        s0: centre - opening.width / 2,
+        s1: centre + opening.width / 2,
+        z0: sill,
+        z1: sill + opening.height
+    };
+};
+
+const rectToPolygon = ({ s0, s1, z0, z1 }: OpeningRect): Polygon => [[
+    [s0, z0], [s1, z0], [s1, z1], [s0, z1], [s0, z0]
+]];
+
+export interface ArchGeometry {
+    rise: number; // mm, springing line to crown
+    radius: number; // mm, of the intrados
+    angle: number; // rad, half the angle the intrados subtends
+    springHeight: number; // mm above floor
+    intrados: number; // mm, arc length of the soffit
+    segmentArea: number; // mm2, between the springing line and the intrados
+}
+
+/** Rise (mm) of an arch head, at most half the span (semicircular) and the clear height. */
+export const getArchRise = (opening: Opening): number => {
+    if (opening.type !== 'arch') return 0;
+    const rise = opening.archRise ?? opening.width / 2;
+    return Math.max(0, Math.min(rise, opening.width / 2, opening.height));
+};
+
+/** Circle through the springings and the crown, or undefined for a flat head. */
+export const getArchGeometry = (opening: Opening, settings?: ProjectSettings): ArchGeometry | undefined => {
+    const rise = getArchRise(opening);
+    if (rise <= 0) return undefined;
+    const half = opening.width / 2;
+    const radius = (half * half + rise * rise) / (2 * rise);
+    const angle = Math.asin(Math.min(1, half / radius));
+    return {
+        rise,
+        radius,
+        angle,
+        springHeight: getSillHeight(opening, settings) + opening.height - rise,
+        intrados: 2 * radius * angle,
+        segmentArea: radius * radius * (angle - Math.sin(angle) * Math.cos(angle))
+    };
+};
+
+/** Clear area of an opening (m2), the true arch area for arches. */
+export const getOpeningArea = (opening: Opening): number => {
+    const arch = getArchGeometry(opening);
+    if (!arch) return (opening.width * opening.height) / 1e6;
+    return (opening.width * (opening.height - arch.rise) + arch.segmentArea) / 1e6;
+};
+
+/** Length (mm) round the reveals: jambs and head (the soffit of an arch), plus the sill for windows. */
+export const getRevealLength = (opening: Opening): number => {
+    const arch = getArchGeometry(opening);
+    const jambs = 2 * (opening.height - (arch?.rise ?? 0));
+    const head = arch ? arch.intrados : opening.width;
+    return jambs + head + (opening.type === 'window' ? opening.width : 0);
+};
+
+/** Opening outline in its host wall's elevation (mm), the arch head in short chords. */
+export const getOpeningOutline = (opening: Opening, settings?: ProjectSettings): Polygon => {
+    const rect = getOpeningRect(opening, settings);
+    const arch = getArchGeometry(opening, settings);
+    if (!arch) return rectToPolygon(rect);
+    const centre = (rect.s0 + rect.s1) / 2;
+    const zc = rect.z1 - arch.radius; // Centre of the intrados
+    // From the right springing over the crown to the left one
+    const head: Position[] = Array.from({ length: ARCH_SEGMENTS + 1 }, (_, i) => {
+        const t = arch.angle - (2 * arch.angle * i) / ARCH_SEGMENTS;
+        return [centre + arch.radius * Math.sin(t), zc + arch.radius * Math.cos(t)];
+    });
+    const jambs: Position[] = arch.springHeight > rect.z0 ? [[rect.s0, rect.z0], [rect.s1, rect.z0]] : [];
+    const ring = [...jambs, ...head];
+    return [[...ring, ring[0]]];
+};
+
+/** Span of an opening (mm along the wall) at height z, narrowing over an arch head. */
+export const getOpeningSpanAt = (opening: Opening, z: number, settings?: ProjectSettings): [number, number] => {
+    const rect = getOpeningRect(opening, settings);
+    const arch = getArchGeometry(opening, settings);
+    if (!arch || z <= arch.springHeight) return [rect.s0, rect.s1];
+    const centre = (rect.s0 + rect.s1) / 2;
+    const dz = z - (rect.z1 - arch.radius);
+    const half = Math.sqrt(Math.max(0, arch.radius * arch.radius - dz * dz));
+    return [centre - half, centre + half];
+};
+
+/** Wall outline in elevation (mm), following a sloping top and parapet. */
+export const getWallElevation = (wall: Wall, defaultHeight: number): Polygon => {
+    const length = getWallLength(wall) / SCALE;
+    return [[
+        [0, 0],
+        [length, 0],
+        [length, getWallHeightAt(wall, 1, defaultHeight)],
+        [0, getWallHeightAt(wall, 0, defaultHeight)],
+        [0, 0]
+    ]];
+};
+
+/**
+ * Net void cut from one wall by its openings.
+ * @param owned - Plan footprint pieces this wall owns after junction trimming (mm)
+ * @returns area - Net elevation area of the openings (m2)
+ * @returns volume - Masonry removed (m3)
+ */
+export const computeOpeningVoid = (
+    wall: Wall,
+    openings: Opening[],
+    owned: MultiPolygon,
+    settings: ProjectSettings
+): { area: number, volume: number } => {
+    const length = getWallLength(wall) / SCALE;
+    if (openings.length === 0 || length === 0) return { area: 0, volume: 0 };
+
+    const outlines = openings.map(o => getOpeningOutline(o, settings));
+    const elevation = computeIntersection(computeUnion(outlines), [getWallElevation(wall, settings.wallHeightDefault)]);
+    const area = calculateMultiPolygonArea(elevation);
+    if (area <= 0) return { area: 0, volume: 0 };
+
+    // Slice into vertical bands at every elevation vertex. Within a band the
+    // void height is constant (or linear under a gable), so plan area × mean
+    // void height gives the band volume.
+    const stations = Array.from(new Set(
+        elevation.flatMap(poly => poly.flatMap(ring => ring.map(([s]) => s)))
+    )).sort((a, b) => a - b);
+
+    const reach = wall.thickness; // Wider than the wall, the owned footprint does the clipping
+    const at = (s: number, n: number): Position => {
+        const { point, angle } = getWallPointAt(wall, s * SCALE);
+        return [point.x / SCALE - Math.sin(angle) * n, point.y / SCALE + Math.cos(angle) * n];
+    };
+    // Band outline across the wall; curved walls follow the arc in short steps
+    const arc = getWallArc(wall);
+    const step = arc ? (arc.radius / SCALE) * Math.PI / 36 : Infinity;
+    const band = (a: number, b: number): Polygon => {
+        const count = Math.max(1, Math.ceil((b - a) / step));
+        const stations = Array.from({ length: count + 1 }, (_, i) => a + (b - a) * i / count);
+        const near = stations.map(s => at(s, -reach));
+        const far = stations.map(s => at(s, reach)).reverse();
+        return [[...near, ...far, near[0]]];
+    };
+    const zTop = Math.max(getWallHeightAt(wall, 0, settings.wallHeightDefault), getWallHeightAt(wall, 1, settings.wallHeightDefault)) + 1;
+
+    let volume = 0;
+    for (let i = 0; i < stations.length - 1; i++) {
+        const a = stations[i];
+        const b = stations[i + 1];
+        if (b - a < 1e-6) continue;
+
+        const bandElevation = calculateMultiPolygonArea(computeIntersection(elevation, [rectToPolygon({ s0: a, s1: b, z0: -1, z1: zTop })]));
+        if (bandElevation <= 0) continue;
+
+        const planArea = calculateMultiPolygonArea(computeIntersection(owned, [band(a, b)]));
+
+        volume += planArea * bandElevation / ((b - a) / 1000);
+    }
+
+    return { area, volume };
+};
@@ -0,0 +1,94 @@
+import { Opening, OpeningSpec, OpeningType, OpeningScheduleEntry, FrameMaterial, ProjectSettings } from '../types';
+import { getArchRise, getOpeningArea, getRevealLength } from './openingCsg';
+
+const GLAZED_FRACTION = 0.8; // Glass share of a glazed opening, after frame and sash sections
+
+/** Types untyped openings fall back to, by kind; marks without a number read "untyped". */
+export const DEFAULT_OPENING_SPECS: Record<OpeningType, OpeningSpec> = {
+    door: { id: 'default_door', mark: 'D', kind: 'door', frame: 'timber', leaves: 1, glazing: 'none', ironmongery: 'lockset', burglaryBars: false },
+    window: { id: 'default_window', mark: 'W', kind: 'window', frame: 'aluminium', leaves: 2, glazing: 'clear', ironmongery: 'window', burglaryBars: true },
+    arch: { id: 'default_arch', mark: 'A', kind: 'arch', frame: 'none', leaves: 0, glazing: 'none', ironmongery: 'none', burglaryBars: false }
+};
+
+const KIND_ORDER: OpeningType[] = ['door', 'window', 'arch'];
+
+/**
+ * DOOR AND WINDOW SCHEDULE
+ *
+ * Every opening takes its type (D1, W1…) from the project's opening specs,
+ * or the default for its kind. Openings of one type and size share a row:
+ * 1. Frames run round the reveals, jambs and head plus the sill for windows.
+ * 2. Glazed types glaze the clear area less the frame and sash sections.
+ * 3. One ironmongery set per opening.
+ * 4. Burglary-proof bars cover the clear opening.
+ */
+
+/** The opening's type, or the default for its kind. */
+export const resolveOpeningSpec = (opening: Opening, settings: ProjectSettings): OpeningSpec => {
+    const spec = settings.openingSpecs?.find(s => s.id === opening.specId);
+    return spec && spec.kind === opening.type ? spec : DEFAULT_OPENING_SPECS[opening.type];
+};
+
+/** Next free mark for a new type, e.g. "D3". */
+export const nextSpecMark = (kind: OpeningType, specs: OpeningSpec[] = []): string => {
+    const prefix = DEFAULT_OPENING_SPECS[kind].mark;
+    const used = specs
+        .filter(s => s.kind === kind)
+        .map(s => parseInt(s.mark.slice(prefix.length), 10))
+        .filter(n => !isNaN(n));
+    return `${prefix}${used.length > 0 ? Math.max(...used) + 1 : 1}`;
+};
+
+const scheduleKey = (e: OpeningScheduleEntry) => `${e.spec.id}|${e.width}|${e.height}|${e.archRise ?? ''}`;
+
+/** Combines rows of the same type and size, e.g. from several levels. */
+export const summariseOpeningSchedule = (entries: OpeningScheduleEntry[]): OpeningScheduleEntry[] => {
+    const rows = new Map<string, OpeningScheduleEntry>();
+    entries.forEach(e => {
+        const row = rows.get(scheduleKey(e));
+        if (!row) {
+            rows.set(scheduleKey(e), { ...e });
+            return;
+        }
+        row.count += e.count;
+        row.frameLength += e.frameLength;
+        row.glazingArea += e.glazingArea;
+        row.hardwareSets += e.hardwareSets;
+        row.burglaryBarArea += e.burglaryBarArea;
+    });
+    return Array.from(rows.values()).sort((a, b) =>
+        KIND_ORDER.indexOf(a.spec.kind) - KIND_ORDER.indexOf(b.spec.kind)
+        || a.spec.mark.localeCompare(b.spec.mark, undefined, { numeric: true })
+        || a.width - b.width
+        || a.height - b.height
+    );
+};
+
+/** Schedule rows for one level's openings. */
+export const buildOpeningSchedule = (openings: Opening[], settings: ProjectSettings): OpeningScheduleEntry[] =>
+    summariseOpeningSchedule(openings.map(o => {
+        const spec = resolveOpeningSpec(o, settings);
+        const area = getOpeningArea(o);
+        const archRise = getArchRise(o);
+        return {
+            spec,
+            width: o.width,
+            height: o.height,
+            archRise: archRise > 0 ? archRise : undefined,
+            count: 1,
+            frameLength: spec.frame !== 'none' ? getRevealLength(o) / 1000 : 0,
+            glazingArea: spec.glazing !== 'none' ? area * GLAZED_FRACTION : 0,
+            hardwareSets: spec.ironmongery !== 'none' ? 1 : 0,
+            burglaryBarArea: spec.burglaryBars ? area : 0
+        };
+    }));
+
+/** Frame length (m) by material, for pricing. */
+export const frameLengthByMaterial = (entries: OpeningScheduleEntry[]): Partial<Record<FrameMaterial, number>> => {
+    const totals: Partial<Record<FrameMaterial, number>> = {};
+    entries.forEach(e => {
+        if (e.spec.frame === 'none' || e.frameLength <= 0) return;
+        totals[e.spec.frame] = (totals[e.spec.frame] || 0) + e.frameLength;
+    });
+    return totals;
+};
@@ -0,0 +1,114 @@
+import { Room, ProjectSettings, PaintRules, PaintScheduleEntry, PaintZone, WallFinish } from '../types';
+import { PlasterTakeoff } from './plasterTakeoff';
+
+export const DEFAULT_PAINT_RULES: PaintRules = {
+    systems: {
+        emulsion: { coats: 2, coverage: 10, primerCoats: 1, primerCoverage: 12 },
+        textured: { coats: 1, coverage: 3, primerCoats: 1, primerCoverage: 10 },
+        gloss: { coats: 2, coverage: 12, primerCoats: 1, primerCoverage: 10 }
+    },
+    externalFinish: 'textured',
+    externalColour: 'Cream',
+    ceilingFinish: 'emulsion',
+    defaultColour: 'White',
+    bucketSize: 20
+};
+
+const ZONE_ORDER: PaintZone[] = ['internal', 'ceiling', 'external'];
+
+/**
+ * PAINT SCHEDULE
+ *
+ * Each finish is a paint system: finish coats at a spread rate over
+ * sealer/primer coats. Areas come from the other takeoffs:
+ * 1. Internal walls per room, net of openings and wall tiling, in the
+ *    room's colour; plastered faces outside any room (reveals, stub walls)
+ *    take the default colour.
+ * 2. Ceilings per room, except PVC.
+ * 3. The rendered external faces.
+ * Paint is bought per colour, so each zone and colour rounds up to buckets.
+ */
+
+/** Paint rules with the project overrides applied. */
+export const resolvePaintRules = (settings: ProjectSettings): PaintRules => ({
+    ...DEFAULT_PAINT_RULES,
+    ...settings.paintRules,
+    systems: { ...DEFAULT_PAINT_RULES.systems, ...settings.paintRules?.systems }
+});
+
+const scheduleKey = (e: PaintScheduleEntry) => `${e.zone}|${e.finish}|${e.colour.trim().toLowerCase()}`;
+
+/** Combines rows of the same zone, finish and colour, e.g. from several levels, and rounds to buckets. */
+export const summarisePaintSchedule = (entries: PaintScheduleEntry[], settings: ProjectSettings): PaintScheduleEntry[] => {
+    const { bucketSize } = resolvePaintRules(settings);
+    const rows = new Map<string, PaintScheduleEntry>();
+    entries.forEach(e => {
+        const row = rows.get(scheduleKey(e));
+        if (!row) {
+            rows.set(scheduleKey(e), { ...e });
+            return;
+        }
+        row.area += e.area;
+        row.litres += e.litres;
+        row.primerLitres += e.primerLitres;
+    });
+    return Array.from(rows.values())
+        .map(row => ({ ...row, buckets: Math.ceil(row.litres / bucketSize) }))
+        .sort((a, b) =>
+            ZONE_ORDER.indexOf(a.zone) - ZONE_ORDER.indexOf(b.zone)
+            || a.finish.localeCompare(b.finish)
+            || a.colour.localeCompare(b.colour)
+        );
+};
+
+/** Schedule rows for one level's rooms and plastered faces. */
+export const buildPaintSchedule = (rooms: Room[], plaster: PlasterTakeoff, settings: ProjectSettings): PaintScheduleEntry[] => {
+    const rules = resolvePaintRules(settings);
+    const wastage = 1 + settings.wastagePercentage / 100;
+
+    const entry = (zone: PaintZone, finish: WallFinish, colour: string, area: number): PaintScheduleEntry => {
+        const system = rules.systems[finish];
+        const litres = system.coverage > 0 ? area * system.coats / system.coverage * wastage : 0;
+        return {
+            zone,
+            finish,
+            colour: colour.trim() || rules.defaultColour,
+            area,
+            litres,
+            primerLitres: system.primerCoverage > 0 ? area * system.primerCoats / system.primerCoverage * wastage : 0,
+            buckets: Math.ceil(litres / rules.bucketSize)
+        };
+    };
+
+    const entries: PaintScheduleEntry[] = [];
+    rooms.forEach(room => {
+        entries.push(entry('internal', room.wallFinish, room.wallColour || rules.defaultColour, room.wallPaintArea));
+        if (room.ceilingType !== 'pvc') {
+            entries.push(entry('ceiling', rules.ceilingFinish, room.ceilingColour || rules.defaultColour, room.ceilingArea));
+        }
+    });
+
+    // Plastered faces the rooms don't account for
+    const roomFaces = rooms.reduce((sum, r) => sum + r.wallPaintArea + r.wallTileArea, 0);
+    const remainder = plaster.internalArea - roomFaces;
+    if (remainder > 0) {
+        entries.push(entry('internal', 'emulsion', rules.defaultColour, remainder));
+    }
+    if (plaster.externalArea > 0) {
+        entries.push(entry('external', rules.externalFinish, rules.externalColour, plaster.externalArea));
+    }
+
+    return summarisePaintSchedule(entries.filter(e => e.area > 0), settings);
+};
+
+/** Finish and primer buckets by finish, for pricing. */
+export const paintBucketsByFinish = (entries: PaintScheduleEntry[], settings: ProjectSettings): { finishes: Partial<Record<WallFinish, number>>, primer: number } => {
+    const { bucketSize } = resolvePaintRules(settings);
+    const finishes: Partial<Record<WallFinish, number>> = {};
+    entries.forEach(e => {
+        finishes[e.finish] = (finishes[e.finish] || 0) + e.buckets;
+    });
+    // Primer/sealer is one product whatever the top coat colour
+    const primer = Math.ceil(entries.reduce((sum, e) => sum + e.primerLitres, 0) / bucketSize);
+    return { finishes, primer };
+};
@@ -0,0 +1,143 @@
+import { Wall, Opening, ProjectSettings } from '../types';
+import { distance, getClosestPointOnLine, getWallPointAt, getWallHeightAt, findFaceWall, MultiPolygon, Position } from './geometry';
+import { getOpeningArea, getRevealLength } from './openingCsg';
+
+const SCALE = 0.05; // Must match Canvas scale
+const FACE_TOLERANCE = 5; // mm, point to wall face
+const DRY_VOLUME_FACTOR = 1.27; // Wet plaster -> dry materials (bulking + voids)
+
+/**
+ * PLASTER / RENDER TAKEOFF
+ *
+ * Wall faces come straight from the CSG footprint union:
+ * - Outer rings are the external faces (rendered).
+ * - Holes are the room faces (plastered).
+ * Each face edge is measured at the height of the wall it belongs to; a
+ * parapet's inner face is above the roof, so it is rendered, not plastered.
+ * Openings are deducted from the faces they pass through, and their reveals
+ * (jambs, head and window sills) are added back, split between the coats on
+ * external walls.
+ */
+
+export interface PlasterTakeoff {
+    internalArea: number; // m2, incl. reveals
+    externalArea: number; // m2, incl. reveals
+    revealArea: number; // m2 (already in the two areas above)
+    internalVolume: number; // m3 wet
+    externalVolume: number; // m3 wet
+    cementBags: number;
+    sandTons: number; // Plaster (soft) sand
+}
+
+const distanceToSegment = (p: Position, a: Position, b: Position): number => {
+    const { point } = getClosestPointOnLine({ x: p[0], y: p[1] }, { x: a[0], y: a[1] }, { x: b[0], y: b[1] });
+    return Math.hypot(p[0] - point.x, p[1] - point.y);
+};
+
+const distanceToRing = (p: Position, ring: Position[]): number => {
+    let min = Infinity;
+    for (let i = 0; i < ring.length - 1; i++) {
+        min = Math.min(min, distanceToSegment(p, ring[i], ring[i + 1]));
+    }
+    return min;
+};
+
+/**
+ * Measures internal plaster and external render for one level.
+ * @param footprint - Union of all wall footprints (mm)
+ */
+export const computePlasterTakeoff = (
+    footprint: MultiPolygon,
+    walls: Wall[],
+    openings: Opening[],
+    settings: ProjectSettings
+): PlasterTakeoff => {
+    let internalArea = 0;
+    let externalArea = 0;
+    let revealArea = 0;
+
+    // 1. Faces: edge length × wall height at the edge midpoint
+    footprint.forEach(poly => {
+        poly.forEach((ring, index) => {
+            const isExternal = index === 0;
+            for (let i = 0; i < ring.length - 1; i++) {
+                const a = ring[i];
+                const b = ring[i + 1];
+                const lengthM = Math.hypot(b[0] - a[0], b[1] - a[1]) / 1000;
+                const face = findFaceWall([(a[0] + b[0]) / 2, (a[1] + b[1]) / 2], walls);
+                if (!face) continue;
+
+                const fullHeightM = getWallHeightAt(face.wall, face.t, settings.wallHeightDefault) / 1000;
+                const parapetM = (face.wall.parapetHeight || 0) / 1000;
+                if (isExternal) {
+                    externalArea += lengthM * fullHeightM;
+                } else {
+                    internalArea += lengthM * (fullHeightM - parapetM);
+                    externalArea += lengthM * parapetM;
+                }
+            }
+        });
+    });
+
+    // 2. Openings: deduct from each face they pass through, add reveals back
+    const outerRings = footprint.map(poly => poly[0]).filter(Boolean);
+    openings.forEach(o => {
+        const host = walls.find(w => w.id === o.wallId);
+        if (!host) return;
+        if (distance(host.start, host.end) === 0) return;
+
+        const { point, angle } = getWallPointAt(host, o.distanceFromStart);
+        const ux = Math.cos(angle);
+        const uy = Math.sin(angle);
+        const cx = point.x / SCALE;
+        const cy = point.y / SCALE;
+        const half = host.thickness / 2;
+
+        const areaM2 = getOpeningArea(o);
+        let externalFaces = 0;
+        [1, -1].forEach(side => {
+            const facePoint: Position = [cx - uy * half * side, cy + ux * half * side];
+            const onOuter = outerRings.some(ring => distanceToRing(facePoint, ring) < FACE_TOLERANCE);
+            if (onOuter) {
+                externalArea -= areaM2;
+                externalFaces++;
+            } else {
+                internalArea -= areaM2;
+            }
+        });
+
+        // Jambs and head, plus the sill for windows
+        const reveal = (getRevealLength(o) / 1000) * (host.thickness / 1000);
+        revealArea += reveal;
+        externalArea += reveal * (externalFaces / 2);
+        internalArea += reveal * (1 - externalFaces / 2);
+    });
+
+    internalArea = Math.max(0, internalArea);
+    externalArea = Math.max(0, externalArea);
+
+    // 3. Materials per coat
+    const internalVolume = internalArea * ((settings.internalPlasterThickness ?? 12) / 1000);
+    const externalVolume = externalArea * ((settings.externalRenderThickness ?? 20) / 1000);
+    const materialWastage = 1 + (settings.wastagePercentage / 100);
+
+    const coat = (volume: number, ratio: number) => {
+        const dry = volume * DRY_VOLUME_FACTOR;
+        return {
+            cementBags: (dry / (1 + ratio)) / 0.035 * materialWastage, // 50kg bag = 0.035m3
+            sandTons: (dry * ratio / (1 + ratio)) * 1.6 * materialWastage // Density 1600kg/m3
+        };
+    };
+    const internal = coat(internalVolume, settings.plasterRatio || 6);
+    const external = coat(externalVolume, settings.renderRatio || 4);
+
+    return {
+        internalArea,
+        externalArea,
+        revealArea,
+        internalVolume,
+        externalVolume,
+        cementBags: internal.cementBags + external.cementBags,
+        sandTons: internal.sandTons + external.sandTons
+    };
+};
@@ -0,0 +1,399 @@
+import { Wall, Roof, RoofTakeoff } from '../types';
+import { distance, generateId, wallToPolygon, computeUnion, isPointInPolygon, MultiPolygon, Position } from './geometry';
+import { skeletonFaces } from './structuralAnalysis';
+
+const RIDGE_CAP_LENGTH = 2.0; // m effective cover of one ridge cap
+const OUTLET_AREA = 40; // m2 of flat roof drained per rainwater outlet
+const MIN_OUTLETS = 2; // So one blocked outlet doesn't pond the roof
+const LEVEL_TOLERANCE = 1; // mm
+const MIN_RIDGE = 50; // mm; a shorter level run is where hips meet at a point
+const EPSILON = 1e-3;
+const FOLD_ANGLE = Math.PI / 18; // Planes turning less than this (10°) are facets of one curved surface
+
+/**
+ * ROOF DESIGN
+ *
+ * Generates the roof from the outer wall loop of a level.
+ * - Eaves: the outer face of the wall union, with the notches left at
+ *   butt-jointed corners squared off, offset by the overhang.
+ * - Covering: every plane of a hip or gable roof has the same pitch, so the
+ *   sloped area is the eaves plan area / cos(pitch) for any outline.
+ * - Hip roofs are set out on the straight skeleton of the eaves, so L, T
+ *   and U plans get a ridge per wing with hips and valleys between them.
+ * - Gable roofs are set out on rectangular plans only, with the ridge along
+ *   the long side; other outlines are flagged rather than priced wrongly.
+ * - Rafters and purlins are measured per square metre of slope at their
+ *   spacing; trusses (tie, king post, struts) span wall to wall under each
+ *   ridge.
+ * - Flat roofs stop inside a parapet: the deck is waterproofed, the parapet
+ *   is coped round the outer loop, and the roof drains through outlets in
+ *   the parapet rather than to eaves gutters.
+ */
+
+export const createRoof = (): Roof => ({
+    id: generateId(),
+    type: 'gable',
+    pitch: 25,
+    overhang: 600
+});
+
+/** A ridge, hip or valley in plan; its height is its inset times tan(pitch). */
+export interface RoofLine {
+    points: [Position, Position]; // mm
+    inset: [number, number]; // mm from the eaves line of its planes, at each end
+}
+
+export interface RoofGeometry {
+    eaves: Position[]; // mm, closed ring
+    ridges: RoofLine[];
+    hips: RoofLine[];
+    valleys: RoofLine[];
+    length: number; // mm along the ridge (gable)
+    width: number; // mm across the ridge (gable, span incl. overhangs)
+    warning?: string; // The outline could not be set out; ridge-based items are withheld
+}
+
+const ringArea = (ring: Position[]): number => {
+    let area = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+        area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+    }
+    return area / 2;
+};
+
+const ringPerimeter = (ring: Position[]): number => {
+    let perimeter = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+        perimeter += Math.hypot(ring[i + 1][0] - ring[i][0], ring[i + 1][1] - ring[i][1]);
+    }
+    return perimeter;
+};
+
+/** Mitred outward offset of a closed ring. */
+const offsetRing = (ring: Position[], offset: number): Position[] => {
+    const pts = ring.slice(0, -1);
+    const n = pts.length;
+    if (n < 3 || offset === 0) return ring;
+
+    // Outward normals point right of travel for counter-clockwise rings (y down)
+    const sign = ringArea(ring) > 0 ? -1 : 1;
+    const normal = (a: Position, b: Position): Position => {
+        const len = Math.hypot(b[0] - a[0], b[1] - a[1]) || 1;
+        return [sign * -(b[1] - a[1]) / len, sign * (b[0] - a[0]) / len];
+    };
+
+    const result = pts.map((p, i) => {
+        const n1 = normal(pts[(i - 1 + n) % n], p);
+        const n2 = normal(p, pts[(i + 1) % n]);
+        const bx = n1[0] + n2[0];
+        const by = n1[1] + n2[1];
+        const dot = bx * n1[0] + by * n1[1];
+        if (Math.abs(dot) < 1e-9) return [p[0] + n1[0] * offset, p[1] + n1[1] * offset] as Position;
+        const k = offset / dot;
+        return [p[0] + bx * k, p[1] + by * k] as Position;
+    });
+    result.push(result[0]);
+    return result;
+};
+
+/** Outer face of the wall union (mm): the largest outer ring. */
+const getOuterLoop = (footprint: MultiPolygon): Position[] | undefined => {
+    let best: Position[] | undefined;
+    let bestArea = 0;
+    footprint.forEach(poly => {
+        const area = Math.abs(ringArea(poly[0] || []));
+        if (area > bestArea) {
+            bestArea = area;
+            best = poly[0];
+        }
+    });
+    return best;
+};
+
+/** Corners of a closed ring as an open ring: drops repeated and collinear points. */
+const ringCorners = (ring: Position[]): Position[] => {
+    const open = ring.slice(0, -1).filter((p, i, all) => {
+        const next = all[(i + 1) % all.length];
+        return Math.hypot(next[0] - p[0], next[1] - p[1]) > LEVEL_TOLERANCE;
+    });
+    return open.filter((p, i) => {
+        const prev = open[(i - 1 + open.length) % open.length];
+        const next = open[(i + 1) % open.length];
+        const cross = (p[0] - prev[0]) * (next[1] - p[1]) - (p[1] - prev[1]) * (next[0] - p[0]);
+        return Math.abs(cross) > EPSILON * Math.hypot(p[0] - prev[0], p[1] - prev[1]) * Math.hypot(next[0] - p[0], next[1] - p[1]);
+    });
+};
+
+/**
+ * Squares off the notch butt-jointed walls leave at an outer corner: two
+ * short edges stepping in are replaced by the meeting point of the long
+ * edges either side. Takes and returns an open ring.
+ */
+const closeNotches = (ring: Position[], tolerance: number): Position[] => {
+    const n = ring.length;
+    const edge = (i: number): [Position, Position] => [ring[i % n], ring[(i + 1) % n]];
+    const edgeLength = (i: number) => {
+        const [a, b] = edge(i);
+        return Math.hypot(b[0] - a[0], b[1] - a[1]);
+    };
+    const turn = (a: [Position, Position], b: [Position, Position]) =>
+        (a[1][0] - a[0][0]) * (b[1][1] - b[0][1]) - (a[1][1] - a[0][1]) * (b[1][0] - b[0][0]);
+
+    const start = ring.findIndex((_, i) => edgeLength(i) > tolerance);
+    if (start < 0) return ring;
+    const result: Position[] = [];
+    for (let i = start; i < start + n;) {
+        let k = i + 1;
+        while (k < start + n && edgeLength(k) <= tolerance) k++;
+        const [a0, a1] = edge(i);
+        const [b0, b1] = edge(k);
+        const ax = a1[0] - a0[0], ay = a1[1] - a0[1];
+        const bx = b1[0] - b0[0], by = b1[1] - b0[1];
+        const det = ax * by - ay * bx;
+        // A notch turns back on itself: its middle corner is reflex where the closed corner is convex
+        if (k - i === 3 && Math.abs(det) > EPSILON * Math.hypot(ax, ay) * Math.hypot(bx, by)
+            && Math.sign(turn(edge(i + 1), edge(i + 2))) !== Math.sign(det)) {
+            const t = ((b0[0] - a0[0]) * by - (b0[1] - a0[1]) * bx) / det;
+            result.push([a0[0] + ax * t, a0[1] + ay * t]);
+        } else {
+            for (let j = i + 1; j <= k; j++) result.push(ring[j % n]);
+        }
+        i = k;
+    }
+    return result;
+};
+
+const isRectangle = (corners: Position[]): boolean => corners.length === 4 && corners.every((p, i) => {
+    const prev = corners[(i + 3) % 4];
+    const next = corners[(i + 1) % 4];
+    const ax = p[0] - prev[0], ay = p[1] - prev[1];
+    const bx = next[0] - p[0], by = next[1] - p[1];
+    return Math.abs(ax * bx + ay * by) < EPSILON * Math.hypot(ax, ay) * Math.hypot(bx, by);
+});
+
+/** Joins level lines that meet end to end in a straight run, so each ridge is set out whole. */
+const joinLines = (lines: RoofLine[]): RoofLine[] => {
+    const joined = [...lines];
+    const same = (p: Position, q: Position) => Math.hypot(p[0] - q[0], p[1] - q[1]) < LEVEL_TOLERANCE;
+    for (let i = 0; i < joined.length; i++) {
+        for (let j = i + 1; j < joined.length; j++) {
+            const [a0, a1] = joined[i].points;
+            const [b0, b1] = joined[j].points;
+            if (Math.abs(joined[i].inset[0] - joined[j].inset[0]) > LEVEL_TOLERANCE) continue;
+            // Orient both runs so they meet at a1 === b0
+            const ends: [Position, Position, Position] | undefined =
+                same(a1, b0) ? [a0, a1, b1] : same(a1, b1) ? [a0, a1, b0] :
+                same(a0, b0) ? [a1, a0, b1] : same(a0, b1) ? [a1, a0, b0] : undefined;
+            if (!ends) continue;
+            const [p, q, r] = ends;
+            const cross = (q[0] - p[0]) * (r[1] - q[1]) - (q[1] - p[1]) * (r[0] - q[0]);
+            if (Math.abs(cross) > EPSILON * Math.hypot(q[0] - p[0], q[1] - p[1]) * Math.hypot(r[0] - q[0], r[1] - q[1])) continue;
+            joined[i] = { points: [p, r], inset: joined[i].inset };
+            joined.splice(j, 1);
+            j = i;
+        }
+    }
+    return joined;
+};
+
+/**
+ * Hipped setout on the straight skeleton of the eaves: every plane rises at
+ * the pitch from its own eaves edge, so each arc between two planes is a
+ * ridge (level), a hip (the planes fall away from it) or a valley.
+ */
+const hipSetout = (corners: Position[]): { ridges: RoofLine[], hips: RoofLine[], valleys: RoofLine[] } => {
+    const ring = ringArea([...corners, corners[0]]) < 0 ? [...corners].reverse() : corners;
+    const n = ring.length;
+    // Inward normal of each eaves edge, and the inset of a point from its line
+    const normals = ring.map((a, i): Position => {
+        const b = ring[(i + 1) % n];
+        const len = Math.hypot(b[0] - a[0], b[1] - a[1]);
+        return [-(b[1] - a[1]) / len, (b[0] - a[0]) / len];
+    });
+    const insets = ring.map((a, i) => (p: Position) => normals[i][0] * (p[0] - a[0]) + normals[i][1] * (p[1] - a[1]));
+    const faces = skeletonFaces(ring);
+    const faceAt = (p: Position) => faces.findIndex(pieces => pieces.some(poly =>
+        isPointInPolygon({ x: p[0], y: p[1] }, poly[0].map(([x, y]) => ({ x, y })))));
+
+    const ridges: RoofLine[] = [];
+    const hips: RoofLine[] = [];
+    const valleys: RoofLine[] = [];
+    faces.forEach((pieces, i) => pieces.forEach(poly => {
+        const outline = poly[0];
+        for (let k = 0; k < outline.length - 1; k++) {
+            const a = outline[k];
+            const b = outline[k + 1];
+            const inset: [number, number] = [insets[i](a), insets[i](b)];
+            if (inset[0] < LEVEL_TOLERANCE && inset[1] < LEVEL_TOLERANCE) continue; // Eaves
+            const len = Math.hypot(b[0] - a[0], b[1] - a[1]);
+            if (len < LEVEL_TOLERANCE) continue;
+
+            // Step across the arc into the neighbouring plane; each arc is kept once, by its lower face
+            const step = Math.min(10, len / 4);
+            const mid: Position = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+            const across: Position = [-(b[1] - a[1]) / len * step, (b[0] - a[0]) / len * step];
+            const q1: Position = [mid[0] + across[0], mid[1] + across[1]];
+            const q2: Position = [mid[0] - across[0], mid[1] - across[1]];
+            const j1 = faceAt(q1);
+            const [q, j] = j1 === i ? [q2, faceAt(q2)] : [q1, j1];
+            if (j <= i) continue;
+            // Facets of a curved eaves fold into each other rather than meeting at a hip or valley
+            if (normals[i][0] * normals[j][0] + normals[i][1] * normals[j][1] > Math.cos(FOLD_ANGLE)) continue;
+
+            // Over the neighbour, this plane extended runs above the roof at a hip and below it at a valley
+            const drop = insets[i](q) - insets[j](q);
+            if (Math.abs(drop) < EPSILON * step) continue; // Coplanar
+            const line: RoofLine = { points: [a, b], inset };
+            if (Math.abs(inset[0] - inset[1]) < LEVEL_TOLERANCE) ridges.push(line);
+            else (drop > 0 ? hips : valleys).push(line);
+        }
+    }));
+    const ridgeRuns = joinLines(ridges).filter(({ points: [a, b] }) => Math.hypot(b[0] - a[0], b[1] - a[1]) > MIN_RIDGE);
+    return { ridges: ridgeRuns, hips, valleys };
+};
+
+/**
+ * Sets out the roof over a level's walls.
+ * @param footprint - Precomputed wall footprint union (mm)
+ */
+export const computeRoofGeometry = (walls: Wall[], roof: Roof, footprint?: MultiPolygon): RoofGeometry | undefined => {
+    if (walls.length === 0) return undefined;
+    const loop = getOuterLoop(footprint || computeUnion(walls.map(wallToPolygon)));
+    if (!loop || loop.length < 4) return undefined;
+
+    const thickness = Math.max(...walls.map(w => w.thickness));
+    const outline = closeNotches(ringCorners(loop), thickness);
+    if (outline.length < 3) return undefined;
+    const closed = [...outline, outline[0]];
+    const eaves = roof.type === 'flat' ? closed : offsetRing(closed, roof.overhang);
+    const corners = ringCorners(eaves);
+
+    // Align with the longest wall
+    const longest = walls.reduce((a, b) => distance(b.start, b.end) > distance(a.start, a.end) ? b : a);
+    const angle = Math.atan2(longest.end.y - longest.start.y, longest.end.x - longest.start.x);
+    let u: Position = [Math.cos(angle), Math.sin(angle)];
+    let v: Position = [-Math.sin(angle), Math.cos(angle)];
+
+    const extent = (axis: Position) => {
+        const values = eaves.map(p => p[0] * axis[0] + p[1] * axis[1]);
+        return [Math.min(...values), Math.max(...values)];
+    };
+    let [u0, u1] = extent(u);
+    let [v0, v1] = extent(v);
+    if (v1 - v0 > u1 - u0) {
+        [u, v] = [v, u];
+        [u0, u1, v0, v1] = [v0, v1, u0, u1];
+    }
+
+    const length = u1 - u0;
+    const width = v1 - v0;
+    const at = (su: number, sv: number): Position => [u[0] * su + v[0] * sv, u[1] * su + v[1] * sv];
+    const vMid = (v0 + v1) / 2;
+
+    if (roof.type === 'flat') return { eaves, ridges: [], hips: [], valleys: [], length, width };
+
+    if (roof.type === 'hip') return { eaves, ...hipSetout(corners), length, width };
+
+    // Gable: one ridge along the long side; other outlines need their gable ends chosen
+    if (!isRectangle(corners)) {
+        return {
+            eaves, ridges: [], hips: [], valleys: [], length, width,
+            warning: 'Gable roofs are only set out on rectangular plans; use a hip roof or split the roof into wings.'
+        };
+    }
+    return {
+        eaves,
+        ridges: [{ points: [at(u0, vMid), at(u1, vMid)], inset: [width / 2, width / 2] }],
+        hips: [],
+        valleys: [],
+        length,
+        width
+    };
+};
+
+/** Quantities for a roof over one level. */
+export const calculateRoofTakeoff = (walls: Wall[], roof: Roof, footprint?: MultiPolygon): RoofTakeoff | undefined => {
+    const geometry = computeRoofGeometry(walls, roof, footprint);
+    if (!geometry) return undefined;
+
+    const planArea = Math.abs(ringArea(geometry.eaves)) / 1e6;
+    const eavesPerimeter = ringPerimeter(geometry.eaves) / 1000;
+    const L = geometry.length / 1000;
+    const W = geometry.width / 1000;
+
+    if (roof.type === 'flat') {
+        return {
+            type: 'flat', planArea, slopedArea: planArea, rise: 0,
+            ridgeLength: 0, hipLength: 0, rafterLength: 0, tieLength: 0, purlinLength: 0,
+            sheetCount: 0, sheetLength: 0, ridgeCapCount: 0,
+            fasciaLength: 0, bargeLength: 0, gutterLength: 0,
+            copingLength: eavesPerimeter,
+            outletCount: Math.max(MIN_OUTLETS, Math.ceil(planArea / OUTLET_AREA))
+        };
+    }
+
+    const pitch = roof.pitch * (Math.PI / 180);
+    const slopedArea = planArea / Math.cos(pitch);
+    const rafterSpacing = (roof.rafterSpacing || 600) / 1000;
+    const purlinSpacing = (roof.purlinSpacing || 900) / 1000;
+    const coverWidth = (roof.sheetCoverWidth || 1000) / 1000;
+    const overhang = roof.overhang / 1000;
+
+    if (geometry.warning) {
+        // Covering and timber go by slope area; nothing set out along a ridge or eaves is priced
+        return {
+            type: roof.type, planArea, slopedArea, rise: 0,
+            ridgeLength: 0, hipLength: 0,
+            rafterLength: slopedArea / rafterSpacing, tieLength: 0, purlinLength: slopedArea / purlinSpacing,
+            sheetCount: 0, sheetLength: slopedArea / coverWidth, ridgeCapCount: 0,
+            fasciaLength: 0, bargeLength: 0, gutterLength: 0,
+            warning: geometry.warning
+        };
+    }
+
+    const planLength = (line: RoofLine) => Math.hypot(
+        line.points[1][0] - line.points[0][0],
+        line.points[1][1] - line.points[0][1]
+    ) / 1000;
+    const trueLength = (line: RoofLine) => Math.hypot(planLength(line), (line.inset[1] - line.inset[0]) / 1000 * Math.tan(pitch));
+    const sum = (lines: RoofLine[], length: (line: RoofLine) => number) => lines.reduce((total, line) => total + length(line), 0);
+
+    const lines = [...geometry.ridges, ...geometry.hips, ...geometry.valleys];
+    const peak = Math.max(0, ...lines.flatMap(line => line.inset)) / 1000;
+    const rise = peak * Math.tan(pitch);
+    const ridgeLength = sum(geometry.ridges, planLength);
+    const hipLength = sum(geometry.hips, trueLength);
+    const valleyLength = sum(geometry.valleys, trueLength);
+
+    // Trusses stand on the walls along each ridge, spanning its two eaves; hip ends are jack rafters
+    const tieLength = geometry.ridges.reduce((total, ridge) => {
+        const span = Math.max(0, 2 * ridge.inset[0] / 1000 - 2 * overhang);
+        const trussRun = roof.type === 'gable' ? Math.max(0, planLength(ridge) - 2 * overhang) : planLength(ridge);
+        const trussCount = Math.floor(trussRun / rafterSpacing + EPSILON) + 1;
+        const trussRise = (span / 2) * Math.tan(pitch);
+        const strut = Math.sqrt((span / 4) ** 2 + (trussRise / 2) ** 2);
+        return total + trussCount * (span + trussRise + 2 * strut);
+    }, 0);
+
+    const eavesLength = roof.type === 'gable' ? 2 * L : eavesPerimeter;
+    const slopeLength = (W / 2) / Math.cos(pitch);
+
+    return {
+        type: roof.type,
+        planArea,
+        slopedArea,
+        rise,
+        ridgeLength,
+        hipLength,
+        valleyLength,
+        rafterLength: slopedArea / rafterSpacing,
+        tieLength,
+        purlinLength: slopedArea / purlinSpacing,
+        sheetCount: Math.ceil(eavesLength / coverWidth),
+        sheetLength: slopedArea / coverWidth,
+        ridgeCapCount: Math.ceil((ridgeLength + hipLength) / RIDGE_CAP_LENGTH),
+        fasciaLength: eavesLength,
+        bargeLength: roof.type === 'gable' ? 4 * slopeLength : 0,
+        gutterLength: eavesLength
+    };
+};
@@ -0,0 +1,201 @@
+import { Wall, Point, Room, Opening, ProjectLabel, ProjectSettings, RoomFinishes } from '../types';
+import { extractPlanarFaces, wallToPolygon, computeUnion, computeDifference, calculateMultiPolygonArea, distance, getClosestPointOnLine, getWallPointAt, getWallHeightAt, findFaceWall, isPointInPolygon, MultiPolygon, Position } from './geometry';
+import { getOpeningArea, getOpeningRect } from './openingCsg';
+
+const SCALE = 0.05; // Must match Canvas scale
+const BOUNDARY_TOLERANCE = 10; // px, opening centre to room centreline
+
+export const DEFAULT_ROOM_FINISHES: RoomFinishes = {
+    floorFinish: 'ceramic',
+    wallFinish: 'emulsion',
+    ceilingType: 'pop'
+};
+
+/**
+ * ROOM DETECTION
+ *
+ * Turns the enclosed faces of the wall graph into Room entities.
+ * 1. Extracts bounded faces along wall centrelines (planar face walk).
+ * 2. Takes the clear internal floor, net of wall thickness, from the hole
+ *    of the wall footprint union lying within each face.
+ * 3. Measures clear area and perimeter for slab, blinding and finishes.
+ * 4. Links the label placed inside the room for its name and finishes,
+ *    and takes off skirting and wall paint net of boundary openings, each
+ *    face to the height of the wall it is on (gables, per-wall heights).
+ *    Wet rooms tiled to a height take the tiling off the paint.
+ */
+
+const centroidOf = (points: Point[]): Point => ({
+    x: points.reduce((acc, p) => acc + p.x, 0) / points.length,
+    y: points.reduce((acc, p) => acc + p.y, 0) / points.length
+});
+
+const ringToPoints = (ring: Position[]): Point[] => {
+    // Martinez rings are closed (last === first); drop the duplicate vertex
+    const open = ring.length > 1 ? ring.slice(0, -1) : ring;
+    return open.map(([x, y]) => ({ x: x * SCALE, y: y * SCALE }));
+};
+
+const ringPerimeter = (points: Point[]): number => {
+    let perimeter = 0;
+    for (let i = 0; i < points.length; i++) {
+        perimeter += distance(points[i], points[(i + 1) % points.length]);
+    }
+    return perimeter / SCALE / 1000; // px -> m
+};
+
+/**
+ * Wall face area (m2) round a clear outline (mm): each edge to the height of
+ * the wall it runs along, below any parapet, and no higher than `cap` (mm).
+ */
+const wallFaceArea = (ring: Position[], walls: Wall[], defaultHeight: number, cap: number = Infinity): number => {
+    let area = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+        const a = ring[i];
+        const b = ring[i + 1];
+        const face = findFaceWall([(a[0] + b[0]) / 2, (a[1] + b[1]) / 2], walls);
+        const height = face
+            ? getWallHeightAt(face.wall, face.t, defaultHeight) - (face.wall.parapetHeight || 0)
+            : defaultHeight;
+        area += Math.hypot(b[0] - a[0], b[1] - a[1]) / 1000 * Math.min(cap, height) / 1000;
+    }
+    return area;
+};
+
+/** World position (px) of an opening centre along its host wall. */
+const openingCentre = (opening: Opening, wall: Wall): Point => getWallPointAt(wall, opening.distanceFromStart).point;
+
+const isOnBoundary = (p: Point, loop: Point[]): boolean => {
+    for (let i = 0; i < loop.length; i++) {
+        const closest = getClosestPointOnLine(p, loop[i], loop[(i + 1) % loop.length]);
+        if (distance(p, closest.point) < BOUNDARY_TOLERANCE) return true;
+    }
+    return false;
+};
+
+export interface RoomDetectionOptions {
+    openings?: Opening[];
+    labels?: ProjectLabel[];
+    settings?: ProjectSettings;
+    wallUnion?: MultiPolygon; // Precomputed footprint union of all walls (mm)
+}
+
+/**
+ * Detects every enclosed room in the plan with its per-room takeoff.
+ * @param walls - Walls in px
+ */
+export const detectRooms = (walls: Wall[], options: RoomDetectionOptions = {}): Room[] => {
+    const { openings = [], labels = [], settings, wallUnion } = options;
+    const faces = extractPlanarFaces(walls);
+    if (faces.length === 0) return [];
+
+    const footprint = wallUnion || computeUnion(walls.map(wallToPolygon));
+    const defaults = settings?.defaultRoomFinishes || DEFAULT_ROOM_FINISHES;
+    const wallHeight = settings?.wallHeightDefault || 3000;
+    const rooms: Room[] = [];
+
+    // The union's holes are the clear room outlines; outer rings may stand free inside them
+    const toPoints = (ring: Position[]): Point[] => ring.map(([x, y]) => ({ x, y }));
+    const holes = footprint.flatMap(poly => poly.slice(1));
+    const outers = footprint.map(poly => poly[0]).filter(Boolean);
+
+    /** Clear floor inside a centreline face (mm): the hole within it, less free-standing walls. */
+    const clearFloor = (faceMm: Position[]): MultiPolygon => {
+        const facePoints = toPoints(faceMm);
+        let best: Position[] | undefined;
+        let bestArea = 0;
+        holes.forEach(hole => {
+            const inside = hole.filter(([x, y]) => isPointInPolygon({ x, y }, facePoints)).length;
+            if (inside * 2 <= hole.length) return;
+            const a = calculateMultiPolygonArea([[hole]]);
+            if (a > bestArea) {
+                bestArea = a;
+                best = hole;
+            }
+        });
+        if (best) {
+            const holePoints = toPoints(best);
+            const islands = outers.filter(ring => isPointInPolygon({ x: ring[0][0], y: ring[0][1] }, holePoints));
+            return [[best, ...islands]];
+        }
+
+        // A drafting gap leaves the union open: clip the face itself, snapped to
+        // whole mm, which the clipper handles reliably. An unclipped result means
+        // the clip failed, and a centreline face is no clear floor.
+        const snapped: Position[] = faceMm.map(([x, y]) => [Math.round(x), Math.round(y)] as Position);
+        const clipped = computeDifference([[snapped]], footprint);
+        return calculateMultiPolygonArea(clipped) < calculateMultiPolygonArea([[snapped]]) - 0.01 ? clipped : [];
+    };
+
+    faces.forEach(face => {
+        const faceMm: Position[] = face.map(p => [p.x / SCALE, p.y / SCALE] as Position);
+        faceMm.push(faceMm[0]);
+
+        const clear = clearFloor(faceMm);
+        const area = calculateMultiPolygonArea(clear);
+        if (area <= 0.01) return; // Wall-filled sliver, not a usable room
+
+        // Keep the dominant piece as the room outline
+        let largest = clear[0];
+        let largestArea = 0;
+        clear.forEach(poly => {
+            const a = calculateMultiPolygonArea([poly]);
+            if (a > largestArea) {
+                largestArea = a;
+                largest = poly;
+            }
+        });
+
+        const clearPoints = ringToPoints(largest[0]);
+        const perimeter = ringPerimeter(clearPoints);
+        const c = centroidOf(face);
+
+        // Label: the one inside the room closest to its centroid
+        const label = labels
+            .filter(l => isPointInPolygon({ x: l.x, y: l.y }, face))
+            .sort((a, b) => distance(a, c) - distance(b, c))[0];
+
+        const finishes: RoomFinishes = { ...defaults, ...label?.finishes };
+        const tileHeight = Math.min(finishes.wallTileHeight || 0, wallHeight);
+
+        // Openings sitting on this room's boundary, and their part below the wall tiling
+        let doorWidth = 0;
+        let openingArea = 0;
+        let openingBelowTiles = 0;
+        openings.forEach(o => {
+            const host = walls.find(w => w.id === o.wallId);
+            if (!host || !isOnBoundary(openingCentre(o, host), face)) return;
+            openingArea += getOpeningArea(o);
+            if (o.type !== 'window') doorWidth += o.width / 1000;
+            const r = getOpeningRect(o, settings);
+            openingBelowTiles += tileHeight >= r.z1 ? getOpeningArea(o) : o.width * Math.max(0, tileHeight - r.z0) / 1e6;
+        });
+        const wallTileArea = Math.max(0, wallFaceArea(largest[0], walls, wallHeight, tileHeight) - openingBelowTiles);
+
+        rooms.push({
+            id: `room_${Math.round(c.x)}_${Math.round(c.y)}`,
+            name: label?.text || '',
+            labelId: label?.id,
+            ...finishes,
+            points: face,
+            clearPoints,
+            area,
+            perimeter,
+            skirtingLength: Math.max(0, perimeter - doorWidth),
+            openingArea,
+            wallPaintArea: Math.max(0, wallFaceArea(largest[0], walls, wallHeight) - openingArea - wallTileArea),
+            wallTileArea,
+            ceilingArea: area
+        });
+    });
+
+    // Stable reading order: top-to-bottom, left-to-right
+    rooms.sort((a, b) => {
+        const ca = centroidOf(a.points);
+        const cb = centroidOf(b.points);
+        return Math.abs(ca.y - cb.y) > 1 ? ca.y - cb.y : ca.x - cb.x;
+    });
+    rooms.forEach((r, i) => { if (!r.name) r.name = `Room ${i + 1}`; });
+
+    return rooms;
+};
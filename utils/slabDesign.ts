@@ -0,0 +1,283 @@
+import { Slab, Beam, Wall, Point, ProjectSettings, SlabDesign, SlabDesignRules, SlabBarSet, SlabSpanType } from '../types';
+import { distance, getClosestPointOnLine } from './geometry';
+import { getDesignCode, ultimateLoad, bendingSteel } from './designCodes';
+import { gradeStrength } from './mixDesign';
+
+const SCALE = 0.05; // Must match Canvas scale
+const CONCRETE_DENSITY = 24; // kN/m3
+const MIN_STEEL_RATIO = 0.0013; // BS 8110 Table 3.25, high yield bars
+const SUPPORT_BAR_EXTENT = 0.3; // × short span, top bars into the slab from each support
+
+export const DEFAULT_SLAB_DESIGN_RULES: SlabDesignRules = {
+    barDiameters: [10, 12, 16],
+    distributionBarDiameter: 10,
+    minSpacing: 125,
+    maxSpacing: 300,
+    spacingStep: 25,
+    cover: 25,
+    fcu: 25,
+    fy: 410,
+    imposedLoad: 1.5,
+    finishesLoad: 1.2,
+    lapFactor: 40,
+    stockLength: 12
+};
+
+/**
+ * SLAB DESIGN (simply supported panels, to the project's design code)
+ *
+ * 1. Sets out the slab on its bounding rectangle, aligned with its longest edge.
+ * 2. Finds the edges bearing on a beam or wall. Panels supported on one pair
+ *    of opposite edges, or with ly/lx > 2, span one way; others span two ways.
+ * 3. Designs the bottom steel from the span moments (Table 3.13 coefficients
+ *    for two-way panels) and picks the smallest bar that fits the spacing rules.
+ * 4. Details bottom bars with alternate bars cranked over the supports, top
+ *    bars and their distribution bars at each supported edge, and laps
+ *    wherever a bar is longer than the stock length.
+ */
+
+/** Slab design rules with the project overrides applied. */
+export const resolveSlabRules = (settings: ProjectSettings): SlabDesignRules => ({
+    ...DEFAULT_SLAB_DESIGN_RULES,
+    ...settings.slabDesign
+});
+
+/** Factored floor load (kN/m2): self-weight and finishes, plus imposed load, per the design code. */
+export const slabUltimateLoad = (thickness: number, settings: ProjectSettings): number => {
+    const rules = resolveSlabRules(settings);
+    return ultimateLoad(getDesignCode(settings), CONCRETE_DENSITY * (thickness / 1000) + rules.finishesLoad, rules.imposedLoad);
+};
+
+const toMm = (p: Point): Point => ({ x: p.x / SCALE, y: p.y / SCALE });
+
+const isParallel = (a0: Point, a1: Point, b0: Point, b1: Point): boolean => {
+    const ax = a1.x - a0.x;
+    const ay = a1.y - a0.y;
+    const bx = b1.x - b0.x;
+    const by = b1.y - b0.y;
+    const lengths = Math.hypot(ax, ay) * Math.hypot(bx, by);
+    return lengths > 0 && Math.abs(ax * by - ay * bx) / lengths < 0.05;
+};
+
+/** True when a beam or wall runs along the slab edge (all in mm). */
+const isEdgeSupported = (e0: Point, e1: Point, supports: { start: Point, end: Point, width: number }[]): boolean => {
+    const mid = { x: (e0.x + e1.x) / 2, y: (e0.y + e1.y) / 2 };
+    return supports.some(s => {
+        if (!isParallel(e0, e1, s.start, s.end)) return false;
+        const { point } = getClosestPointOnLine(mid, s.start, s.end);
+        return distance(mid, point) < s.width / 2 + 100;
+    });
+};
+
+/** Bar size and spacing providing the required area (mm2/m). */
+const chooseBars = (asRequired: number, d: number, rules: SlabDesignRules): { diameter: number, spacing: number } => {
+    const maxSpacing = Math.min(rules.maxSpacing, 3 * d);
+    for (const diameter of rules.barDiameters) {
+        const barArea = Math.PI * diameter * diameter / 4;
+        const spacing = Math.min(maxSpacing, Math.floor((1000 * barArea / asRequired) / rules.spacingStep) * rules.spacingStep);
+        if (spacing >= rules.minSpacing) return { diameter, spacing };
+    }
+    return { diameter: rules.barDiameters[rules.barDiameters.length - 1], spacing: rules.minSpacing };
+};
+
+/** Steel area (mm2/m) for a moment (kNm/m) at effective depth d (mm). */
+const steelForMoment = (moment: number, d: number, h: number, rules: SlabDesignRules, settings: ProjectSettings): number => {
+    const M = moment * 1e6; // Nmm per m width
+    const fcu = gradeStrength('slab', settings) ?? rules.fcu;
+    const { tension } = bendingSteel(getDesignCode(settings), M, 1000, d, rules.cover, fcu, rules.fy);
+    return Math.max(tension, MIN_STEEL_RATIO * 1000 * h);
+};
+
+/**
+ * Bars for a moment in a layer whose outer face is `depth` (mm) below the top.
+ * The effective depth is to the centre of the bar chosen, so a larger bar is
+ * re-designed at its own, smaller d. A zero moment gives the minimum steel.
+ */
+const designLayer = (moment: number, depth: number, h: number, rules: SlabDesignRules, settings: ProjectSettings, barRules: SlabDesignRules = rules) => {
+    let diameter = barRules.barDiameters[0];
+    let d = depth - diameter / 2;
+    let asRequired = steelForMoment(moment, d, h, rules, settings);
+    let bars = chooseBars(asRequired, d, barRules);
+    while (bars.diameter > diameter) {
+        diameter = bars.diameter;
+        d = depth - diameter / 2;
+        asRequired = steelForMoment(moment, d, h, rules, settings);
+        bars = chooseBars(asRequired, d, barRules);
+    }
+    return { d, asRequired, bars };
+};
+
+/** Laps needed on a bar longer than the stock length (m), and its length with them. */
+const withLaps = (length: number, diameter: number, rules: SlabDesignRules): { length: number, laps: number } => {
+    const laps = Math.max(0, Math.ceil(length / rules.stockLength) - 1);
+    return { length: length + laps * rules.lapFactor * diameter / 1000, laps };
+};
+
+/**
+ * Designs one suspended slab panel.
+ * @param beams - Beams on the level (px)
+ * @param walls - Walls on the level (px), also treated as supports
+ */
+export const designSlab = (slab: Slab, index: number, beams: Beam[], walls: Wall[], settings: ProjectSettings): SlabDesign => {
+    const rules = resolveSlabRules(settings);
+    const label = slab.label?.trim() || `S${index + 1}`;
+    const h = slab.thickness || 150;
+    const pts = slab.points.map(toMm);
+
+    // 1. Bounding rectangle aligned with the longest edge
+    let longest = 0;
+    let angle = 0;
+    pts.forEach((p, i) => {
+        const q = pts[(i + 1) % pts.length];
+        const len = distance(p, q);
+        if (len > longest) {
+            longest = len;
+            angle = Math.atan2(q.y - p.y, q.x - p.x);
+        }
+    });
+    const ux = Math.cos(angle);
+    const uy = Math.sin(angle);
+    const along = pts.map(p => p.x * ux + p.y * uy);
+    const across = pts.map(p => -p.x * uy + p.y * ux);
+    const spanU = Math.max(...along) - Math.min(...along); // mm
+    const spanV = Math.max(...across) - Math.min(...across); // mm
+
+    // 2. Supported edges, grouped by the axis they run along
+    const supports = [
+        ...beams.map(b => ({ start: toMm(b.start), end: toMm(b.end), width: b.width })),
+        ...walls.map(w => ({ start: toMm(w.start), end: toMm(w.end), width: w.thickness }))
+    ];
+    let supportedEdges = 0;
+    let supportedAlongU = 0; // Edges parallel to the long side of the set-out
+    let supportedAlongV = 0;
+    const sidesAlongU = new Set<'low' | 'high'>(); // Which side of the set-out each supported edge is on
+    const sidesAlongV = new Set<'low' | 'high'>();
+    const midAlong = (Math.max(...along) + Math.min(...along)) / 2;
+    const midAcross = (Math.max(...across) + Math.min(...across)) / 2;
+    const supportedEdgeLengths: number[] = [];
+    pts.forEach((p, i) => {
+        const q = pts[(i + 1) % pts.length];
+        if (!isEdgeSupported(p, q, supports)) return;
+        supportedEdges++;
+        supportedEdgeLengths.push(distance(p, q));
+        const edgeAlong = Math.abs((q.x - p.x) * ux + (q.y - p.y) * uy);
+        if (edgeAlong > distance(p, q) * 0.7) {
+            supportedAlongU++;
+            sidesAlongU.add((across[i] + across[(i + 1) % pts.length]) / 2 < midAcross ? 'low' : 'high');
+        } else {
+            supportedAlongV++;
+            sidesAlongV.add((along[i] + along[(i + 1) % pts.length]) / 2 < midAlong ? 'low' : 'high');
+        }
+    });
+
+    // 3. Classify. lx is the span the main bars cross.
+    const shortIsV = spanV <= spanU;
+    const short = Math.min(spanU, spanV);
+    const long = Math.max(spanU, spanV);
+    const supportedOnLongEdges = shortIsV ? supportedAlongU : supportedAlongV;
+    const supportedOnShortEdges = shortIsV ? supportedAlongV : supportedAlongU;
+    const bothLongEdges = (shortIsV ? sidesAlongU : sidesAlongV).size === 2;
+    const bothShortEdges = (shortIsV ? sidesAlongV : sidesAlongU).size === 2;
+
+    let type: SlabSpanType = long / short > 2 ? 'one-way' : 'two-way';
+    let lx = short;
+    let ly = long;
+    if (supportedOnLongEdges > 0 && supportedOnShortEdges === 0) {
+        type = 'one-way';
+    } else if (supportedOnShortEdges > 0 && supportedOnLongEdges === 0) {
+        type = 'one-way';
+        lx = long; // Spans between the short edges
+        ly = short;
+    }
+
+    // 4. Loads and moments per metre width
+    const n = slabUltimateLoad(h, settings);
+    const lxM = lx / 1000;
+    let momentX: number;
+    let momentY = 0;
+    if (type === 'one-way') {
+        momentX = n * lxM * lxM / 8;
+    } else {
+        const r = ly / lx;
+        const r4 = Math.pow(r, 4);
+        momentX = (r4 / (8 * (1 + r4))) * n * lxM * lxM;
+        momentY = (r * r / (8 * (1 + r4))) * n * lxM * lxM;
+    }
+
+    // 5. Bottom steel: main bars in the outer layer, secondary above them
+    const { d: dx, asRequired: asRequiredX, bars: main } = designLayer(momentX, h - rules.cover, h, rules, settings);
+    const secondLayer = h - rules.cover - main.diameter;
+    const { asRequired: asRequiredY, bars: secondary } = type === 'two-way'
+        ? designLayer(momentY, secondLayer, h, rules, settings)
+        : designLayer(0, secondLayer, h, rules, settings, { ...rules, barDiameters: [rules.distributionBarDiameter] });
+
+    const crankHeight = Math.max(0, h - 2 * rules.cover - main.diameter) / 1000;
+    const crankExtra = 2 * 0.42 * crankHeight; // Two 45° cranks per bar
+
+    const bars: SlabBarSet[] = [];
+    const addBottomSet = (number: number, role: SlabBarSet['role'], bar: { diameter: number, spacing: number }, span: number, run: number, cranks: boolean) => {
+        const straight = (span - 2 * rules.cover) / 1000;
+        const count = Math.floor((run - 2 * rules.cover) / bar.spacing) + 1;
+        const crankedCount = cranks ? Math.floor(count / 2) : 0;
+        if (count - crankedCount > 0) {
+            bars.push({ mark: `${label}-${number}`, position: 'bottom', role, ...bar, count: count - crankedCount, ...withLaps(straight, bar.diameter, rules), cranked: false });
+        }
+        if (crankedCount > 0) {
+            bars.push({ mark: `${label}-${number}C`, position: 'bottom', role, ...bar, count: crankedCount, ...withLaps(straight + crankExtra, bar.diameter, rules), cranked: true, bendHeight: crankHeight * 1000 });
+        }
+    };
+
+    // Alternate bars are cranked where both ends of the span bear on supports
+    const mainEndsSupported = lx === short ? bothLongEdges : bothShortEdges;
+    const secondaryEndsSupported = lx === short ? bothShortEdges : bothLongEdges;
+    addBottomSet(1, 'main', main, lx, ly, mainEndsSupported);
+    addBottomSet(2, type === 'two-way' ? 'secondary' : 'distribution', secondary, ly, lx, type === 'two-way' && secondaryEndsSupported);
+
+    // 6. Top steel over each supported edge: support bars between the cranked bars
+    const supportLength = (SUPPORT_BAR_EXTENT * short + 2 * crankHeight * 1000) / 1000;
+    const distribution = chooseBars(MIN_STEEL_RATIO * 1000 * h, dx, { ...rules, barDiameters: [rules.distributionBarDiameter] });
+    const supportSpacing = Math.min(main.spacing * 2, rules.maxSpacing);
+    supportedEdgeLengths.forEach((edgeLength, i) => {
+        bars.push({
+            mark: `${label}-T${i + 1}`,
+            position: 'top',
+            role: 'support',
+            diameter: main.diameter,
+            spacing: supportSpacing,
+            count: Math.floor((edgeLength - 2 * rules.cover) / supportSpacing) + 1,
+            length: supportLength,
+            laps: 0,
+            cranked: false,
+            bendHeight: crankHeight * 1000
+        });
+        bars.push({
+            mark: `${label}-T${i + 1}D`,
+            position: 'top',
+            role: 'distribution',
+            diameter: distribution.diameter,
+            spacing: distribution.spacing,
+            count: Math.ceil(SUPPORT_BAR_EXTENT * short / distribution.spacing),
+            ...withLaps((edgeLength - 2 * rules.cover) / 1000, distribution.diameter, rules),
+            cranked: false
+        });
+    });
+
+    return {
+        slabId: slab.id,
+        label,
+        type,
+        lx: lx / 1000,
+        ly: ly / 1000,
+        supportedEdges,
+        ultimateLoad: n,
+        momentX,
+        momentY,
+        asRequiredX,
+        asRequiredY,
+        bars
+    };
+};
+
+/** Total bar length (m) in a slab design at one face. */
+export const getSlabBarLength = (design: SlabDesign, position: 'bottom' | 'top'): number =>
+    design.bars.filter(b => b.position === position).reduce((sum, b) => sum + b.count * b.length, 0);
@@ -1,273 +1,284 @@
 import { Point, Beam, Slab, Wall } from '../types';
-import { distance, getLineIntersection, getAngle } from './geometry';
+import { getClosestPointOnLine, computeUnion, calculateMultiPolygonArea, polygonCentroid, MultiPolygon, Polygon, Position } from './geometry';
+
+const SCALE = 0.05; // Must match Canvas scale
+const SUPPORT_TOLERANCE = 100; // mm beyond half the support width
 
 export interface TributaryArea {
-    beamId: string;
+    supportId: string; // Beam or wall carrying this area
+    supportType: 'beam' | 'wall';
+    slabId: string;
+    edge: [Point, Point]; // Slab edge the area drains to (px)
+    cantilever: boolean; // The edge has no support; the area hangs off the nearest one
     polygon: Point[];
     area: number; // sq meters
     color: string;
 }
 
-// Helper to calculate polygon area
-const calculatePolygonArea = (points: Point[]): number => {
+interface Support {
+    id: string;
+    type: 'beam' | 'wall';
+    start: Point; // mm
+    end: Point; // mm
+    width: number; // mm
+}
+
+interface WavefrontVertex {
+    p: Position; // Position at the current time (mm)
+    v: Position; // Velocity; the vertex moves 1 mm off both its edge lines per mm of time
+    eL: number; // Slab edge whose wavefront arrives at this vertex
+    eR: number; // Slab edge whose wavefront leaves it
+}
+
+/**
+ * TRIBUTARY AREAS (STRAIGHT SKELETON)
+ *
+ * Splits any simple slab polygon into one region per edge: the part of the
+ * slab whose load runs to that edge, as if the slab were a roof of equal
+ * pitch draining to every edge. Every edge moves inwards at the same speed,
+ * its ends sliding along the angle bisectors, and the region an edge sweeps
+ * before it vanishes is its tributary area. The shrinking outline changes
+ * shape when an edge collapses to a point (edge event) or a reflex corner
+ * runs into an opposite edge and splits the outline in two (split event).
+ * Regions go to the beam or wall along their edge. Edges with no support are
+ * flagged as cantilevers and their regions hang off the nearest support.
+ */
+
+const EPSILON = 1e-6;
+
+const toMm = (p: Point): Position => [p.x / SCALE, p.y / SCALE];
+const toPx = (p: Position): Point => ({ x: p[0] * SCALE, y: p[1] * SCALE });
+
+const dot = (a: Position, b: Position) => a[0] * b[0] + a[1] * b[1];
+const move = (p: Position, v: Position, t: number): Position => [p[0] + v[0] * t, p[1] + v[1] * t];
+
+const signedArea = (ring: Position[]): number => {
     let area = 0;
-    for (let i = 0; i < points.length; i++) {
-        const j = (i + 1) % points.length;
-        area += points[i].x * points[j].y;
-        area -= points[j].x * points[i].y;
+    for (let i = 0; i < ring.length; i++) {
+        const j = (i + 1) % ring.length;
+        area += ring[i][0] * ring[j][1] - ring[j][0] * ring[i][1];
     }
-    return Math.abs(area / 2) / 1000000; // Convert mm^2 to m^2
+    return area / 2;
 };
 
-export const calculateTributaryAreas = (beams: Beam[], slabs: Slab[]): TributaryArea[] => {
-    const tributaryAreas: TributaryArea[] = [];
-
-    slabs.forEach(slab => {
-        // Simplified Envelope Method for Rectangular Slabs
-        // 1. Identify supporting beams (beams that share edges with the slab)
-        // This is complex for arbitrary polygons. 
-        // Assumption: Slabs are roughly rectangular and beams are along the edges.
-
-        // For now, let's implement a visual approximation for the user.
-        // We will iterate through each beam and check if it supports the slab.
-
-        // A better approach for the "Envelope Method" visualization on the canvas:
-        // 1. Find the centroid of the slab.
-        // 2. Connect centroid to corners? No, that's for triangles.
-
-        // Correct Envelope Method (45 degree lines):
-        // 1. Bisect angles at corners.
-        // 2. Find intersection of bisectors.
-
-        // Let's assume rectangular slabs for the MVP of this feature.
-        if (slab.points.length !== 4) return; // Skip non-rectangular for now
-
-        const [p1, p2, p3, p4] = slab.points;
-
-        // Calculate side lengths
-        const d1 = distance(p1, p2);
-        const d2 = distance(p2, p3);
-
-        // Determine short and long span
-        // If d1 < d2, then p1-p2 is short span.
-
-        // We need to generate 4 polygons (2 triangles, 2 trapezoids)
-        // The 45-degree lines from corners meet at a ridge line.
-
-        // Logic:
-        // In a rectangle L x W (L > W), the tributary area for the long sides are Trapezoids,
-        // and for short sides are Triangles.
-        // The height of the triangle is W/2.
-
-        // We need to map these areas to the beams that are closest to the sides.
-
-        // Let's construct the 4 polygons geometrically first.
-        // Midpoints of the slab
-        const center = {
-            x: (p1.x + p2.x + p3.x + p4.x) / 4,
-            y: (p1.y + p2.y + p3.y + p4.y) / 4
-        };
-
-        // This is a simplification. Real implementation requires vector math to handle rotation.
-        // Let's try to find the "Ridge Line".
-
-        // Actually, for visualization, we can just compute the 4 regions based on the center?
-        // No, center only works for squares.
-
-        // Let's use a robust geometric approach:
-        // For each edge, form a triangle with the center? No.
-
-        // Let's stick to the standard definition:
-        // Lines from corners at 45 degrees relative to the edges.
-
-        // Since we might have rotated slabs, "45 degrees" means bisecting the corner angle.
-        // For a rectangle, the bisector is 45 degrees.
-
-        // Let's find the intersection of bisectors of adjacent corners.
-        // Bisector of A and B meets at P.
-        // Bisector of C and D meets at Q.
-        // The line PQ is the ridge.
-
-        // Let's implement this.
-
-        // Edge 1: p1-p2
-        // Edge 2: p2-p3
-        // Edge 3: p3-p4
-        // Edge 4: p4-p1
-
-        // We need to find which beams correspond to these edges.
-        // Find beams within a threshold distance of these segments.
-
-        const edges = [
-            { start: p1, end: p2 },
-            { start: p2, end: p3 },
-            { start: p3, end: p4 },
-            { start: p4, end: p1 }
-        ];
-
-        // Calculate bisector intersections
-        // We need to handle the geometry carefully.
-        // Short span determines the height of the triangle = min(L, W) / 2.
-
-        const L1 = distance(p1, p2);
-        const L2 = distance(p2, p3);
-
-        const isL1Short = L1 < L2;
-        const shortLen = isL1Short ? L1 : L2;
-        const offset = shortLen / 2;
-
-        // We can geometrically construct the inset points.
-        // Inset the rectangle by 'offset' to get a line (or point if square).
-
-        // Vector math to find the "Ridge" points.
-        // Vector p1->p2
-        const v12 = { x: p2.x - p1.x, y: p2.y - p1.y };
-        const len12 = Math.sqrt(v12.x * v12.x + v12.y * v12.y);
-        const u12 = { x: v12.x / len12, y: v12.y / len12 };
-
-        // Vector p2->p3
-        const v23 = { x: p3.x - p2.x, y: p3.y - p2.y };
-        const len23 = Math.sqrt(v23.x * v23.x + v23.y * v23.y);
-        const u23 = { x: v23.x / len23, y: v23.y / len23 };
-
-        // Normal to p1-p2 pointing inwards?
-        // Assuming counter-clockwise winding (standard for polygons)
-        // Rotate u12 by -90 degrees? Or +90?
-        // Let's assume standard axes.
-
-        // Let's try a simpler approach for the MVP:
-        // Just create 4 triangles connecting corners to the center.
-        // This is NOT the envelope method (it's for 2-way slabs on square bays), 
-        // but it's a good first approximation for visualization if we don't want to do full ridge calculation yet.
-
-        // BUT the user asked for "Envelope Method".
-        // So I should try to get the Trapezoids right.
-
-        // Let's find the 2 focal points on the ridge.
-        // If p1-p2 is long side:
-        // Ridge is parallel to p1-p2.
-        // Distance from p1-p2 is L2/2.
-        // Endpoints of ridge are inset by L2/2 from p1 and p2.
-
-        let ridgeP1: Point, ridgeP2: Point;
-
-        if (!isL1Short) {
-            // p1-p2 is Long. p2-p3 is Short.
-            // Inset from p1 along p1-p2 by L2/2
-            ridgeP1 = {
-                x: p1.x + u12.x * (L2 / 2) + u23.x * (L2 / 2), // Move along L1 and L2? No.
-                y: p1.y + u12.y * (L2 / 2) + u23.y * (L2 / 2)
-            };
-            // Actually, simpler:
-            // Calculate center.
-            // Calculate direction of long side.
-            // Move from center along long side direction by (Long - Short)/2
+/** Velocity keeping a vertex on both offset edge lines (zero where they face each other). */
+const bisectorVelocity = (nL: Position, nR: Position): Position => {
+    const det = nL[0] * nR[1] - nL[1] * nR[0];
+    if (Math.abs(det) < EPSILON) return dot(nL, nR) > 0 ? nL : [0, 0];
+    return [(nR[1] - nL[1]) / det, (nL[0] - nR[0]) / det];
+};
 
-            const longDir = u12;
-            const halfDiff = (L1 - L2) / 2;
+/** Drops repeated and collinear points from a closed ring. */
+const simplifyRing = (ring: Position[]): Position[] => {
+    const open = ring.slice(0, -1).filter((p, i, all) => {
+        const next = all[(i + 1) % all.length];
+        return Math.hypot(next[0] - p[0], next[1] - p[1]) > EPSILON * 1000;
+    });
+    return open.filter((p, i) => {
+        const prev = open[(i - 1 + open.length) % open.length];
+        const next = open[(i + 1) % open.length];
+        const cross = (p[0] - prev[0]) * (next[1] - p[1]) - (p[1] - prev[1]) * (next[0] - p[0]);
+        return Math.abs(cross) > EPSILON * Math.hypot(next[0] - prev[0], next[1] - prev[1]) * 1000;
+    });
+};
 
-            ridgeP1 = {
-                x: center.x - longDir.x * halfDiff,
-                y: center.y - longDir.y * halfDiff
-            };
-            ridgeP2 = {
-                x: center.x + longDir.x * halfDiff,
-                y: center.y + longDir.y * halfDiff
+/** Straight skeleton faces of a counter-clockwise ring (mm), one per edge. */
+export const skeletonFaces = (ring: Position[]): MultiPolygon[] => {
+    const n = ring.length;
+    const normals: Position[] = ring.map((a, i) => {
+        const b = ring[(i + 1) % n];
+        const len = Math.hypot(b[0] - a[0], b[1] - a[1]);
+        return [-(b[1] - a[1]) / len, (b[0] - a[0]) / len];
+    });
+    const offsets = ring.map((a, i) => dot(normals[i], a));
+    const direction = (i: number): Position => [normals[i][1], -normals[i][0]];
+    const pieces: Polygon[][] = ring.map(() => []);
+
+    let lavs: WavefrontVertex[][] = [ring.map((p, i) => {
+        const eL = (i - 1 + n) % n;
+        return { p, v: bisectorVelocity(normals[eL], normals[i]), eL, eR: i };
+    })];
+    let time = 0;
+
+    for (let iteration = 0; iteration < 4 * n * n && lavs.length > 0; iteration++) {
+        // 1. Earliest event across every outline
+        let best: { dt: number, lav: number, kind: 'edge' | 'split', at: number, edge: number } | undefined;
+        lavs.forEach((lav, li) => {
+            lav.forEach((u, ui) => {
+                const w = lav[(ui + 1) % lav.length];
+                const dir = direction(u.eR);
+                const length = dot([w.p[0] - u.p[0], w.p[1] - u.p[1]], dir);
+                const rate = dot([w.v[0] - u.v[0], w.v[1] - u.v[1]], dir);
+                if (rate < -EPSILON || length < EPSILON) {
+                    const dt = Math.max(0, length < EPSILON ? 0 : -length / rate);
+                    if (!best || dt < best.dt) best = { dt, lav: li, kind: 'edge', at: ui, edge: u.eR };
+                }
+
+                // Reflex corners can run into an edge further round the outline
+                const dL = direction(u.eL);
+                const dR = direction(u.eR);
+                if (dL[0] * dR[1] - dL[1] * dR[0] >= -EPSILON) return;
+                lav.forEach((a, ai) => {
+                    const b = lav[(ai + 1) % lav.length];
+                    const e = a.eR;
+                    if (a === u || b === u || e === u.eL || e === u.eR) return;
+                    const gap = dot(normals[e], u.p) - offsets[e] - time;
+                    const closing = 1 - dot(normals[e], u.v);
+                    if (closing < EPSILON || gap < -EPSILON) return;
+                    const dt = Math.max(0, gap / closing);
+                    if (best && dt >= best.dt) return;
+                    const hit = move(u.p, u.v, dt);
+                    const a1 = move(a.p, a.v, dt);
+                    const b1 = move(b.p, b.v, dt);
+                    const dirE = direction(e);
+                    const span = dot([b1[0] - a1[0], b1[1] - a1[1]], dirE);
+                    const along = dot([hit[0] - a1[0], hit[1] - a1[1]], dirE);
+                    if (span > EPSILON && along > EPSILON && along < span - EPSILON) {
+                        best = { dt, lav: li, kind: 'split', at: ui, edge: ai };
+                    }
+                });
+            });
+        });
+        if (!best) break;
+        const event: { dt: number, lav: number, kind: 'edge' | 'split', at: number, edge: number } = best;
+
+        // 2. Advance every outline, recording the strip each edge sweeps
+        lavs = lavs.map(lav => {
+            const moved = lav.map(u => ({ ...u, p: move(u.p, u.v, event.dt) }));
+            if (event.dt > 0) {
+                lav.forEach((u, ui) => {
+                    const w = lav[(ui + 1) % lav.length];
+                    const strip = [u.p, w.p, moved[(ui + 1) % lav.length].p, moved[ui].p];
+                    if (Math.abs(signedArea(strip)) > EPSILON) pieces[u.eR].push([[...strip, strip[0]]]);
+                });
+            }
+            return moved;
+        });
+        time += event.dt;
+
+        // 3. Reshape the outline
+        const lav = lavs[event.lav];
+        const u = lav[event.at];
+        if (event.kind === 'edge') {
+            const wi = (event.at + 1) % lav.length;
+            const w = lav[wi];
+            const merged: WavefrontVertex = {
+                p: [(u.p[0] + w.p[0]) / 2, (u.p[1] + w.p[1]) / 2],
+                v: bisectorVelocity(normals[u.eL], normals[w.eR]),
+                eL: u.eL,
+                eR: w.eR
             };
-
-            // Areas:
-            // Side 1 (p1-p2, Long): Trapezoid (p1, p2, ridgeP2, ridgeP1)
-            // Side 3 (p3-p4, Long): Trapezoid (p3, p4, ridgeP1, ridgeP2)
-            // Side 2 (p2-p3, Short): Triangle (p2, p3, ridgeP2)
-            // Side 4 (p4-p1, Short): Triangle (p4, p1, ridgeP1)
-
-            // Assign to beams
-            assignAreaToBeam(beams, [p1, p2, ridgeP2, ridgeP1], p1, p2, tributaryAreas, 'trapezoid');
-            assignAreaToBeam(beams, [p3, p4, ridgeP1, ridgeP2], p3, p4, tributaryAreas, 'trapezoid');
-            assignAreaToBeam(beams, [p2, p3, ridgeP2], p2, p3, tributaryAreas, 'triangle');
-            assignAreaToBeam(beams, [p4, p1, ridgeP1], p4, p1, tributaryAreas, 'triangle');
-
+            lavs[event.lav] = lav.map((x, i) => i === event.at ? merged : x).filter((_, i) => i !== wi);
         } else {
-            // p2-p3 is Long. p1-p2 is Short.
-            const longDir = u23;
-            const halfDiff = (L2 - L1) / 2;
-
-            ridgeP1 = {
-                x: center.x - longDir.x * halfDiff,
-                y: center.y - longDir.y * halfDiff
-            };
-            ridgeP2 = {
-                x: center.x + longDir.x * halfDiff,
-                y: center.y + longDir.y * halfDiff
+            const a = lav[event.edge];
+            const hit = u.p;
+            // One outline runs from the hit to the edge's far end, the other from its near end back to the hit
+            const rotate = (from: number, to: number) => {
+                const out: WavefrontVertex[] = [];
+                for (let i = from; i !== to; i = (i + 1) % lav.length) out.push(lav[i]);
+                return out;
             };
-
-            // Areas:
-            // Side 2 (p2-p3, Long): Trapezoid (p2, p3, ridgeP2, ridgeP1)
-            // Side 4 (p4-p1, Long): Trapezoid (p4, p1, ridgeP1, ridgeP2)
-            // Side 1 (p1-p2, Short): Triangle (p1, p2, ridgeP1)
-            // Side 3 (p3-p4, Short): Triangle (p3, p4, ridgeP2)
-
-            assignAreaToBeam(beams, [p2, p3, ridgeP2, ridgeP1], p2, p3, tributaryAreas, 'trapezoid');
-            assignAreaToBeam(beams, [p4, p1, ridgeP1, ridgeP2], p4, p1, tributaryAreas, 'trapezoid');
-            assignAreaToBeam(beams, [p1, p2, ridgeP1], p1, p2, tributaryAreas, 'triangle');
-            assignAreaToBeam(beams, [p3, p4, ridgeP2], p3, p4, tributaryAreas, 'triangle');
+            const first: WavefrontVertex = { p: hit, v: bisectorVelocity(normals[u.eL], normals[a.eR]), eL: u.eL, eR: a.eR };
+            const second: WavefrontVertex = { p: hit, v: bisectorVelocity(normals[a.eR], normals[u.eR]), eL: a.eR, eR: u.eR };
+            lavs.splice(event.lav, 1,
+                [first, ...rotate((event.edge + 1) % lav.length, event.at)],
+                [second, ...rotate((event.at + 1) % lav.length, (event.edge + 1) % lav.length)]);
         }
-    });
-
-    return tributaryAreas;
-};
+        // Parallel edges that have met leave a zero-width spike; retract it to its nearer neighbour
+        lavs = lavs.map(lav => {
+            for (let i = 0; i < lav.length && lav.length >= 3;) {
+                const m = lav[i];
+                if (dot(normals[m.eL], normals[m.eR]) > EPSILON - 1) {
+                    i++;
+                    continue;
+                }
+                const pi = (i - 1 + lav.length) % lav.length;
+                const ni = (i + 1) % lav.length;
+                const prev = lav[pi];
+                const next = lav[ni];
+                const spike = [...lav];
+                if (Math.hypot(next.p[0] - m.p[0], next.p[1] - m.p[1]) <= Math.hypot(prev.p[0] - m.p[0], prev.p[1] - m.p[1])) {
+                    spike[ni] = { ...next, eL: m.eL, v: bisectorVelocity(normals[m.eL], normals[next.eR]) };
+                } else {
+                    spike[pi] = { ...prev, eR: m.eR, v: bisectorVelocity(normals[prev.eL], normals[m.eR]) };
+                }
+                lav = spike.filter((_, j) => j !== i);
+                i = 0;
+            }
+            return lav;
+        });
 
-const assignAreaToBeam = (
-    beams: Beam[],
-    polygon: Point[],
-    edgeStart: Point,
-    edgeEnd: Point,
-    results: TributaryArea[],
-    shape: 'triangle' | 'trapezoid'
-) => {
-    // Find beam closest to this edge
-    // We check if a beam is roughly collinear and overlapping with edgeStart-edgeEnd
+        // Outlines that have shrunk to a point or a line are done
+        lavs = lavs.filter(l => l.length >= 3 && Math.abs(signedArea(l.map(x => x.p))) > EPSILON);
+    }
 
-    const midPoint = {
-        x: (edgeStart.x + edgeEnd.x) / 2,
-        y: (edgeStart.y + edgeEnd.y) / 2
-    };
+    return pieces.map(strips => computeUnion(strips)
+        .map(poly => [simplifyRing(poly[0])])
+        .filter(poly => poly[0].length >= 3)
+        .map(poly => [[...poly[0], poly[0][0]]]));
+};
 
-    const matchingBeam = beams.find(b => {
-        // Check distance from midpoint to beam line
-        // And check if beam covers the segment
-        // Simple check: distance from midPoint to beam segment < threshold
+const distanceToSupport = (p: Position, s: Support): number => {
+    const { point } = getClosestPointOnLine({ x: p[0], y: p[1] }, s.start, s.end);
+    return Math.hypot(p[0] - point.x, p[1] - point.y);
+};
 
-        // Distance from point to line segment
-        // Reuse geometry util if available, or simple check
-        // Assuming we have getClosestPointOnLine in geometry, but we can't import it easily if circular?
-        // We imported it.
+/** Support running along a slab edge (parallel, on the edge line, covering its midpoint). */
+const findEdgeSupport = (a: Position, b: Position, supports: Support[]): Support | undefined => {
+    const mid: Position = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+    const ex = b[0] - a[0];
+    const ey = b[1] - a[1];
+    return supports.find(s => {
+        const sx = s.end.x - s.start.x;
+        const sy = s.end.y - s.start.y;
+        const lengths = Math.hypot(ex, ey) * Math.hypot(sx, sy);
+        if (lengths === 0 || Math.abs(ex * sy - ey * sx) / lengths > 0.05) return false;
+        return distanceToSupport(mid, s) < s.width / 2 + SUPPORT_TOLERANCE;
+    });
+};
 
-        // Let's just use a simple distance check to beam start/end for now? No, that's wrong.
-        // Distance to the line segment.
+export const calculateTributaryAreas = (beams: Beam[], slabs: Slab[], walls: Wall[] = []): TributaryArea[] => {
+    const tributaryAreas: TributaryArea[] = [];
+    const supports: Support[] = [
+        ...beams.map(b => ({ id: b.id, type: 'beam' as const, start: { x: b.start.x / SCALE, y: b.start.y / SCALE }, end: { x: b.end.x / SCALE, y: b.end.y / SCALE }, width: b.width })),
+        ...walls.map(w => ({ id: w.id, type: 'wall' as const, start: { x: w.start.x / SCALE, y: w.start.y / SCALE }, end: { x: w.end.x / SCALE, y: w.end.y / SCALE }, width: w.thickness }))
+    ];
 
-        const d = pointToSegmentDistance(midPoint, b.start, b.end);
-        return d < 200; // 200mm threshold
+    slabs.forEach(slab => {
+        // Drop repeated vertices and wind counter-clockwise (interior on the left)
+        let ring = slab.points.map(toMm).filter((p, i, all) => {
+            const next = all[(i + 1) % all.length];
+            return Math.hypot(next[0] - p[0], next[1] - p[1]) > 1e-6;
+        });
+        if (ring.length < 3) return;
+        if (signedArea(ring) < 0) ring = ring.reverse();
+
+        const faces = skeletonFaces(ring);
+        const edges = ring.map((a, i): [Position, Position] => [a, ring[(i + 1) % ring.length]]);
+        const edgeSupports = edges.map(([a, b]) => findEdgeSupport(a, b, supports));
+        const slabSupports = edgeSupports.filter((s): s is Support => !!s);
+        if (slabSupports.length === 0) return; // Nothing carries this slab
+
+        edges.forEach((edge, i) => {
+            const own = edgeSupports[i];
+            faces[i].forEach(piece => {
+                const c = polygonCentroid(piece);
+                const support = own || slabSupports.reduce((a, b) => distanceToSupport(c, b) < distanceToSupport(c, a) ? b : a);
+                tributaryAreas.push({
+                    supportId: support.id,
+                    supportType: support.type,
+                    slabId: slab.id,
+                    edge: [toPx(edge[0]), toPx(edge[1])],
+                    cantilever: !own,
+                    polygon: piece[0].slice(0, -1).map(toPx),
+                    area: calculateMultiPolygonArea([piece]),
+                    color: !own
+                        ? 'rgba(239, 68, 68, 0.3)' // Red for cantilevers
+                        : piece[0].length === 4 ? 'rgba(34, 197, 94, 0.3)' : 'rgba(59, 130, 246, 0.3)' // Green for Tri, Blue for Trap
+                });
+            });
+        });
     });
 
-    if (matchingBeam) {
-        results.push({
-            beamId: matchingBeam.id,
-            polygon,
-            area: calculatePolygonArea(polygon),
-            color: shape === 'triangle' ? 'rgba(34, 197, 94, 0.3)' : 'rgba(59, 130, 246, 0.3)' // Green for Tri, Blue for Trap
-        });
-    }
+    return tributaryAreas;
 };
-
-function pointToSegmentDistance(p: Point, v: Point, w: Point) {
-    const l2 = (v.x - w.x) ** 2 + (v.y - w.y) ** 2;
-    if (l2 === 0) return distance(p, v);
-    let t = ((p.x - v.x) * (w.x - v.x) + (p.y - v.y) * (w.y - v.y)) / l2;
-    t = Math.max(0, Math.min(1, t));
-    const projection = {
-        x: v.x + t * (w.x - v.x),
-        y: v.y + t * (w.y - v.y)
-    };
-    return distance(p, projection);
-}
@@ -1,15 +1,16 @@
 
-import { Wall, Point } from '../types';
-import { distance } from './geometry';
+import { Wall, Point, Opening, ProjectSettings } from '../types';
+import { distance, getClosestPointOnLine, getWallLength, getWallPointAt, getWallHeightAt } from './geometry';
+import { getOpeningRect } from './openingCsg';
 
 export interface GeometricIssue {
-    type: 'acute_angle' | 'short_wall' | 'disconnection';
+    type: 'acute_angle' | 'short_wall' | 'disconnection' | 'opening_overlap' | 'opening_overflow' | 'opening_junction';
     message: string;
     location: Point;
     severity: 'warning' | 'critical';
 }
 
-export const validateGeometry = (walls: Wall[]): GeometricIssue[] => {
+export const validateGeometry = (walls: Wall[], openings: Opening[] = [], settings?: ProjectSettings): GeometricIssue[] => {
     const issues: GeometricIssue[] = [];
 
     // 1. Short Walls (Slivers)
@@ -85,5 +86,65 @@ export const validateGeometry = (walls: Wall[]): GeometricIssue[] => {
         }
     });
 
+    // 3. Openings (cut from the wall solids, see openingCsg)
+    const SCALE = 0.05;
+    const defaultHeight = settings?.wallHeightDefault || 3000;
+
+    walls.forEach(w => {
+        const hosted = openings.filter(o => o.wallId === w.id);
+        if (hosted.length === 0) return;
+
+        const length = getWallLength(w) / SCALE;
+        const pointAt = (s: number): Point => getWallPointAt(w, Math.max(0, Math.min(length, s)) * SCALE).point;
+        const rects = hosted.map(o => getOpeningRect(o, settings));
+
+        rects.forEach((r, i) => {
+            const centre = (r.s0 + r.s1) / 2;
+
+            // Past the wall ends or above the wall top
+            const top = Math.min(getWallHeightAt(w, r.s0 / length, defaultHeight), getWallHeightAt(w, r.s1 / length, defaultHeight));
+            if (r.s0 < 0 || r.s1 > length || r.z1 > top) {
+                issues.push({
+                    type: 'opening_overflow',
+                    message: `Opening runs past its wall (${hosted[i].width}×${hosted[i].height}mm on a ${length.toFixed(0)}mm wall). Only the part inside the wall is deducted.`,
+                    location: pointAt(centre),
+                    severity: 'warning'
+                });
+            }
+
+            // Overlapping another opening in the same wall
+            for (let j = i + 1; j < rects.length; j++) {
+                const o = rects[j];
+                if (r.s0 < o.s1 && o.s0 < r.s1 && r.z0 < o.z1 && o.z0 < r.z1) {
+                    issues.push({
+                        type: 'opening_overlap',
+                        message: 'Overlapping openings on one wall. The overlap is deducted once.',
+                        location: pointAt(centre),
+                        severity: 'warning'
+                    });
+                }
+            }
+
+            // Crossing a junction where another wall meets this one
+            const crossed = walls.some(other => {
+                if (other.id === w.id) return false;
+                return [other.start, other.end].some(p => {
+                    const { point, t } = getClosestPointOnLine(p, w.start, w.end);
+                    if (distance(p, point) > (w.thickness / 2) * SCALE) return false;
+                    const s = t * length;
+                    return s + other.thickness / 2 > r.s0 && s - other.thickness / 2 < r.s1;
+                });
+            });
+            if (crossed) {
+                issues.push({
+                    type: 'opening_junction',
+                    message: "Opening crosses a wall junction. Only this wall's own masonry is deducted.",
+                    location: pointAt(centre),
+                    severity: 'warning'
+                });
+            }
+        });
+    });
+
     return issues;
 };
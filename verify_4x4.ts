@@ -36,10 +36,7 @@ const settings = {
     mortarRatio: 6,
     floorMixRatio: '1:2:4',
     foundationType: 'strip',
-    foundationWidth: 675,
-    foundationDepth: 1000,
-    padLength: 1000,
-    padWidth: 1000
+    foundationDepth: 1000
 };
 
 // Run Calculation
@@ -14,7 +14,6 @@ const settings: ProjectSettings = {
     mortarRatio: 6,
     floorThickness: 150,
     foundationDepth: 900,
-    foundationWidth: 675,
     lintelType: 'opening',
     lintelOverhang: 150,
     mainBarCount: 4,
@@ -25,8 +24,6 @@ const settings: ProjectSettings = {
     targetDailyRate: 100,
     floorCount: 1,
     foundationType: 'strip',
-    padWidth: 1000,
-    padLength: 1000,
     floorMixRatio: "1:2:4"
 };
 
@@ -0,0 +1,74 @@
+
+import { Slab, Wall } from './types';
+import { calculateTributaryAreas } from './utils/structuralAnalysis';
+import { calculatePolygonArea } from './utils/geometry';
+
+// Slab outlines in mm; the canvas works in px at SCALE 0.05 (1px = 20mm)
+const SCALE = 0.05;
+
+const createSlab = (id: string, outline: number[][]): Slab => ({
+    id,
+    points: outline.map(([x, y]) => ({ x: x * SCALE, y: y * SCALE })),
+    thickness: 150
+});
+
+// One wall along every slab edge, except the ones listed as unsupported
+const wallsUnder = (slab: Slab, unsupported: number[] = []): Wall[] => slab.points
+    .map((p, i) => ({ id: `${slab.id}-w${i}`, start: p, end: slab.points[(i + 1) % slab.points.length], thickness: 225, height: 3000 }))
+    .filter((_, i) => !unsupported.includes(i));
+
+const cases: { name: string, outline: number[][], unsupported?: number[], expected?: Record<number, number> }[] = [
+    // 6m x 4m: 45° triangles of 4 m² on the short edges, trapezoids of 8 m² on the long ones
+    { name: 'Rectangle', outline: [[0, 0], [6000, 0], [6000, 4000], [0, 4000]], expected: { 0: 8, 1: 4, 2: 8, 3: 4 } },
+    { name: 'L-shape', outline: [[0, 0], [12000, 0], [12000, 6000], [6000, 6000], [6000, 12000], [0, 12000]] },
+    { name: 'U-shape', outline: [[0, 0], [12000, 0], [12000, 10000], [8000, 10000], [8000, 4000], [4000, 4000], [4000, 10000], [0, 10000]] },
+    // The stem's sides meet before the bar's do
+    { name: 'T-shape', outline: [[0, 0], [15000, 0], [15000, 6000], [10000, 6000], [10000, 14000], [5000, 14000], [5000, 6000], [0, 6000]] },
+    { name: 'Triangle', outline: [[0, 0], [9000, 0], [2000, 7000]] },
+    // Free edge along the top: its region hangs off the walls either side
+    { name: 'Unsupported edge', outline: [[0, 0], [6000, 0], [6000, 4000], [0, 4000]], unsupported: [2], expected: { 0: 8, 1: 4, 2: 8, 3: 4 } }
+];
+
+const runTest = () => {
+    console.log("🧪 Testing Tributary Areas (Straight Skeleton)...");
+    let failures = 0;
+
+    cases.forEach(({ name, outline, unsupported = [], expected }) => {
+        const slab = createSlab(name, outline);
+        const areas = calculateTributaryAreas([], [slab], wallsUnder(slab, unsupported));
+        const slabArea = calculatePolygonArea(outline.map(([x, y]) => ({ x, y }))) / 1e6;
+        const total = areas.reduce((sum, a) => sum + a.area, 0);
+        const problems: string[] = [];
+
+        // Every square metre of slab goes to exactly one edge
+        if (Math.abs(total - slabArea) > 0.01) problems.push(`regions cover ${total.toFixed(3)} m² of ${slabArea.toFixed(3)} m²`);
+
+        // Each edge's region, and only the free edges hang off a neighbouring support
+        outline.forEach((_, i) => {
+            const own = areas.filter(a => a.supportId === `${name}-w${i}` && !a.cantilever);
+            const free = areas.filter(a => a.cantilever && Math.abs(a.edge[0].x - outline[i][0] * SCALE) < 1e-6 && Math.abs(a.edge[0].y - outline[i][1] * SCALE) < 1e-6);
+            const edgeArea = [...own, ...free].reduce((sum, a) => sum + a.area, 0);
+            if (unsupported.includes(i) ? own.length > 0 || free.length === 0 : own.length === 0 || free.length > 0) {
+                problems.push(`edge ${i} is ${unsupported.includes(i) ? 'free but not flagged' : 'supported but has no region'}`);
+            }
+            if (expected && Math.abs(edgeArea - expected[i]) > 0.01) {
+                problems.push(`edge ${i} carries ${edgeArea.toFixed(3)} m², expected ${expected[i]} m²`);
+            }
+        });
+
+        if (problems.length === 0) {
+            console.log(`✅ ${name}: ${areas.length} regions, ${total.toFixed(3)} m²`);
+        } else {
+            failures++;
+            console.log(`❌ ${name}: ${problems.join('; ')}`);
+        }
+    });
+
+    if (failures === 0) {
+        console.log("✅ Tributary Area Validation PASSED");
+    } else {
+        console.log(`❌ Tributary Area Validation FAILED: ${failures} of ${cases.length} cases`);
+    }
+};
+
+runTest();